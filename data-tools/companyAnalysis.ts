@@ -15,12 +15,13 @@
  *   --multi          Use multi-step approach for more reliable results
  *   --debug          Enable detailed debug logging
  *   --dump-schema    Outputs the OpenAI function schema to examples/schema_YYYYMMDD_HHMMSS.json
- *   --provider=X     Specify the provider: 'direct' (OpenAI) or 'openrouter' (default: use LLM_PROVIDER env var)
+ *   --provider=X     Specify the provider: 'direct' (OpenAI), 'openrouter', 'anthropic', 'local' or 'mock' (default: use LLM_PROVIDER env var)
  *
  * Examples:
  *   bun data-tools/companyAnalysis.ts Apple                     # Analyze Apple with single-step approach
  *   bun data-tools/companyAnalysis.ts Microsoft --multi         # Analyze Microsoft with multi-step approach
  *   bun data-tools/companyAnalysis.ts Apple --provider=openrouter # Use OpenRouter provider
+ *   bun data-tools/companyAnalysis.ts Apple --provider=mock       # Offline run with mock data (see providers/mock.ts)
  *   bun data-tools/companyAnalysis.ts --dump-schema             # Just save the schema to a file without making API calls
  *
  * @link openai.ts - Core AI processing functionality
@@ -89,7 +90,7 @@ async function dumpSchemaToFile() {
  * @param {string} companyName - The name of the company to analyze
  * @param {boolean} useMultiStep - Whether to use the multi-step approach for more reliable results
  * @param {boolean} enableDebug - Whether to enable debug logging
- * @param {string} provider - Optional provider to use ('direct' or 'openrouter')
+ * @param {string} provider - Optional provider to use ('direct', 'openrouter', 'anthropic', 'local' or 'mock')
  * @returns {Promise<Object>} The parsed financial analysis data with cost information
  * @link $lib/server/db/research/openai.ts - Uses processCompanyAnalysis with strategy option for core functionality
  */
@@ -108,6 +109,7 @@ async function analyzeCompany(
 			debug: enableDebug,
 			provider,
 			strategy: useMultiStep ? 'multi' : 'single',
+			route: 'cli',
 			tool_choice: { type: 'function' }
 		});
 
@@ -0,0 +1,207 @@
+/**
+ * report.ts
+ * Comparison report of evaluation runs
+ *
+ * Runs are grouped by model, prompt version and strategy. Each group reports
+ * the mean precision, recall and F1 of its successful runs, the share of
+ * schema-valid analyses and its total cost; failed runs count against the
+ * group but are not scored. The report is written as JSON for tooling and as
+ * a Markdown table for review.
+ *
+ * @link data-tools/eval/runEval.ts - Evaluation command
+ * @link data-tools/eval/scoring.ts - Scores of a single run
+ */
+
+import type { AnalysisScore } from './scoring';
+
+/**
+ * Model, prompt version and strategy being compared
+ */
+export interface EvalCombination {
+	model: string;
+	// Requested prompt version; null uses each template's default
+	promptVersion: string | null;
+	strategy: 'single' | 'multi';
+}
+
+/**
+ * Analysis of one golden set company with one combination
+ */
+export interface EvalRun extends EvalCombination {
+	company: string;
+	status: 'ok' | 'failed';
+	error?: string;
+	score?: AnalysisScore;
+	costUSD: number;
+	totalTokens: number;
+	durationMs: number;
+	// Template versions used, from _meta.prompt
+	promptTemplates?: Record<string, string>;
+}
+
+/**
+ * Mean precision, recall and F1 of one kind of names
+ */
+export interface EvalNameSummary {
+	precision: number;
+	recall: number;
+	f1: number;
+}
+
+/**
+ * Results of one combination over the golden set
+ */
+export interface EvalCombinationSummary extends EvalCombination {
+	runs: number;
+	failed: number;
+	// Share of all runs, failed ones included, that returned a schema-valid analysis
+	schemaValidRate: number;
+	competitors: EvalNameSummary;
+	products: EvalNameSummary;
+	costUSD: number;
+	totalTokens: number;
+}
+
+/**
+ * Evaluation report
+ */
+export interface EvalReport {
+	createdAt: string;
+	// live, replay or record (see runEval.ts)
+	mode: string;
+	provider: string;
+	goldenSet: string;
+	summaries: EvalCombinationSummary[];
+	runs: EvalRun[];
+}
+
+/**
+ * Mean of a list, 0 when empty
+ */
+function mean(values: number[]): number {
+	return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Mean scores of one kind of names
+ */
+function summarizeNames(
+	scores: AnalysisScore[],
+	kind: 'competitors' | 'products'
+): EvalNameSummary {
+	return {
+		precision: mean(scores.map((score) => score[kind].precision)),
+		recall: mean(scores.map((score) => score[kind].recall)),
+		f1: mean(scores.map((score) => score[kind].f1))
+	};
+}
+
+/**
+ * Label of a combination, used as its group key and table row
+ */
+export function formatCombination({ model, promptVersion, strategy }: EvalCombination): string {
+	return `${model} / ${promptVersion ?? 'default'} / ${strategy}`;
+}
+
+/**
+ * Group runs by combination and summarize each group
+ *
+ * @param runs Runs in the order they were made
+ * @returns One summary per combination, in the order of their first run
+ */
+export function summarizeEvalRuns(runs: EvalRun[]): EvalCombinationSummary[] {
+	const groups = new Map<string, EvalRun[]>();
+	for (const run of runs) {
+		const key = formatCombination(run);
+		groups.set(key, [...(groups.get(key) ?? []), run]);
+	}
+
+	return [...groups.values()].map((group) => {
+		const { model, promptVersion, strategy } = group[0];
+		const scores = group.flatMap((run) => (run.score ? [run.score] : []));
+
+		return {
+			model,
+			promptVersion,
+			strategy,
+			runs: group.length,
+			failed: group.filter((run) => run.status === 'failed').length,
+			schemaValidRate: scores.filter((score) => score.schemaValid).length / group.length,
+			competitors: summarizeNames(scores, 'competitors'),
+			products: summarizeNames(scores, 'products'),
+			costUSD: group.reduce((sum, run) => sum + run.costUSD, 0),
+			totalTokens: group.reduce((sum, run) => sum + run.totalTokens, 0)
+		};
+	});
+}
+
+/**
+ * Format a ratio as a percentage
+ */
+function percent(value: number): string {
+	return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Render the report as Markdown
+ *
+ * @param report Evaluation report
+ * @returns Summary table, then the misses and failures of each run
+ */
+export function formatEvalMarkdown(report: EvalReport): string {
+	const lines = [
+		'# Analysis evaluation',
+		'',
+		`- Created: ${report.createdAt}`,
+		`- Mode: ${report.mode} (provider: ${report.provider})`,
+		`- Golden set: ${report.goldenSet}`,
+		'',
+		'## Summary',
+		'',
+		'| Model / prompt / strategy | Runs | Failed | Schema valid | Competitor P | Competitor R | Competitor F1 | Product P | Product R | Product F1 | Cost (USD) | Tokens |',
+		'| --- | --: | --: | --: | --: | --: | --: | --: | --: | --: | --: | --: |',
+		...report.summaries.map(
+			(summary) =>
+				`| ${[
+					formatCombination(summary),
+					summary.runs,
+					summary.failed,
+					percent(summary.schemaValidRate),
+					percent(summary.competitors.precision),
+					percent(summary.competitors.recall),
+					percent(summary.competitors.f1),
+					percent(summary.products.precision),
+					percent(summary.products.recall),
+					percent(summary.products.f1),
+					summary.costUSD.toFixed(4),
+					summary.totalTokens
+				].join(' | ')} |`
+		),
+		'',
+		'## Runs',
+		''
+	];
+
+	for (const run of report.runs) {
+		lines.push(`### ${run.company} (${formatCombination(run)})`, '');
+		if (!run.score) {
+			lines.push(`Failed: ${run.error ?? 'unknown error'}`, '');
+			continue;
+		}
+
+		const { competitors, products, schemaValid, schemaErrors } = run.score;
+		lines.push(
+			`- Competitors: ${percent(competitors.precision)} precision, ${percent(competitors.recall)} recall`,
+			`  - Missing: ${competitors.missing.join(', ') || 'none'}`,
+			`  - Unexpected: ${competitors.unexpected.join(', ') || 'none'}`,
+			`- Products: ${percent(products.precision)} precision, ${percent(products.recall)} recall`,
+			`  - Missing: ${products.missing.join(', ') || 'none'}`,
+			`  - Unexpected: ${products.unexpected.join(', ') || 'none'}`,
+			`- Schema: ${schemaValid ? 'valid' : `${schemaErrors.length} errors (${schemaErrors.slice(0, 3).join('; ')})`}`,
+			`- Cost: $${run.costUSD.toFixed(4)} (${run.totalTokens} tokens, ${run.durationMs} ms)`,
+			''
+		);
+	}
+
+	return lines.join('\n');
+}
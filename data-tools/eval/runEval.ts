@@ -0,0 +1,289 @@
+#!/usr/bin/env node
+
+/**
+ * Analysis Evaluation CLI Tool
+ *
+ * Runs every company of the golden set through processCompanyAnalysis for each
+ * combination of model, prompt version and strategy, scores the analyses
+ * against the expected competitors and products, checks them against the
+ * AnalysisData schema and totals their cost. Writes a comparison report as
+ * JSON and Markdown.
+ *
+ * Usage:
+ *   bun run eval [options]
+ *   bun data-tools/eval/runEval.ts [options]
+ *
+ * Options:
+ *   --models=a,b       Models to compare (default: LLM_MODEL or chatgpt-4o-latest)
+ *   --prompts=v1,v2    Prompt versions to compare (default: each template's default version)
+ *   --strategy=X,Y     'single' and/or 'multi' (default: single)
+ *   --companies=A,B    Only evaluate these golden set companies
+ *   --golden=path      Golden set file (default: data-tools/eval/goldenSet.json)
+ *   --offline          Replay recorded responses instead of calling a provider
+ *   --record           Call OpenAI and record the responses for --offline
+ *   --fixtures=dir     Recorded responses (default: data-tools/eval/fixtures)
+ *   --provider=X       Provider for live runs (default: LLM_PROVIDER env var)
+ *   --out=dir          Report directory (default: .cache/eval)
+ *   --debug            Enable detailed debug logging
+ *
+ * Offline runs use the mock provider in replay mode, so a combination can only
+ * be replayed after it was recorded with the same model, prompt version and
+ * strategy. No recordings are committed: run with --record (which needs an
+ * OpenAI API key) before the first --offline run. --offline stops at once when
+ * the fixtures directory has no recordings; runs without a recording fail and
+ * are reported as such.
+ *
+ * Exits with status 1 when the evaluation cannot start or any run failed, so
+ * incomplete comparisons fail in CI.
+ *
+ * Examples:
+ *   bun run eval --models=gpt-4o,gpt-4o-mini --record      # Record two models
+ *   bun run eval --models=gpt-4o,gpt-4o-mini --offline     # Compare them again without network access
+ *   bun run eval --prompts=v1,v2 --strategy=single,multi   # Compare prompt versions and strategies live
+ *
+ * @link data-tools/eval/scoring.ts - Precision, recall and schema validity
+ * @link data-tools/eval/report.ts - Report grouping and Markdown output
+ * @link data-tools/providers/mock.ts - Replay and record modes
+ * @link data-tools/companyAnalysis.ts - Single-company CLI
+ */
+
+import { processCompanyAnalysis } from '../openai.js';
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { AnalysisData } from '../../src/lib/schemas/research';
+import { scoreAnalysis, type GoldenSet } from './scoring.js';
+import {
+	formatCombination,
+	formatEvalMarkdown,
+	summarizeEvalRuns,
+	type EvalCombination,
+	type EvalReport,
+	type EvalRun
+} from './report.js';
+
+// Load environment variables from .env file
+dotenv.config();
+
+const defaultGoldenSet = 'data-tools/eval/goldenSet.json';
+const defaultFixturesDir = 'data-tools/eval/fixtures';
+const defaultOutDir = '.cache/eval';
+
+/**
+ * Evaluation settings from the command line
+ */
+export interface EvalOptions {
+	models: string[];
+	promptVersions: (string | null)[];
+	strategies: EvalCombination['strategy'][];
+	companies: string[] | null;
+	goldenSet: string;
+	mode: 'live' | 'replay' | 'record';
+	provider: string;
+	fixturesDir: string;
+	outDir: string;
+	debug: boolean;
+}
+
+/**
+ * Parse the command line arguments
+ *
+ * @param args Arguments after the script name
+ * @returns Evaluation settings with defaults applied
+ * @throws Error for an unknown strategy or both --offline and --record
+ */
+export function parseEvalArgs(args: string[]): EvalOptions {
+	const value = (name: string) =>
+		args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+	const list = (name: string) =>
+		value(name)
+			?.split(',')
+			.map((item) => item.trim())
+			.filter(Boolean);
+
+	const offline = args.includes('--offline');
+	const record = args.includes('--record');
+	if (offline && record) {
+		throw new Error('Use either --offline or --record');
+	}
+
+	const strategies = list('strategy') ?? ['single'];
+	for (const strategy of strategies) {
+		if (strategy !== 'single' && strategy !== 'multi') {
+			throw new Error(`Unknown strategy "${strategy}" (expected single or multi)`);
+		}
+	}
+
+	const mode = offline ? 'replay' : record ? 'record' : 'live';
+
+	return {
+		models: list('models') ?? [process.env.LLM_MODEL || 'chatgpt-4o-latest'],
+		promptVersions: list('prompts') ?? [null],
+		strategies: strategies as EvalCombination['strategy'][],
+		companies: list('companies') ?? null,
+		goldenSet: value('golden') || defaultGoldenSet,
+		mode,
+		provider: mode === 'live' ? value('provider') || process.env.LLM_PROVIDER || 'direct' : 'mock',
+		fixturesDir: value('fixtures') || defaultFixturesDir,
+		outDir: value('out') || defaultOutDir,
+		debug: args.includes('--debug')
+	};
+}
+
+/**
+ * Analyze and score one company with one combination
+ *
+ * Failures, including budget rejections and missing recordings, are returned
+ * as failed runs so the remaining runs still happen.
+ */
+async function runEvalCase(
+	golden: GoldenSet['companies'][number],
+	combination: EvalCombination,
+	options: EvalOptions
+): Promise<EvalRun> {
+	const startedAt = Date.now();
+	const run = { ...combination, company: golden.company };
+
+	try {
+		// Score the analysis as the model returned it; repairs would hide schema errors
+		const analysis = await processCompanyAnalysis(golden.company, {
+			model: combination.model,
+			provider: options.provider,
+			strategy: combination.strategy,
+			promptVersion: combination.promptVersion ?? undefined,
+			sourceType: 'rawOpenAI',
+			cache: 'bypass',
+			route: 'eval',
+			debug: options.debug
+		});
+
+		return {
+			...run,
+			status: 'ok',
+			score: scoreAnalysis(analysis as AnalysisData, golden),
+			costUSD: analysis._meta?.cost?.costUSD ?? 0,
+			totalTokens: analysis._meta?.cost?.totalTokens ?? 0,
+			durationMs: Date.now() - startedAt,
+			promptTemplates: analysis._meta?.prompt?.templates
+		};
+	} catch (error) {
+		return {
+			...run,
+			status: 'failed',
+			error: error instanceof Error ? error.message : String(error),
+			costUSD: 0,
+			totalTokens: 0,
+			durationMs: Date.now() - startedAt
+		};
+	}
+}
+
+/**
+ * Check whether a fixtures directory holds any recorded response
+ */
+async function hasRecordings(fixturesDir: string): Promise<boolean> {
+	try {
+		return (await readdir(fixturesDir)).some((file) => file.endsWith('.json'));
+	} catch (error) {
+		if ((error as { code?: string }).code === 'ENOENT') return false;
+		throw error;
+	}
+}
+
+/**
+ * Run the evaluation and write the report
+ *
+ * Runs are sequential so rate limits and spend stay predictable.
+ *
+ * @param options Evaluation settings
+ * @returns The report and the paths of its JSON and Markdown files
+ * @throws Error when no golden set company matches, or --offline finds no recordings
+ */
+export async function runEval(
+	options: EvalOptions
+): Promise<{ report: EvalReport; jsonPath: string; markdownPath: string }> {
+	const goldenSet = JSON.parse(await readFile(options.goldenSet, 'utf8')) as GoldenSet;
+	const companies = options.companies
+		? goldenSet.companies.filter((golden) => options.companies?.includes(golden.company))
+		: goldenSet.companies;
+	if (companies.length === 0) {
+		throw new Error(`No golden set companies to evaluate in ${options.goldenSet}`);
+	}
+
+	if (options.mode === 'replay' && !(await hasRecordings(options.fixturesDir))) {
+		throw new Error(
+			`No recorded responses in ${options.fixturesDir}. Run with --record first (needs OPENAI_API_KEY), then --offline with the same models, prompts and strategies.`
+		);
+	}
+
+	// The mock provider reads its mode and fixture directory from the environment
+	if (options.mode !== 'live') {
+		process.env.MOCK_LLM_MODE = options.mode;
+		process.env.MOCK_LLM_FIXTURES_DIR = options.fixturesDir;
+	}
+
+	const runs: EvalRun[] = [];
+	for (const model of options.models) {
+		for (const promptVersion of options.promptVersions) {
+			for (const strategy of options.strategies) {
+				const combination = { model, promptVersion, strategy };
+				for (const golden of companies) {
+					console.log(`Evaluating ${golden.company} (${formatCombination(combination)})...`);
+					const run = await runEvalCase(golden, combination, options);
+					console.log(
+						run.score
+							? `  competitors F1 ${run.score.competitors.f1.toFixed(2)}, products F1 ${run.score.products.f1.toFixed(2)}, $${run.costUSD.toFixed(4)}`
+							: `  failed: ${run.error}`
+					);
+					runs.push(run);
+				}
+			}
+		}
+	}
+
+	const createdAt = new Date();
+	const report: EvalReport = {
+		createdAt: createdAt.toISOString(),
+		mode: options.mode,
+		provider: options.provider,
+		goldenSet: options.goldenSet,
+		summaries: summarizeEvalRuns(runs),
+		runs
+	};
+
+	const timestamp = createdAt.toISOString().replace(/[-:]/g, '').replace('T', '_').split('.')[0];
+	const jsonPath = join(options.outDir, `eval_${timestamp}.json`);
+	const markdownPath = join(options.outDir, `eval_${timestamp}.md`);
+	await mkdir(options.outDir, { recursive: true });
+	await writeFile(jsonPath, `${JSON.stringify(report, null, 2)}\n`);
+	await writeFile(markdownPath, formatEvalMarkdown(report));
+
+	return { report, jsonPath, markdownPath };
+}
+
+// Determine if this script is being run directly (works with both Node.js and Bun)
+const isMainModule = process.argv[1] === fileURLToPath(import.meta.url);
+
+if (isMainModule) {
+	Promise.resolve()
+		.then(() => runEval(parseEvalArgs(process.argv.slice(2))))
+		.then(({ report, jsonPath, markdownPath }) => {
+			for (const summary of report.summaries) {
+				console.log(
+					`${formatCombination(summary)}: competitors F1 ${summary.competitors.f1.toFixed(2)}, products F1 ${summary.products.f1.toFixed(2)}, schema valid ${(summary.schemaValidRate * 100).toFixed(0)}%, $${summary.costUSD.toFixed(4)}`
+				);
+			}
+			console.log(`Report written to: ${jsonPath} and ${markdownPath}`);
+
+			const failed = report.runs.filter((run) => run.status === 'failed').length;
+			if (failed > 0) {
+				console.error(`${failed} of ${report.runs.length} runs failed; see the report for errors`);
+				process.exit(1);
+			}
+		})
+		.catch((err) => {
+			console.error('Evaluation failed:', err);
+			process.exit(1);
+		});
+}
@@ -0,0 +1,101 @@
+import { describe, test, expect } from 'vitest';
+import type { AnalysisData } from '../../src/lib/schemas/research';
+import { getCompetitorNames, scoreAnalysis, scoreNames, type GoldenCompany } from './scoring';
+import { formatEvalMarkdown, summarizeEvalRuns, type EvalRun } from './report';
+
+const golden: GoldenCompany = {
+	company: 'Stripe',
+	competitors: ['Adyen', ['PayPal', 'Braintree'], ['Square', 'Block']],
+	products: ['Stripe Payments', 'Stripe Billing']
+};
+
+/**
+ * Analysis naming two products whose competitors overlap
+ */
+function createAnalysis(): AnalysisData {
+	return {
+		entity: {
+			id: null,
+			name_brand: 'Stripe',
+			products: [
+				{
+					id: null,
+					name_brand: 'Stripe Payments',
+					competitors: [
+						{ id: null, name_brand: 'Adyen N.V.' },
+						{ id: null, name_brand: 'Braintree', company: { id: null, name_brand: 'PayPal' } }
+					]
+				},
+				{
+					id: null,
+					name_brand: 'Stripe Atlas',
+					competitors: [
+						{ id: null, name_brand: 'Adyen' },
+						{ id: null, name_brand: 'Clerky' }
+					]
+				}
+			]
+		}
+	};
+}
+
+describe('scoreNames', () => {
+	test('matches normalized names and alternative names, counting each entity once', () => {
+		const score = scoreNames(getCompetitorNames(createAnalysis()), golden.competitors);
+
+		expect(score).toMatchObject({
+			matched: ['Adyen', 'PayPal'],
+			missing: ['Square'],
+			unexpected: ['Clerky']
+		});
+		expect(score.precision).toBeCloseTo(2 / 3);
+		expect(score.recall).toBeCloseTo(2 / 3);
+		expect(score.f1).toBeCloseTo(2 / 3);
+	});
+
+	test('scores an analysis without names as zero precision', () => {
+		expect(scoreNames([], golden.products)).toMatchObject({ precision: 0, recall: 0, f1: 0 });
+	});
+});
+
+describe('summarizeEvalRuns', () => {
+	test('averages successful runs per combination and counts failures', () => {
+		const score = scoreAnalysis(createAnalysis(), golden);
+		const run: EvalRun = {
+			model: 'gpt-4o',
+			promptVersion: 'v1',
+			strategy: 'single',
+			company: 'Stripe',
+			status: 'ok',
+			score,
+			costUSD: 0.02,
+			totalTokens: 3000,
+			durationMs: 1200
+		};
+		const runs: EvalRun[] = [
+			run,
+			{ ...run, status: 'failed', score: undefined, error: 'No fixture', costUSD: 0 },
+			{ ...run, model: 'gpt-4o-mini', costUSD: 0.001 }
+		];
+
+		const [gpt4o, mini] = summarizeEvalRuns(runs);
+
+		expect(score.products).toMatchObject({ precision: 0.5, recall: 0.5 });
+		expect(gpt4o).toMatchObject({ model: 'gpt-4o', runs: 2, failed: 1, costUSD: 0.02 });
+		expect(gpt4o.schemaValidRate).toBe(score.schemaValid ? 0.5 : 0);
+		expect(gpt4o.competitors.recall).toBeCloseTo(2 / 3);
+		expect(mini).toMatchObject({ model: 'gpt-4o-mini', runs: 1, failed: 0 });
+
+		const markdown = formatEvalMarkdown({
+			createdAt: '2026-03-15T12:00:00.000Z',
+			mode: 'replay',
+			provider: 'mock',
+			goldenSet: 'goldenSet.json',
+			summaries: [gpt4o, mini],
+			runs
+		});
+		expect(markdown).toContain('| gpt-4o / v1 / single | 2 | 1 |');
+		expect(markdown).toContain('Failed: No fixture');
+		expect(markdown).toContain('  - Missing: Square');
+	});
+});
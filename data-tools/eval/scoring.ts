@@ -0,0 +1,157 @@
+/**
+ * scoring.ts
+ * Scores analyses against the golden set
+ *
+ * Competitors and products named by an analysis are compared with the golden
+ * set after normalizeEntityName, so "Adyen N.V." matches "Adyen":
+ * - precision: share of the analysis' names that are in the golden set
+ * - recall: share of the golden set's entries the analysis names
+ * - f1: harmonic mean of the two
+ *
+ * A golden entry may list alternative names (["Square", "Block"]); naming any
+ * of them counts once. A competitor matches when its product or company name
+ * does, so "Microsoft Teams" by Microsoft matches ["Microsoft Teams", "Microsoft"].
+ *
+ * @link data-tools/eval/goldenSet.json - Expected competitors and products
+ * @link data-tools/eval/runEval.ts - Evaluation command
+ * @link src/lib/utils/entityName.ts - normalizeEntityName
+ */
+
+import type { AnalysisData } from '../../src/lib/schemas/research';
+import { normalizeEntityName } from '../../src/lib/utils/entityName';
+import { validate } from '../sharedUtils/dataProcessing';
+
+/**
+ * Expected name, or alternative names of one expected entity
+ */
+export type GoldenName = string | string[];
+
+/**
+ * Company of the golden set
+ */
+export interface GoldenCompany {
+	company: string;
+	competitors: GoldenName[];
+	products: GoldenName[];
+}
+
+/**
+ * Golden set file
+ */
+export interface GoldenSet {
+	description?: string;
+	companies: GoldenCompany[];
+}
+
+/**
+ * Precision and recall of the names of one kind
+ */
+export interface NameScore {
+	precision: number;
+	recall: number;
+	f1: number;
+	// Golden entries the analysis named, by their first name
+	matched: string[];
+	// Golden entries the analysis did not name
+	missing: string[];
+	// Names from the analysis that are not in the golden set
+	unexpected: string[];
+}
+
+/**
+ * Score of one analysis
+ */
+export interface AnalysisScore {
+	competitors: NameScore;
+	products: NameScore;
+	schemaValid: boolean;
+	schemaErrors: string[];
+}
+
+/**
+ * Compare names from an analysis with the golden entries
+ *
+ * @param predicted One list of names per entity in the analysis (e.g. product and company name)
+ * @param expected Golden entries
+ * @returns Precision, recall and the names on either side that did not match
+ */
+export function scoreNames(predicted: string[][], expected: GoldenName[]): NameScore {
+	const expectedNames = expected.map((entry) =>
+		(Array.isArray(entry) ? entry : [entry]).map(normalizeEntityName)
+	);
+
+	// The same entity is often named under several products; count it once
+	const seen = new Set<string>();
+	const entities = predicted.filter((names) => {
+		const key = normalizeEntityName(names[0] ?? '');
+		if (!key || seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+
+	const matchedEntries = new Set<number>();
+	const unexpected: string[] = [];
+	for (const names of entities) {
+		const normalized = names.map(normalizeEntityName);
+		const index = expectedNames.findIndex((aliases) =>
+			aliases.some((alias) => normalized.includes(alias))
+		);
+		if (index === -1) {
+			unexpected.push(names[0]);
+		} else {
+			matchedEntries.add(index);
+		}
+	}
+
+	const firstName = (entry: GoldenName) => (Array.isArray(entry) ? entry[0] : entry);
+	const precision =
+		entities.length > 0 ? (entities.length - unexpected.length) / entities.length : 0;
+	const recall = expected.length > 0 ? matchedEntries.size / expected.length : 1;
+
+	return {
+		precision,
+		recall,
+		f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+		matched: expected.filter((_, index) => matchedEntries.has(index)).map(firstName),
+		missing: expected.filter((_, index) => !matchedEntries.has(index)).map(firstName),
+		unexpected
+	};
+}
+
+/**
+ * Get the competitors of all products, each as [product name, company name]
+ */
+export function getCompetitorNames(analysis: AnalysisData): string[][] {
+	return (analysis.entity.products ?? []).flatMap((product) =>
+		(product.competitors ?? []).map((competitor) =>
+			[competitor.name_brand, competitor.company?.name_brand].filter(
+				(name): name is string => typeof name === 'string' && name.length > 0
+			)
+		)
+	);
+}
+
+/**
+ * Get the products of the analyzed company, each as [product name]
+ */
+export function getProductNames(analysis: AnalysisData): string[][] {
+	return (analysis.entity.products ?? []).map((product) => [product.name_brand]);
+}
+
+/**
+ * Score an analysis against its golden set entry
+ *
+ * @param analysis Analysis as returned by the model, before repair
+ * @param golden Golden set entry of the analyzed company
+ * @returns Name scores and the schema validity of the analysis
+ */
+export function scoreAnalysis(analysis: AnalysisData, golden: GoldenCompany): AnalysisScore {
+	const { isValid, errors = [] } = validate.analysisData(analysis);
+
+	return {
+		competitors: scoreNames(getCompetitorNames(analysis), golden.competitors),
+		products: scoreNames(getProductNames(analysis), golden.products),
+		schemaValid: isValid,
+		schemaErrors: errors
+	};
+}
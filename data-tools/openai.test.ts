@@ -0,0 +1,88 @@
+import { describe, test, expect, vi } from 'vitest';
+import { processCompanyAnalysis } from './openai';
+import { LLMBudgetError } from '../src/lib/utils/llmLedger';
+import { LLMProvidersUnavailableError } from '../src/lib/utils/llmResilience';
+
+// Fail the second product call and the company profile call; the rest use the mock provider.
+// Analyses of "Over Budget" and "Unreachable" fail with errors that must stop the analysis.
+vi.mock('../src/lib/utils/openaiApi', async (importOriginal) => {
+	const original = await importOriginal<typeof import('../src/lib/utils/openaiApi')>();
+	const ledger = await import('../src/lib/utils/llmLedger');
+	const resilience = await import('../src/lib/utils/llmResilience');
+	return {
+		...original,
+		callOpenAIWithSchema: (async (request) => {
+			const prompt = JSON.stringify(request.messages);
+			if (request.functionName === 'analyze_product' && prompt.includes('Over Budget')) {
+				throw new ledger.LLMBudgetError('daily_budget_exceeded', 5, 5, 0.1);
+			}
+			if (request.functionName === 'analyze_company_profile' && prompt.includes('Unreachable')) {
+				throw new resilience.LLMProvidersUnavailableError(['mock'], 30);
+			}
+			if (request.functionName === 'analyze_product' && prompt.includes('Secondary Product')) {
+				throw new Error('500 product call failed');
+			}
+			if (request.functionName === 'analyze_company_profile') {
+				throw new Error('500 profile call failed');
+			}
+			return original.callOpenAIWithSchema(request);
+		}) as typeof original.callOpenAIWithSchema
+	};
+});
+
+describe('multi-step analysis', () => {
+	test('keeps a fallback product and records failed steps when calls fail', async () => {
+		const analysis = await processCompanyAnalysis('Stripe', {
+			provider: 'mock',
+			cache: 'bypass',
+			strategy: 'multi',
+			sourceType: 'rawOpenAI'
+		});
+		const steps = analysis._meta?.steps ?? [];
+
+		expect(steps.map(({ step, status }) => [step, status])).toEqual([
+			['basic_info', 'completed'],
+			['product:Main Product', 'completed'],
+			['product:Secondary Product', 'failed'],
+			['company_profile', 'failed']
+		]);
+		expect(steps[2]).toMatchObject({
+			error: '500 product call failed',
+			cost: { totalTokens: 0, costUSD: 0 }
+		});
+		expect(steps[3].error).toBe('500 profile call failed');
+
+		// The failed product keeps the competitors from the basic info step
+		const [, fallback] = analysis.entity.products ?? [];
+		expect(fallback).toEqual({
+			id: null,
+			name_brand: 'Secondary Product',
+			details: [],
+			competitors: ['Competitor A', 'Competitor B', 'Competitor C'].map((name) => ({
+				id: null,
+				name_brand: name,
+				details: []
+			}))
+		});
+		expect(analysis.entity.details).toEqual([]);
+		expect(analysis._meta?.cost?.totalTokens).toBe(
+			steps.reduce((total, step) => total + step.cost.totalTokens, 0)
+		);
+	});
+
+	test('stops when a product or profile call runs out of budget or providers', async () => {
+		const options = {
+			provider: 'mock',
+			cache: 'bypass',
+			strategy: 'multi',
+			sourceType: 'rawOpenAI'
+		} as const;
+
+		await expect(processCompanyAnalysis('Over Budget', options)).rejects.toBeInstanceOf(
+			LLMBudgetError
+		);
+		await expect(processCompanyAnalysis('Unreachable', options)).rejects.toBeInstanceOf(
+			LLMProvidersUnavailableError
+		);
+	});
+});
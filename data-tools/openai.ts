@@ -27,22 +27,69 @@ import {
   enhanceMessageWithSchema,
   extractJSONFromLLMResponse,
   providers,
+  type LLMCacheInfo,
+  type LLMCacheMode,
+  type LLMProviderInfo
 } from '../src/lib/utils/openaiApi';
 
 import type { ChatCompletionMessageParam } from 'openai';
+import type { ApiCost } from '../src/lib/types/openaiApi';
+
+// Budget rejections stop the analysis instead of continuing with defaults
+import { LLMBudgetError } from '../src/lib/utils/llmLedger';
+import { LLMProvidersUnavailableError } from '../src/lib/utils/llmResilience';
+
+// Progress events for the streaming endpoint
+import type { AnalysisProgressEvent } from '../src/lib/utils/analysisStream';
 
 // Import Zod-derived types from the central schema
-import type { AnalysisData } from '../src/lib/schemas/research';
+import type {
+  AnalysisConsensusMeta,
+  AnalysisContextMeta,
+  AnalysisData,
+  AnalysisPromptContext,
+  AnalysisPromptMeta,
+  AnalysisStepMeta,
+  ProductEntity
+} from '../src/lib/schemas/research';
 
 // Import consolidated data processing utilities
-import { repairAnalysisData, validate } from './sharedUtils/dataProcessing';
+import { repairAnalysisData } from './sharedUtils/dataProcessing';
+
+// Import the validation engine with the analysis rules and repairs
+import { analysisValidation, type ValidationError, type ValidationReport } from './validation';
 
 // Import schema conversion utilities that use the central schema definition
 import {
   createSimplifiedAnalysisFunction,
-  createBasicCompanyInfoFunction
+  createBasicCompanyInfoFunction,
+  createProductAnalysisFunction,
+  createCompanyProfileFunction,
+  companyAnalysisSchema,
+  basicCompanyInfoSchema,
+  productAnalysisSchema,
+  companyProfileSchema,
+  type BasicCompanyInfo,
+  type CompanyProfile,
+  type ProductAnalysis
 } from './sharedUtils/schemaToJson';
 
+// Versioned prompt templates (data-tools/prompts/templates)
+import { analysisPromptNames, renderPrompt, resolvePromptVersion } from './prompts/promptRegistry';
+
+// Bounded fan-out for the per-product calls of the multi-step analysis
+import { mapWithConcurrency } from './sharedUtils/concurrency';
+
+// Merging of the per-model analyses of the consensus strategy
+import {
+  getConsensusModels,
+  mergeConsensusAnalyses,
+  minConsensusModels
+} from './sharedUtils/consensus';
+
+// Default number of concurrent product calls (LLM_MULTI_STEP_CONCURRENCY)
+const defaultMultiStepConcurrency = 3;
+
 /**
  * Configuration options for company analysis
  */
@@ -53,7 +100,16 @@ interface CompanyAnalysisOptions {
   debug?: boolean;
   skipValidation?: boolean;
   sourceType?: string; // Processing level: rawOpenAI, validatedOpenAI, repairedOpenAI, transformedOpenAI
-  strategy?: 'single' | 'multi'; // The analysis strategy to use: single-step or multi-step
+  strategy?: 'single' | 'multi' | 'consensus'; // The analysis strategy to use: single-step, multi-step or multi-model
+  models?: string[]; // Models of the consensus strategy; defaults to LLM_CONSENSUS_MODELS
+  cache?: LLMCacheMode; // Response cache mode: default, bypass or refresh
+  signal?: AbortSignal; // Cancels in-flight LLM requests (client disconnected)
+  onProgress?: (event: AnalysisProgressEvent) => void; // Called when each step starts and ends
+  onDelta?: (step: string, chunk: string) => void; // Streamed response text of the current step
+  concurrency?: number; // Maximum concurrent product calls (multi-step) or model calls (consensus)
+  context?: AnalysisPromptContext | null; // Database context added to every prompt (analysisContext.ts)
+  route?: string; // API route recorded with each call in the spend ledger (llmLedger.ts)
+  promptVersion?: string; // Prompt template version (promptRegistry.ts); defaults per template
 }
 
 /**
@@ -61,8 +117,15 @@ interface CompanyAnalysisOptions {
  */
 export interface ExtendedMetadata {
   cost?: { totalTokens: number; costUSD: number };
+  cache?: LLMCacheInfo;
+  provider?: LLMProviderInfo;
+  steps?: AnalysisStepMeta[];
+  consensus?: AnalysisConsensusMeta;
+  context?: AnalysisContextMeta;
+  prompt?: AnalysisPromptMeta;
   validation?: string;
   validationErrors?: string[];
+  validationReport?: ValidationReport;
 }
 
 /**
@@ -73,13 +136,22 @@ interface ValidatedAnalysisData extends Omit<AnalysisData, '_meta'> {
 }
 
 /**
- * Basic company information response interface
+ * Product with competitors, as stored in AnalysisData.entity.products
  */
-interface BasicCompanyInfo {
-  company_name: string;
-  main_products: string[];
-  main_competitors: string[];
-  [key: string]: unknown;
+type AnalyzedProduct = ProductEntity & { competitors?: ProductEntity[] };
+
+/**
+ * Whether a failed step must stop the analysis rather than continue with defaults
+ *
+ * A cancelled or over-budget analysis, or one without a reachable provider,
+ * would fail every remaining step the same way.
+ */
+function mustStopAnalysis(error: unknown, signal?: AbortSignal): boolean {
+  return (
+    signal?.aborted === true ||
+    error instanceof LLMBudgetError ||
+    error instanceof LLMProvidersUnavailableError
+  );
 }
 
 /**
@@ -88,9 +160,10 @@ interface BasicCompanyInfo {
  * This function handles the complete process of generating company analysis data,
  * including prompt creation, API calls, validation, and data repair.
  *
- * Supports two strategies:
+ * Supports three strategies:
  * 1. 'single' - Simple direct analysis (default)
  * 2. 'multi' - Multi-step approach that gets basic info first, then builds analysis
+ * 3. 'consensus' - Single-step analysis by several models, merged with agreement counts
  *
  * Also supports different processing levels via sourceType:
  *   - rawOpenAI: Unprocessed OpenAI response
@@ -105,7 +178,11 @@ interface BasicCompanyInfo {
  *   - skipValidation: Whether to skip validation steps
  *   - debug: Enable debug logging
  *   - sourceType: Processing level requested
- *   - strategy: 'single' or 'multi' step approach
+ *   - strategy: 'single' or 'multi' step approach, or 'consensus' of several models
+ *   - models: Models of the consensus strategy (default LLM_CONSENSUS_MODELS)
+ *   - signal, onProgress, onDelta: Cancellation and streaming callbacks
+ *   - context: Database context for the prompts; its sources are reported in _meta.context
+ *   - promptVersion: Prompt template version; the versions used are reported in _meta.prompt
  * @returns Analysis data for the company
  */
 export async function processCompanyAnalysis(
@@ -123,6 +200,11 @@ export async function processCompanyAnalysis(
       debug
     );
 
+    // Each model's analysis goes through the requested sourceType before merging
+    if (strategy === 'consensus') {
+      return await processConsensusAnalysis(companyName, options);
+    }
+
     // Different strategies for analysis
     let analysisData: AnalysisData;
 
@@ -140,29 +222,38 @@ export async function processCompanyAnalysis(
 
       case 'validatedOpenAI': {
         // For validated data, run validation but don't repair
-        const validationResult = validate.analysisData(analysisData);
+        const validationResult = analysisValidation.validate(analysisData);
         return {
           ...analysisData,
           _meta: {
             ...analysisData._meta,
             validation: validationResult.isValid ? 'passed' : 'failed',
-            validationErrors: validationResult.isValid ? [] : validationResult.errors
+            validationErrors: formatValidationErrors(validationResult.errors),
+            validationReport: {
+              isValid: validationResult.isValid,
+              errors: validationResult.errors,
+              repairs: [],
+              appliedStrategies: [],
+              remainingErrors: validationResult.errors
+            }
           }
         };
       }
 
       case 'repairedOpenAI': {
-        // For repaired data, validate and repair explicitly
-        const validationResult = validate.analysisData(analysisData);
+        // For repaired data, validate and repair explicitly, logging every change
+        const { repaired, report } = analysisValidation.repair(analysisData);
+        if (report.repairs.length > 0) {
+          debugLog(`Repaired ${report.repairs.length} fields:`, report.repairs, debug);
+        }
+
         const metadata: ExtendedMetadata = {
           ...analysisData._meta,
-          validation: validationResult.isValid ? 'valid_at_source' : 'repaired'
+          validation: report.repairs.length === 0 ? 'valid_at_source' : 'repaired',
+          validationErrors: formatValidationErrors(report.remainingErrors),
+          validationReport: report
         };
-
-        // Update metadata in the repaired data
-        return validationResult.isValid
-          ? { ...analysisData, _meta: metadata }
-          : { ...repairAnalysisData(analysisData, debug), _meta: metadata };
+        return { ...repaired, _meta: metadata };
       }
 
       case 'transformedOpenAI':
@@ -209,6 +300,36 @@ function finalizeAnalysisData(
   return analysisData as ValidatedAnalysisData;
 }
 
+/**
+ * Internal helper: Format validation errors as path: message strings
+ *
+ * @param errors Errors from the validation engine
+ * @returns One string per error, warnings marked
+ * @private
+ */
+function formatValidationErrors(errors: ValidationError[]): string[] {
+  return errors.map(
+    (error) =>
+      `${error.path || '(root)'}: ${error.message}${error.severity === 'warning' ? ' (warning)' : ''}`
+  );
+}
+
+/**
+ * Internal helper: Add the database context after the system prompt
+ *
+ * @param messages Prompt messages, starting with the system message
+ * @param context Context built from the resolved res_entity, if any
+ * @returns Messages with the context as a second system message
+ * @private
+ */
+function withAnalysisContext(
+  messages: ChatCompletionMessageParam[],
+  context?: AnalysisPromptContext | null
+): ChatCompletionMessageParam[] {
+  if (!context) return messages;
+  return [messages[0], { role: 'system', content: context.prompt }, ...messages.slice(1)];
+}
+
 /**
  * Internal helper: Process company analysis using single-step approach
  *
@@ -223,40 +344,23 @@ async function processSingleStepAnalysis(
 ): Promise<AnalysisData> {
   const debug = options.debug || false;
 
-  // Define system and user messages directly
-  const messages: ChatCompletionMessageParam[] = [
-    {
-      role: 'system',
-      content: `You are an expert financial analyst with deep knowledge about companies, markets, and competitive landscapes.
-Your task is to provide structured financial and competitive analysis of ${companyName}.
-Focus on accurate market positioning, competitors, and key metrics.
-Structure your response exactly according to the provided JSON schema.`
-    },
-    {
-      role: 'user',
-      content: `Perform a comprehensive competitive analysis of ${companyName}.
-
-Please analyze the company's market position, key products, and main competitors.
-
-For each product, identify:
-1. The product's name and main features
-2. Its market positioning and target audience
-3. Key competitive advantages and weaknesses
-4. The main competitor products and companies
-
-Return this information structured as a complete JSON object following the schema provided in the function.`
-    }
-  ];
+  // Render the system and user messages from the prompt registry
+  const prompt = await renderPrompt('company_analysis', { companyName }, options.promptVersion);
 
   // Get the analysis function from schemaToJson
   const analysisFunction = createSimplifiedAnalysisFunction();
+  const step = analysisFunction.name;
 
   try {
+    options.onProgress?.({ step, status: 'started', index: 1, total: 1 });
+
     // Use the centralized schema-based API call utility
-    const { data: parsedData, cost } = await callOpenAIWithSchema<AnalysisData>({
-      messages,
+    const { data: parsedData, cost, provider, cache } = await callOpenAIWithSchema<AnalysisData>({
+      messages: withAnalysisContext(prompt.messages, options.context),
       schema: analysisFunction.parameters,
       functionName: analysisFunction.name,
+      responseSchema: companyAnalysisSchema,
+      strict: analysisFunction.strict,
       options: {
         model: options.model || process.env.LLM_MODEL || 'chatgpt-4o-latest',
         provider: options.provider || process.env.LLM_PROVIDER || 'direct',
@@ -264,7 +368,10 @@ Return this information structured as a complete JSON object following the schem
         temperature: 0.1,
         debug,
         skipValidation: options.skipValidation,
-        validateFn: validate.analysisData
+        cache: options.cache,
+        signal: options.signal,
+        onDelta: options.onDelta && ((chunk) => options.onDelta?.(step, chunk)),
+        caller: { route: options.route, company: companyName }
       }
     });
 
@@ -277,9 +384,21 @@ Return this information structured as a complete JSON object following the schem
       totalTokens: cost.totalTokens,
       costUSD: cost.costUSD
     };
+    parsedData._meta.cache = cache;
+    parsedData._meta.provider = provider;
+    if (options.context) {
+      parsedData._meta.context = options.context.meta;
+    }
+    parsedData._meta.prompt = {
+      requested: options.promptVersion ?? null,
+      templates: { [prompt.name]: prompt.version }
+    };
+
+    options.onProgress?.({ step, status: 'completed', index: 1, total: 1, cost });
 
     return parsedData;
   } catch (error) {
+    options.onProgress?.({ step, status: 'failed', index: 1, total: 1 });
     debugLog(`Error in processSingleStepAnalysis for ${companyName}:`, error, true);
     throw error;
   }
@@ -288,9 +407,17 @@ Return this information structured as a complete JSON object following the schem
 /**
  * Internal helper: Process company analysis using multi-step approach
  *
- * This more advanced function breaks down the analysis process into multiple steps:
- * 1. Get basic company info
- * 2. Use that info to generate a complete analysis
+ * This more advanced function breaks down the analysis process into smaller
+ * schema-constrained calls:
+ * 1. basic_info - List the main products and competitors
+ * 2. product:<name> - One call per product for market share, positioning and
+ *    competitor details, with at most `concurrency` calls in flight
+ * 3. company_profile - Market size, employee and customer metrics
+ *
+ * A failed product or company call does not fail the analysis: the product is
+ * kept with the competitors from step 1, and the failure is recorded in
+ * _meta.steps. _meta.steps also holds the cost of every call; _meta.cost is
+ * their total.
  *
  * @param companyName Company name to analyze
  * @param options Configuration options
@@ -302,61 +429,409 @@ async function processMultiStepAnalysis(
   options: CompanyAnalysisOptions = {}
 ): Promise<AnalysisData> {
   const debug = options.debug || false;
+  const totalSteps = 3;
+  const steps: AnalysisStepMeta[] = [];
+  const concurrency =
+    options.concurrency ||
+    Number(process.env.LLM_MULTI_STEP_CONCURRENCY) ||
+    defaultMultiStepConcurrency;
 
   // Step 1: Get basic company information
+  options.onProgress?.({ step: 'basic_info', status: 'started', index: 1, total: totalSteps });
   const basicInfo = await getBasicCompanyInfo(companyName, {
     ...options,
     debug
   });
+  steps.push({
+    step: 'basic_info',
+    status: basicInfo.error ? 'failed' : 'completed',
+    cost: basicInfo.cost,
+    ...(basicInfo.cache && { cache: basicInfo.cache.status }),
+    ...(basicInfo.provider && { provider: basicInfo.provider.used }),
+    ...(basicInfo.error && { error: basicInfo.error })
+  });
+  options.onProgress?.({
+    step: 'basic_info',
+    status: basicInfo.error ? 'failed' : 'completed',
+    index: 1,
+    total: totalSteps,
+    message: `${basicInfo.main_products.length} products, ${basicInfo.main_competitors.length} competitors`,
+    cost: basicInfo.cost
+  });
 
-  // Initialize the analysis data structure with new schema format using snake_case
-  const analysisData: AnalysisData = {
+  // Step 2: Analyze each product
+  const productResults = await mapWithConcurrency(
+    basicInfo.main_products,
+    concurrency,
+    async (productName) => {
+      const step = `product:${productName}`;
+      options.onProgress?.({ step, status: 'started', index: 2, total: totalSteps });
+      try {
+        const result = await analyzeProduct(companyName, productName, basicInfo.main_competitors, {
+          ...options,
+          debug
+        });
+        options.onProgress?.({
+          step,
+          status: 'completed',
+          index: 2,
+          total: totalSteps,
+          message: `${result.product.competitors?.length ?? 0} competitors`,
+          cost: result.cost
+        });
+        return result;
+      } catch (error) {
+        options.onProgress?.({ step, status: 'failed', index: 2, total: totalSteps });
+        throw error;
+      }
+    }
+  );
+
+  // Stop before the company call if the client went away, the budget ran out
+  // or no provider was reachable during the product calls
+  options.signal?.throwIfAborted();
+  for (const result of productResults) {
+    if (result.status === 'rejected' && mustStopAnalysis(result.reason)) throw result.reason;
+  }
+
+  const products = productResults.map((result, index) => {
+    const productName = basicInfo.main_products[index];
+    const step = `product:${productName}`;
+
+    if (result.status === 'fulfilled') {
+      steps.push({
+        step,
+        status: 'completed',
+        cost: result.value.cost,
+        cache: result.value.cache.status,
+        provider: result.value.provider.used
+      });
+      return result.value.product;
+    }
+
+    const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    debugLog(`Error analyzing product ${productName}: ${error}`, undefined, true);
+    steps.push({ step, status: 'failed', cost: { totalTokens: 0, costUSD: 0 }, error });
+    return {
+      id: null,
+      name_brand: productName,
+      details: [],
+      competitors: basicInfo.main_competitors.map((competitor) => ({
+        id: null,
+        name_brand: competitor,
+        details: []
+      }))
+    };
+  });
+
+  // Step 3: Company-level metrics
+  options.onProgress?.({ step: 'company_profile', status: 'started', index: 3, total: totalSteps });
+  let profile: CompanyProfile['entity'] | null = null;
+  try {
+    const result = await analyzeCompanyProfile(companyName, { ...options, debug });
+    profile = result.profile;
+    steps.push({
+      step: 'company_profile',
+      status: 'completed',
+      cost: result.cost,
+      cache: result.cache.status,
+      provider: result.provider.used
+    });
+    options.onProgress?.({
+      step: 'company_profile',
+      status: 'completed',
+      index: 3,
+      total: totalSteps,
+      message: `${profile.details?.length ?? 0} details`,
+      cost: result.cost
+    });
+  } catch (error) {
+    if (mustStopAnalysis(error, options.signal)) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    debugLog(`Error getting company profile for ${companyName}: ${message}`, undefined, true);
+    steps.push({
+      step: 'company_profile',
+      status: 'failed',
+      cost: { totalTokens: 0, costUSD: 0 },
+      error: message
+    });
+    options.onProgress?.({ step: 'company_profile', status: 'failed', index: 3, total: totalSteps });
+  }
+
+  // Versions of the templates the steps were rendered from
+  const promptVersions = Object.fromEntries(
+    await Promise.all(
+      analysisPromptNames.multi.map(
+        async (name) => [name, await resolvePromptVersion(name, options.promptVersion)] as const
+      )
+    )
+  );
+
+  return {
     entity: {
       id: null,
       name_brand: basicInfo.company_name,
-      products: [],
-      details: []
+      ...(profile?.name_legal && { name_legal: profile.name_legal }),
+      ...(profile?.date_year_established && {
+        date_year_established: profile.date_year_established
+      }),
+      ...(profile?.status_operating && { status_operating: profile.status_operating }),
+      details: profile?.details ?? [],
+      products
     },
     _meta: {
-      cost: {
-        totalTokens: basicInfo.cost.totalTokens,
-        costUSD: basicInfo.cost.costUSD
-      }
+      cost: steps.reduce(
+        (total, step) => ({
+          totalTokens: total.totalTokens + step.cost.totalTokens,
+          costUSD: total.costUSD + step.cost.costUSD
+        }),
+        { totalTokens: 0, costUSD: 0 }
+      ),
+      ...(basicInfo.cache && { cache: basicInfo.cache }),
+      ...(basicInfo.provider && { provider: basicInfo.provider }),
+      steps,
+      ...(options.context && { context: options.context.meta }),
+      prompt: { requested: options.promptVersion ?? null, templates: promptVersions }
     }
   };
+}
 
-  // Step 2: Add products to the analysis
-  if (analysisData.entity && basicInfo.main_products.length > 0) {
-    for (const productName of basicInfo.main_products) {
-      try {
-        debugLog(`Adding product: ${productName}`, undefined, debug);
-        if (analysisData.entity.products) {
-          analysisData.entity.products.push({
-            id: null,
-            name_brand: productName,
-            details: [
-              {
-                type_research_detail: 'market_share_estimate',
-                data_confidence: 'high',
-                source_type: 'analyst_estimate',
-                as_of_date: new Date().toISOString().split('T')[0],
-                text_value: `Product offered by ${companyName}`
-              }
-            ],
-            competitors: basicInfo.main_competitors.map((competitor) => ({
-              id: null,
-              name_brand: competitor,
-              details: []
-            }))
-          });
-        }
-      } catch (error) {
-        debugLog(`Error adding product ${productName}: ${error}`, undefined, true);
-      }
+/**
+ * Internal helper: Process company analysis by consensus of several models
+ *
+ * Runs the single-step analysis once per model (model:<name> steps, at most
+ * `concurrency` in flight), each through the requested sourceType, then merges
+ * the products and competitors with agreement counts (sharedUtils/consensus.ts).
+ * A failed model does not fail the analysis as long as one model succeeds;
+ * agreement is counted out of the models that succeeded. Response text is not
+ * streamed, since several models answer at once.
+ *
+ * @param companyName Company name to analyze
+ * @param options Configuration options
+ * @returns Merged analysis; _meta.cost is the total of all models
+ * @throws Error when fewer than two models are configured, or the error of the
+ *   first model when all of them fail
+ * @private
+ */
+async function processConsensusAnalysis(
+  companyName: string,
+  options: CompanyAnalysisOptions = {}
+): Promise<ValidatedAnalysisData> {
+  const models = options.models ?? getConsensusModels();
+  if (models.length < minConsensusModels) {
+    throw new Error(
+      `Consensus analysis needs at least ${minConsensusModels} models (LLM_CONSENSUS_MODELS), got ${models.length}`
+    );
+  }
+
+  const concurrency =
+    options.concurrency ||
+    Number(process.env.LLM_MULTI_STEP_CONCURRENCY) ||
+    defaultMultiStepConcurrency;
+  const modelOptions = {
+    ...options,
+    strategy: 'single' as const,
+    onProgress: undefined,
+    onDelta: undefined
+  };
+
+  const results = await mapWithConcurrency(models, concurrency, async (model) => {
+    const step = `model:${model}`;
+    options.onProgress?.({ step, status: 'started', index: 1, total: 1 });
+    try {
+      const data = await processCompanyAnalysis(companyName, { ...modelOptions, model });
+      options.onProgress?.({
+        step,
+        status: 'completed',
+        index: 1,
+        total: 1,
+        message: `${data.entity.products?.length ?? 0} products`,
+        cost: data._meta?.cost
+      });
+      return data;
+    } catch (error) {
+      options.onProgress?.({ step, status: 'failed', index: 1, total: 1 });
+      throw error;
     }
+  });
+
+  options.signal?.throwIfAborted();
+
+  const steps: AnalysisStepMeta[] = results.map((result, index) => {
+    const step = `model:${models[index]}`;
+    if (result.status === 'fulfilled') {
+      const { cost, cache, provider } = result.value._meta ?? {};
+      return {
+        step,
+        status: 'completed',
+        cost: cost ?? { totalTokens: 0, costUSD: 0 },
+        ...(cache && { cache: cache.status }),
+        ...(provider && { provider: provider.used })
+      };
+    }
+
+    const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    debugLog(`Error analyzing ${companyName} with ${models[index]}: ${error}`, undefined, true);
+    return { step, status: 'failed', cost: { totalTokens: 0, costUSD: 0 }, error };
+  });
+
+  const analyses = results.flatMap((result, index) =>
+    result.status === 'fulfilled'
+      ? [{ model: models[index], data: result.value as AnalysisData }]
+      : []
+  );
+  if (analyses.length === 0) {
+    // All models failed; surface the first error (e.g. a budget rejection) as is
+    throw (results[0] as PromiseRejectedResult).reason;
   }
 
-  return analysisData;
+  const first = analyses[0].data._meta as ExtendedMetadata | undefined;
+  return {
+    entity: mergeConsensusAnalyses(analyses),
+    _meta: {
+      cost: steps.reduce(
+        (total, step) => ({
+          totalTokens: total.totalTokens + step.cost.totalTokens,
+          costUSD: total.costUSD + step.cost.costUSD
+        }),
+        { totalTokens: 0, costUSD: 0 }
+      ),
+      steps,
+      consensus: { models, succeeded: analyses.map(({ model }) => model) },
+      ...(first?.context && { context: first.context }),
+      ...(first?.prompt && { prompt: first.prompt }),
+      ...(first?.validation && { validation: first.validation })
+    }
+  };
+}
+
+/**
+ * Analyzes one product: market share, positioning and competitors
+ *
+ * @param companyName Company offering the product
+ * @param productName Product to analyze
+ * @param knownCompetitors Company competitors from the basic info step
+ * @param options Configuration options
+ * @returns The product with details and competitors, and the call's cost, provider and cache status
+ * @throws Error if the call fails or returns no product
+ * @private
+ */
+async function analyzeProduct(
+  companyName: string,
+  productName: string,
+  knownCompetitors: string[],
+  options: CompanyAnalysisOptions = {}
+): Promise<{
+  product: AnalyzedProduct;
+  cost: ApiCost;
+  provider: LLMProviderInfo;
+  cache: LLMCacheInfo;
+}> {
+  const productFunction = createProductAnalysisFunction();
+  const step = `product:${productName}`;
+
+  const prompt = await renderPrompt(
+    'product_analysis',
+    {
+      companyName,
+      productName,
+      knownCompetitors: knownCompetitors.join(', ') || 'none listed'
+    },
+    options.promptVersion
+  );
+
+  const { data, cost, provider, cache } = await callOpenAIWithSchema<ProductAnalysis>({
+    messages: withAnalysisContext(prompt.messages, options.context),
+    schema: productFunction.parameters,
+    functionName: productFunction.name,
+    responseSchema: productAnalysisSchema,
+    strict: productFunction.strict,
+    options: {
+      model: options.model || process.env.LLM_MODEL || 'chatgpt-4o-latest',
+      provider: options.provider || process.env.LLM_PROVIDER || 'direct',
+      apiKey: options.apiKey,
+      temperature: 0.1,
+      debug: options.debug,
+      cache: options.cache,
+      signal: options.signal,
+      onDelta: options.onDelta && ((chunk) => options.onDelta?.(step, chunk)),
+      caller: { route: options.route, company: companyName }
+    }
+  });
+
+  if (!data?.product) {
+    throw new Error(`No product in response for ${productName}`);
+  }
+
+  return {
+    product: {
+      id: null,
+      name_brand: data.product.name_brand || productName,
+      ...(data.product.date_year_established && {
+        date_year_established: data.product.date_year_established
+      }),
+      details: data.product.details ?? [],
+      competitors: (data.product.competitors ?? []).map((competitor) => ({
+        id: null,
+        name_brand: competitor.name_brand,
+        details: competitor.details ?? [],
+        ...(competitor.company?.name_brand && {
+          company: { id: null, name_brand: competitor.company.name_brand }
+        })
+      }))
+    },
+    cost,
+    provider,
+    cache
+  };
+}
+
+/**
+ * Gets company-level metrics: market size, employees and customers
+ *
+ * @param companyName Company to analyze
+ * @param options Configuration options
+ * @returns Company profile fields and details, and the call's cost, provider and cache status
+ * @throws Error if the call fails or returns no entity
+ * @private
+ */
+async function analyzeCompanyProfile(
+  companyName: string,
+  options: CompanyAnalysisOptions = {}
+): Promise<{
+  profile: CompanyProfile['entity'];
+  cost: ApiCost;
+  provider: LLMProviderInfo;
+  cache: LLMCacheInfo;
+}> {
+  const profileFunction = createCompanyProfileFunction();
+
+  const prompt = await renderPrompt('company_profile', { companyName }, options.promptVersion);
+
+  const { data, cost, provider, cache } = await callOpenAIWithSchema<CompanyProfile>({
+    messages: withAnalysisContext(prompt.messages, options.context),
+    schema: profileFunction.parameters,
+    functionName: profileFunction.name,
+    responseSchema: companyProfileSchema,
+    strict: profileFunction.strict,
+    options: {
+      model: options.model || process.env.LLM_MODEL || 'chatgpt-4o-latest',
+      provider: options.provider || process.env.LLM_PROVIDER || 'direct',
+      apiKey: options.apiKey,
+      temperature: 0.1,
+      debug: options.debug,
+      cache: options.cache,
+      signal: options.signal,
+      onDelta: options.onDelta && ((chunk) => options.onDelta?.('company_profile', chunk)),
+      caller: { route: options.route, company: companyName }
+    }
+  });
+
+  if (!data?.entity) {
+    throw new Error(`No company profile in response for ${companyName}`);
+  }
+
+  return { profile: data.entity, cost, provider, cache };
 }
 
 /**
@@ -375,6 +850,10 @@ async function getBasicCompanyInfo(
   main_products: string[];
   main_competitors: string[];
   cost: { totalTokens: number; costUSD: number };
+  cache?: LLMCacheInfo;
+  provider?: LLMProviderInfo;
+  // Set when the call failed and defaults were returned
+  error?: string;
 }> {
   const debug = options.debug || process.env.DEBUG === 'true';
   debugLog(`Getting basic info for ${companyName}`, undefined, debug);
@@ -383,31 +862,26 @@ async function getBasicCompanyInfo(
   const infoFunction = createBasicCompanyInfoFunction();
 
   try {
-    // Create messages array with simplified prompt
-    const messages: ChatCompletionMessageParam[] = [
-      {
-        role: 'system',
-        content: `You are a business analyst who specializes in company research. 
-Provide basic information about ${companyName} including the company name, main products/services, and key competitors.
-Keep your response brief and structured according to the function schema.`
-      },
-      {
-        role: 'user',
-        content: `What are the main products/services of ${companyName} and who are their key competitors?`
-      }
-    ];
+    // Render the prompt from the prompt registry
+    const prompt = await renderPrompt('basic_company_info', { companyName }, options.promptVersion);
 
     // Use the centralized schema-based API call utility
-    const { data, cost } = await callOpenAIWithSchema<BasicCompanyInfo>({
-      messages,
+    const { data, cost, provider, cache } = await callOpenAIWithSchema<BasicCompanyInfo>({
+      messages: withAnalysisContext(prompt.messages, options.context),
       schema: infoFunction.parameters,
       functionName: infoFunction.name,
+      responseSchema: basicCompanyInfoSchema,
+      strict: infoFunction.strict,
       options: {
         model: options.model || process.env.LLM_MODEL || 'chatgpt-4o-latest',
         provider: options.provider || process.env.LLM_PROVIDER || 'direct',
         apiKey: options.apiKey,
         temperature: 0.1,
-        debug
+        debug,
+        cache: options.cache,
+        signal: options.signal,
+        onDelta: options.onDelta && ((chunk) => options.onDelta?.('basic_info', chunk)),
+        caller: { route: options.route, company: companyName }
       }
     });
 
@@ -415,16 +889,20 @@ Keep your response brief and structured according to the function schema.`
       company_name: data.company_name || companyName,
       main_products: Array.isArray(data.main_products) ? data.main_products : [],
       main_competitors: Array.isArray(data.main_competitors) ? data.main_competitors : [],
-      cost
+      cost,
+      provider,
+      cache
     };
   } catch (error) {
     debugLog(`Error getting basic company info for ${companyName}:`, error, true);
+    if (mustStopAnalysis(error, options.signal)) throw error;
     // Provide default values on error to allow analysis to continue
     return {
       company_name: companyName,
       main_products: [],
       main_competitors: [],
-      cost: { totalTokens: 0, costUSD: 0 }
+      cost: { totalTokens: 0, costUSD: 0 },
+      error: error instanceof Error ? error.message : String(error)
     };
   }
 }
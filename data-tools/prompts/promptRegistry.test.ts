@@ -0,0 +1,96 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	analysisPromptNames,
+	hasPromptVersion,
+	parsePromptTemplate,
+	interpolatePrompt,
+	renderPrompt,
+	resolvePromptVersion
+} from './promptRegistry';
+
+const template = `---
+description: Test prompt
+inputs: companyName, productName
+---
+
+## system
+
+You analyze {{companyName}}.
+
+## user
+
+Analyze {{ productName }} of {{companyName}}.
+`;
+
+describe('parsePromptTemplate', () => {
+	test('splits messages at their headings and interpolates the inputs', () => {
+		const parsed = parsePromptTemplate('product_analysis', 'v1', template);
+
+		expect(parsed).toMatchObject({
+			description: 'Test prompt',
+			inputs: ['companyName', 'productName']
+		});
+		expect(interpolatePrompt(parsed, { companyName: 'Stripe', productName: 'Billing' })).toEqual([
+			{ role: 'system', content: 'You analyze Stripe.' },
+			{ role: 'user', content: 'Analyze Billing of Stripe.' }
+		]);
+		expect(() => interpolatePrompt(parsed, { companyName: 'Stripe' })).toThrow(
+			'missing inputs: productName'
+		);
+	});
+
+	test('rejects placeholders that are not inputs', () => {
+		expect(() =>
+			parsePromptTemplate('company_profile', 'v1', template.replace('productName\n', '\n'))
+		).toThrow('uses {{productName}}, which is not an input');
+	});
+});
+
+describe('prompt versions', () => {
+	let dir: string | null = null;
+
+	afterEach(async () => {
+		delete process.env.LLM_PROMPTS_DIR;
+		delete process.env.LLM_PROMPT_VERSION;
+		if (dir) await rm(dir, { recursive: true, force: true });
+		dir = null;
+	});
+
+	test('uses the requested version if the template has it, else the latest', async () => {
+		dir = await mkdtemp(join(tmpdir(), 'prompts-'));
+		await mkdir(join(dir, 'company_profile'));
+		for (const version of ['v1', 'v2', 'v10']) {
+			await writeFile(join(dir, 'company_profile', `${version}.md`), template);
+		}
+		process.env.LLM_PROMPTS_DIR = dir;
+
+		expect(await resolvePromptVersion('company_profile')).toBe('v10');
+		expect(await resolvePromptVersion('company_profile', 'v2')).toBe('v2');
+		expect(await resolvePromptVersion('company_profile', 'v3')).toBe('v10');
+
+		process.env.LLM_PROMPT_VERSION = 'v1';
+		expect(await resolvePromptVersion('company_profile')).toBe('v1');
+
+		expect(await hasPromptVersion(analysisPromptNames.multi, 'v2')).toBe(true);
+		expect(await hasPromptVersion(analysisPromptNames.single, 'v2')).toBe(false);
+		expect(await hasPromptVersion(analysisPromptNames.multi, '../v2')).toBe(false);
+	});
+
+	test('renders the bundled templates', async () => {
+		const prompt = await renderPrompt(
+			'product_analysis',
+			{ companyName: 'Stripe', productName: 'Billing', knownCompetitors: 'Adyen' },
+			'v1'
+		);
+
+		expect(prompt.version).toBe('v1');
+		expect(prompt.messages.map((message) => message.role)).toEqual(['system', 'user']);
+		expect(prompt.messages[1].content).toContain(
+			'Analyze the market position of Billing, a product of Stripe.'
+		);
+		expect(JSON.stringify(prompt.messages)).not.toContain('{{');
+	});
+});
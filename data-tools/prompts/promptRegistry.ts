@@ -0,0 +1,282 @@
+/**
+ * promptRegistry.ts
+ * Versioned prompt templates for the analysis prompts
+ *
+ * Templates are Markdown files read at request time, so prompts can be changed
+ * and compared without a code deploy:
+ *
+ *   data-tools/prompts/templates/<name>/<version>.md
+ *
+ *   ---
+ *   description: What the prompt is for
+ *   inputs: companyName, productName
+ *   ---
+ *
+ *   ## system
+ *
+ *   You are an expert analyst of {{companyName}}.
+ *
+ *   ## user
+ *
+ *   Analyze {{productName}}.
+ *
+ * Each "## system", "## user" or "## assistant" heading starts a message.
+ * {{name}} placeholders are replaced with the inputs; every placeholder must
+ * be listed under inputs, and the inputs each template receives are typed by
+ * PromptInputs.
+ *
+ * Version selection (per template):
+ * 1. The version requested with promptVersion, if the template has it
+ * 2. LLM_PROMPT_VERSION, if the template has it
+ * 3. The latest version ("v10" sorts after "v9")
+ * Versions used are reported in _meta.prompt.
+ *
+ * Configuration: LLM_PROMPTS_DIR (default data-tools/prompts/templates) and
+ * LLM_PROMPT_VERSION.
+ *
+ * @link data-tools/openai.ts - Renders the analysis prompts
+ * @link src/routes/api/rest/v1/company/competitive-analysis/+server.ts - promptVersion parameter
+ */
+
+import type { ChatCompletionMessageParam } from 'openai';
+
+// Default template directory, relative to the working directory
+const defaultPromptsDir = 'data-tools/prompts/templates';
+
+// Names allowed for versions; also keeps requested versions inside the template directory
+const versionPattern = /^[\w.-]+$/;
+
+const placeholderPattern = /\{\{\s*(\w+)\s*\}\}/g;
+const messageHeadingPattern = /^## (system|user|assistant)\s*$/gm;
+
+/**
+ * Inputs of each template
+ */
+export interface PromptInputs {
+	company_analysis: { companyName: string };
+	basic_company_info: { companyName: string };
+	product_analysis: { companyName: string; productName: string; knownCompetitors: string };
+	company_profile: { companyName: string };
+}
+
+export type PromptName = keyof PromptInputs;
+
+/**
+ * Templates used by each analysis strategy
+ */
+export const analysisPromptNames: Record<'single' | 'multi', PromptName[]> = {
+	single: ['company_analysis'],
+	multi: ['basic_company_info', 'product_analysis', 'company_profile']
+};
+
+/**
+ * Parsed template file
+ */
+export interface PromptTemplate {
+	name: PromptName;
+	version: string;
+	description: string;
+	inputs: string[];
+	messages: { role: 'system' | 'user' | 'assistant'; content: string }[];
+}
+
+/**
+ * Messages rendered from a template, with the version used
+ */
+export interface RenderedPrompt {
+	name: PromptName;
+	version: string;
+	messages: ChatCompletionMessageParam[];
+}
+
+/**
+ * Get the template directory
+ */
+function getPromptsDir(): string {
+	return process.env.LLM_PROMPTS_DIR || defaultPromptsDir;
+}
+
+/**
+ * Check that a version name is safe to use as a file name
+ *
+ * @param version Version from a request parameter
+ */
+export function isValidPromptVersion(version: string): boolean {
+	return versionPattern.test(version);
+}
+
+/**
+ * Parse a template file
+ *
+ * @param name Template name
+ * @param version Version the file was found under
+ * @param source File content
+ * @returns Parsed template
+ * @throws Error when the front matter or messages are missing, or a placeholder is not an input
+ */
+export function parsePromptTemplate(
+	name: PromptName,
+	version: string,
+	source: string
+): PromptTemplate {
+	const frontMatter = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+	if (!frontMatter) {
+		throw new Error(`Prompt ${name}@${version} has no front matter`);
+	}
+
+	const fields = Object.fromEntries(
+		frontMatter[1].split(/\r?\n/).flatMap((line) => {
+			const separator = line.indexOf(':');
+			return separator > 0
+				? [[line.slice(0, separator).trim(), line.slice(separator + 1).trim()]]
+				: [];
+		})
+	);
+	const inputs = (fields.inputs ?? '')
+		.split(',')
+		.map((input: string) => input.trim())
+		.filter(Boolean);
+
+	// Split the body at the message headings
+	const body = source.slice(frontMatter[0].length);
+	const headings = [...body.matchAll(messageHeadingPattern)];
+	const messages = headings.map((heading, index) => ({
+		role: heading[1] as PromptTemplate['messages'][number]['role'],
+		content: body
+			.slice(heading.index + heading[0].length, headings[index + 1]?.index ?? body.length)
+			.trim()
+	}));
+	if (messages.length === 0) {
+		throw new Error(`Prompt ${name}@${version} has no "## system" or "## user" messages`);
+	}
+
+	for (const message of messages) {
+		for (const [, placeholder] of message.content.matchAll(placeholderPattern)) {
+			if (!inputs.includes(placeholder)) {
+				throw new Error(`Prompt ${name}@${version} uses {{${placeholder}}}, which is not an input`);
+			}
+		}
+	}
+
+	return { name, version, description: fields.description ?? '', inputs, messages };
+}
+
+/**
+ * Replace the placeholders of a template with its inputs
+ *
+ * @param template Parsed template
+ * @param inputs Values of the template's inputs
+ * @returns Chat messages
+ * @throws Error when an input of the template is missing
+ */
+export function interpolatePrompt(
+	template: PromptTemplate,
+	inputs: Record<string, string>
+): ChatCompletionMessageParam[] {
+	const missing = template.inputs.filter((input) => typeof inputs[input] !== 'string');
+	if (missing.length > 0) {
+		throw new Error(
+			`Prompt ${template.name}@${template.version} is missing inputs: ${missing.join(', ')}`
+		);
+	}
+
+	return template.messages.map(({ role, content }) => ({
+		role,
+		content: content.replace(placeholderPattern, (_match, input: string) => inputs[input])
+	}));
+}
+
+/**
+ * List the versions of a template, oldest first
+ *
+ * @param name Template name
+ * @returns Version names; empty when the template does not exist
+ */
+export async function listPromptVersions(name: PromptName): Promise<string[]> {
+	const { readdir } = await import('node:fs/promises');
+	const { join } = await import('node:path');
+
+	let files: string[];
+	try {
+		files = await readdir(join(getPromptsDir(), name));
+	} catch (error) {
+		if ((error as { code?: string }).code === 'ENOENT') return [];
+		throw error;
+	}
+
+	return files
+		.filter((file) => file.endsWith('.md'))
+		.map((file) => file.slice(0, -'.md'.length))
+		.filter(isValidPromptVersion)
+		.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Choose the version of a template to use
+ *
+ * @param name Template name
+ * @param requested Version requested with promptVersion, if any
+ * @returns The requested version if the template has it, else the default
+ * @throws Error when the template has no versions
+ */
+export async function resolvePromptVersion(name: PromptName, requested?: string): Promise<string> {
+	const versions = await listPromptVersions(name);
+	const configured = process.env.LLM_PROMPT_VERSION;
+	const version = [requested, configured].find(
+		(candidate) => candidate && versions.includes(candidate)
+	);
+
+	const latest = versions[versions.length - 1];
+	if (!version && !latest) {
+		throw new Error(`No versions of prompt ${name} in ${getPromptsDir()}`);
+	}
+	return version ?? latest;
+}
+
+/**
+ * Load a template
+ *
+ * @param name Template name
+ * @param version Version; see resolvePromptVersion for the default
+ * @returns Parsed template
+ */
+export async function loadPromptTemplate(
+	name: PromptName,
+	version?: string
+): Promise<PromptTemplate> {
+	const { readFile } = await import('node:fs/promises');
+	const { join } = await import('node:path');
+
+	const resolved = await resolvePromptVersion(name, version);
+	const source = await readFile(join(getPromptsDir(), name, `${resolved}.md`), 'utf8');
+	return parsePromptTemplate(name, resolved, source);
+}
+
+/**
+ * Render a template into chat messages
+ *
+ * @param name Template name
+ * @param inputs Values for the template's placeholders
+ * @param version Requested version; templates without it use their default
+ * @returns Messages and the version used
+ */
+export async function renderPrompt<N extends PromptName>(
+	name: N,
+	inputs: PromptInputs[N],
+	version?: string
+): Promise<RenderedPrompt> {
+	const template = await loadPromptTemplate(name, version);
+	return { name, version: template.version, messages: interpolatePrompt(template, inputs) };
+}
+
+/**
+ * Check whether any of the given templates has a version
+ *
+ * @param names Templates used by a request
+ * @param version Requested version
+ */
+export async function hasPromptVersion(names: PromptName[], version: string): Promise<boolean> {
+	if (!isValidPromptVersion(version)) return false;
+	const versions = await Promise.all(names.map(listPromptVersions));
+	return versions.some((list) => list.includes(version));
+}
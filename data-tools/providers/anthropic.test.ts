@@ -0,0 +1,116 @@
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import type { ChatCompletionCreateParams } from 'openai';
+import {
+	createAnthropicCompletion,
+	fromAnthropicResponse,
+	toAnthropicRequest,
+	type AnthropicMessagesResponse
+} from './anthropic';
+import { extractJSONFromLLMResponse } from '../../src/lib/utils/openaiApi';
+
+const params: ChatCompletionCreateParams = {
+	model: 'anthropic/claude-3-5-sonnet-latest',
+	messages: [
+		{ role: 'system', content: 'You are a business analyst.' },
+		{ role: 'system', content: 'Use the analyze_company function.' },
+		{ role: 'user', content: 'Perform a comprehensive competitive analysis of Stripe.' }
+	],
+	tools: [
+		{
+			type: 'function',
+			function: {
+				name: 'analyze_company',
+				description: 'Analyze a company',
+				parameters: { type: 'object', properties: { entity: { type: 'object' } } }
+			}
+		}
+	],
+	tool_choice: { function: { name: 'analyze_company' } },
+	response_format: { type: 'json_object' },
+	temperature: 0.1,
+	stream: false
+};
+
+const message: AnthropicMessagesResponse = {
+	id: 'msg_01',
+	type: 'message',
+	role: 'assistant',
+	model: 'claude-3-5-sonnet-latest',
+	content: [
+		{ type: 'text', text: 'Here is the analysis.' },
+		{
+			type: 'tool_use',
+			id: 'toolu_01',
+			name: 'analyze_company',
+			input: { entity: { name_brand: 'Stripe' } }
+		}
+	],
+	stop_reason: 'tool_use',
+	usage: { input_tokens: 120, output_tokens: 30 }
+};
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('toAnthropicRequest', () => {
+	test('moves system messages and forces the requested tool', () => {
+		const request = toAnthropicRequest(params);
+
+		expect(request.model).toBe('claude-3-5-sonnet-latest');
+		expect(request.system).toBe('You are a business analyst.\n\nUse the analyze_company function.');
+		expect(request.messages).toEqual([
+			{
+				role: 'user',
+				content: [{ type: 'text', text: params.messages[2].content }]
+			}
+		]);
+		expect(request.tools).toEqual([
+			{
+				name: 'analyze_company',
+				description: 'Analyze a company',
+				input_schema: params.tools?.[0].function.parameters
+			}
+		]);
+		expect(request.tool_choice).toEqual({ type: 'tool', name: 'analyze_company' });
+		expect(request.max_tokens).toBeGreaterThan(0);
+	});
+});
+
+describe('fromAnthropicResponse', () => {
+	test('converts tool_use blocks to tool calls readable by extractJSONFromLLMResponse', () => {
+		const completion = fromAnthropicResponse(message);
+
+		expect(completion.choices[0].finish_reason).toBe('tool_calls');
+		expect(completion.usage).toEqual({
+			prompt_tokens: 120,
+			completion_tokens: 30,
+			total_tokens: 150
+		});
+		expect(extractJSONFromLLMResponse(completion)).toEqual({ entity: { name_brand: 'Stripe' } });
+	});
+});
+
+describe('createAnthropicCompletion', () => {
+	test('throws errors shaped like OpenAI SDK errors', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(
+				async () =>
+					new Response(
+						JSON.stringify({
+							type: 'error',
+							error: { type: 'rate_limit_error', message: 'Rate limited' }
+						}),
+						{ status: 429, headers: { 'retry-after': '5' } }
+					)
+			)
+		);
+
+		await expect(createAnthropicCompletion(params, 'sk-ant-test')).rejects.toMatchObject({
+			status: 429,
+			error: { type: 'rate_limit_error', message: 'Rate limited' },
+			headers: { 'retry-after': '5' }
+		});
+	});
+});
@@ -0,0 +1,265 @@
+/**
+ * anthropic.ts
+ * Anthropic Messages API adapter for LLM API calls
+ *
+ * Translates OpenAI-style chat completion requests to the Anthropic Messages
+ * API and converts responses back to the ChatCompletion shape, so
+ * extractJSONFromLLMResponse and the rest of the pipeline work unchanged:
+ * - system messages become the top-level system prompt
+ * - function tools become tools with an input_schema; a forced tool_choice
+ *   becomes { type: 'tool', name }
+ * - tool_use blocks become tool_calls with JSON-encoded arguments
+ * - stop_reason and usage are mapped to finish_reason and OpenAI usage fields
+ *
+ * Requests are sent with fetch; no Anthropic SDK is required.
+ *
+ * NOTE: Always use direct type imports with OpenAI:
+ * import type { ChatCompletionCreateParams } from 'openai';
+ * NOT namespace notation (OpenAI.ChatCompletion)
+ *
+ * @link https://docs.anthropic.com/en/api/messages - Messages API documentation
+ * @link src/lib/utils/openaiApi.ts - callOpenAI routes provider 'anthropic' here
+ */
+
+import type { ChatCompletion, ChatCompletionCreateParams } from 'openai';
+import type { OpenAIError } from '../../src/lib/types/openaiApi';
+
+/**
+ * Anthropic provider configuration with API details
+ */
+export const anthropicProvider = {
+	name: 'Anthropic',
+	baseUrl: 'https://api.anthropic.com/v1',
+	apiKeyEnvVar: 'ANTHROPIC_API_KEY',
+	headers: {
+		'anthropic-version': '2023-06-01'
+	}
+};
+
+// Anthropic requires max_tokens on every request
+const defaultMaxTokens = 4096;
+
+/**
+ * Anthropic content block
+ */
+export type AnthropicContentBlock =
+	| { type: 'text'; text: string }
+	| { type: 'tool_use'; id: string; name: string; input: unknown }
+	| { type: 'tool_result'; tool_use_id: string; content: string };
+
+/**
+ * Anthropic Messages API request body
+ */
+export interface AnthropicMessagesRequest {
+	model: string;
+	max_tokens: number;
+	system?: string;
+	messages: Array<{ role: 'user' | 'assistant'; content: AnthropicContentBlock[] }>;
+	tools?: Array<{ name: string; description?: string; input_schema: Record<string, unknown> }>;
+	tool_choice?: { type: 'auto' } | { type: 'any' } | { type: 'tool'; name: string };
+	temperature?: number;
+}
+
+/**
+ * Anthropic Messages API response body
+ */
+export interface AnthropicMessagesResponse {
+	id: string;
+	type: 'message';
+	role: 'assistant';
+	model: string;
+	content: AnthropicContentBlock[];
+	stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | null;
+	usage: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Strip an "anthropic/" prefix (OpenRouter and LiteLLM style) from a model name
+ */
+export function formatModelNameForAnthropic(model: string): string {
+	return model.replace(/^anthropic\//, '');
+}
+
+/**
+ * Translate an OpenAI chat completion request to an Anthropic Messages request
+ *
+ * Consecutive messages with the same role are merged, since Anthropic requires
+ * user and assistant turns to alternate. Without a forced tool, a JSON
+ * response_format is expressed as a system instruction.
+ *
+ * @param params OpenAI-style request parameters
+ * @returns Anthropic Messages API request body
+ */
+export function toAnthropicRequest(params: ChatCompletionCreateParams): AnthropicMessagesRequest {
+	const systemPrompts: string[] = [];
+	const messages: AnthropicMessagesRequest['messages'] = [];
+
+	for (const message of params.messages) {
+		if (message.role === 'system') {
+			if (message.content) systemPrompts.push(message.content);
+			continue;
+		}
+
+		const role = message.role === 'assistant' ? 'assistant' : 'user';
+		const content: AnthropicContentBlock[] = [];
+		if (message.role === 'tool' || message.role === 'function') {
+			content.push({
+				type: 'tool_result',
+				tool_use_id: message.tool_call_id ?? message.name ?? '',
+				content: message.content ?? ''
+			});
+		} else {
+			if (message.content) content.push({ type: 'text', text: message.content });
+			for (const toolCall of message.tool_calls ?? []) {
+				content.push({
+					type: 'tool_use',
+					id: toolCall.id,
+					name: toolCall.function.name,
+					input: JSON.parse(toolCall.function.arguments || '{}')
+				});
+			}
+		}
+
+		const previous = messages[messages.length - 1];
+		if (previous?.role === role) {
+			previous.content.push(...content);
+		} else {
+			messages.push({ role, content });
+		}
+	}
+
+	const toolChoice = params.tool_choice;
+	const forcedTool = toolChoice && typeof toolChoice === 'object' ? toolChoice.function.name : null;
+	const tools = toolChoice === 'none' ? undefined : params.tools;
+
+	if (params.response_format?.type === 'json_object' && !forcedTool) {
+		systemPrompts.push('Respond with a single valid JSON object and no other text.');
+	}
+
+	return {
+		model: formatModelNameForAnthropic(params.model),
+		max_tokens: params.max_tokens || defaultMaxTokens,
+		...(systemPrompts.length > 0 && { system: systemPrompts.join('\n\n') }),
+		messages,
+		...(tools &&
+			tools.length > 0 && {
+				tools: tools.map((tool) => ({
+					name: tool.function.name,
+					description: tool.function.description,
+					input_schema: tool.function.parameters
+				})),
+				tool_choice: forcedTool ? { type: 'tool' as const, name: forcedTool } : { type: 'auto' }
+			}),
+		...(params.temperature !== undefined && { temperature: params.temperature })
+	};
+}
+
+/**
+ * Map an Anthropic stop reason to an OpenAI finish reason
+ */
+function toFinishReason(
+	stopReason: AnthropicMessagesResponse['stop_reason']
+): ChatCompletion['choices'][number]['finish_reason'] {
+	switch (stopReason) {
+		case 'tool_use':
+			return 'tool_calls';
+		case 'max_tokens':
+			return 'length';
+		case 'end_turn':
+		case 'stop_sequence':
+		default:
+			return 'stop';
+	}
+}
+
+/**
+ * Convert an Anthropic Messages response to the ChatCompletion shape
+ *
+ * Text blocks are joined into message content; tool_use blocks become
+ * function tool_calls with their input serialized as JSON arguments.
+ *
+ * @param response Anthropic Messages API response
+ * @returns OpenAI-compatible ChatCompletion
+ */
+export function fromAnthropicResponse(response: AnthropicMessagesResponse): ChatCompletion {
+	const text = response.content
+		.filter((block) => block.type === 'text')
+		.map((block) => block.text)
+		.join('');
+	const toolCalls = response.content
+		.filter((block) => block.type === 'tool_use')
+		.map((block) => ({
+			id: block.id,
+			type: 'function' as const,
+			function: { name: block.name, arguments: JSON.stringify(block.input) }
+		}));
+
+	return {
+		id: response.id,
+		object: 'chat.completion',
+		created: Math.floor(Date.now() / 1000),
+		model: response.model,
+		choices: [
+			{
+				index: 0,
+				message: {
+					role: 'assistant',
+					content: text || null,
+					...(toolCalls.length > 0 && { tool_calls: toolCalls })
+				},
+				finish_reason: toFinishReason(response.stop_reason),
+				logprobs: null
+			}
+		],
+		usage: {
+			prompt_tokens: response.usage.input_tokens,
+			completion_tokens: response.usage.output_tokens,
+			total_tokens: response.usage.input_tokens + response.usage.output_tokens
+		}
+	};
+}
+
+/**
+ * Send a chat completion request through the Anthropic Messages API
+ *
+ * Error responses are thrown in the same shape as OpenAI SDK errors (status,
+ * error.type, error.message, retry-after header) so callers handle them alike.
+ *
+ * @param params OpenAI-style request parameters
+ * @param apiKey Anthropic API key
+ * @param signal Optional signal that cancels the request
+ * @returns OpenAI-compatible ChatCompletion
+ */
+export async function createAnthropicCompletion(
+	params: ChatCompletionCreateParams,
+	apiKey: string,
+	signal?: AbortSignal
+): Promise<ChatCompletion> {
+	const timeout = AbortSignal.timeout(120000);
+	const response = await fetch(`${anthropicProvider.baseUrl}/messages`, {
+		method: 'POST',
+		headers: {
+			...anthropicProvider.headers,
+			'x-api-key': apiKey,
+			'content-type': 'application/json'
+		},
+		body: JSON.stringify(toAnthropicRequest(params)),
+		signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+	});
+
+	if (!response.ok) {
+		const body = (await response.json().catch(() => null)) as {
+			error?: { type?: string; message?: string };
+		} | null;
+		const message = body?.error?.message || response.statusText;
+		const retryAfter = response.headers.get('retry-after');
+		throw Object.assign(new Error(`${response.status} ${message}`), {
+			status: response.status,
+			code: body?.error?.type,
+			error: { type: body?.error?.type, message },
+			headers: retryAfter ? { 'retry-after': retryAfter } : {}
+		}) satisfies OpenAIError;
+	}
+
+	return fromAnthropicResponse((await response.json()) as AnthropicMessagesResponse);
+}
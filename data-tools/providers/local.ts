@@ -0,0 +1,39 @@
+/**
+ * local.ts
+ * OpenAI-compatible local model server provider (Ollama, llama.cpp, vLLM)
+ *
+ * Local servers expose the OpenAI chat completions API, so requests go through
+ * the regular OpenAI client with a different base URL. This keeps analyses of
+ * sensitive companies on infrastructure we control.
+ *
+ * Configuration:
+ * - LOCAL_LLM_BASE_URL: Server URL including /v1 (default Ollama: http://localhost:11434/v1;
+ *   llama.cpp server: http://localhost:8080/v1)
+ * - LOCAL_LLM_API_KEY: Optional; most local servers ignore it
+ *
+ * Model names may carry an "ollama/" or "local/" prefix (as in llmModels.json);
+ * the prefix is stripped before the request is sent.
+ *
+ * @link https://github.com/ollama/ollama/blob/main/docs/openai.md - Ollama OpenAI compatibility
+ * @link src/lib/utils/openaiApi.ts - callOpenAI routes provider 'local' here
+ */
+
+/**
+ * Local provider configuration with API details
+ */
+export const localProvider = {
+	name: 'Local',
+	baseUrl: 'http://localhost:11434/v1',
+	baseUrlEnvVar: 'LOCAL_LLM_BASE_URL',
+	apiKeyEnvVar: 'LOCAL_LLM_API_KEY',
+	// Local servers do not check keys, but the OpenAI client requires one
+	defaultApiKey: 'local',
+	headers: {}
+};
+
+/**
+ * Strip an "ollama/" or "local/" prefix from a model name
+ */
+export function formatModelNameForLocal(model: string): string {
+	return model.replace(/^(ollama|local)\//, '');
+}
@@ -0,0 +1,141 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ChatCompletion, ChatCompletionCreateParams } from 'openai';
+import type { RequestEvent } from '@sveltejs/kit';
+import { createMockCompletion, getMockProviderOptions } from './mock';
+import { extractJSONFromLLMResponse } from '../../src/lib/utils/openaiApi';
+import { processCompanyAnalysis } from '../openai';
+import { validate } from '../sharedUtils/dataProcessing';
+import { companyAnalysisSchema } from '../sharedUtils/schemaToJson';
+import { GET } from '../../src/routes/api/rest/v1/company/competitive-analysis/+server';
+
+const params: ChatCompletionCreateParams = {
+	model: 'chatgpt-4o-latest',
+	messages: [{ role: 'user', content: 'Perform a comprehensive competitive analysis of Stripe.' }],
+	tools: [
+		{
+			type: 'function',
+			function: { name: 'analyze_company', parameters: { type: 'object' } }
+		}
+	],
+	tool_choice: { function: { name: 'analyze_company' } },
+	stream: false
+};
+
+afterEach(() => {
+	delete process.env.MOCK_LLM_FAULT;
+	delete process.env.MOCK_LLM_MODE;
+});
+
+describe('createMockCompletion', () => {
+	test('generates a deterministic tool call for the requested function', async () => {
+		const response = await createMockCompletion(params, getMockProviderOptions());
+		const data = extractJSONFromLLMResponse(response) as { entity: { name_brand: string } };
+
+		expect(await createMockCompletion(params, getMockProviderOptions())).toEqual(response);
+		expect(response.choices[0].finish_reason).toBe('tool_calls');
+		expect(data.entity.name_brand).toBe('Stripe');
+		expect(validate.basicStructure(data).isValid).toBe(true);
+		expect(companyAnalysisSchema.safeParse(data).success).toBe(true);
+	});
+
+	test('injects malformed JSON, empty choices and rate limit faults', async () => {
+		const malformed = await createMockCompletion(
+			params,
+			getMockProviderOptions({ fault: 'malformed_json' })
+		);
+		expect(() => extractJSONFromLLMResponse(malformed)).toThrow(
+			'Could not extract valid JSON content from LLM response'
+		);
+
+		const empty = await createMockCompletion(
+			params,
+			getMockProviderOptions({ fault: 'empty_choices' })
+		);
+		expect(() => extractJSONFromLLMResponse(empty)).toThrow('No message found in LLM response');
+
+		await expect(
+			createMockCompletion(params, getMockProviderOptions({ fault: 'rate_limit' }))
+		).rejects.toMatchObject({ status: 429 });
+	});
+
+	test('records responses and replays them by request hash', async () => {
+		const fixturesDir = await mkdtemp(join(tmpdir(), 'mock-llm-'));
+		try {
+			const recorded = { id: 'chatcmpl-recorded', choices: [] } as unknown as ChatCompletion;
+
+			await expect(
+				createMockCompletion(params, getMockProviderOptions({ mode: 'replay', fixturesDir }))
+			).rejects.toThrow('No mock LLM fixture');
+
+			await createMockCompletion(
+				params,
+				getMockProviderOptions({ mode: 'record', fixturesDir }),
+				async () => recorded
+			);
+			expect(
+				await createMockCompletion(params, getMockProviderOptions({ mode: 'replay', fixturesDir }))
+			).toEqual(recorded);
+		} finally {
+			await rm(fixturesDir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe('analysis pipeline with the mock provider', () => {
+	test('produces a valid analysis without network access', async () => {
+		const analysis = await processCompanyAnalysis('Stripe', {
+			provider: 'mock',
+			cache: 'bypass'
+		});
+
+		expect(analysis.entity.name_brand).toBe('Stripe');
+		expect(analysis.entity.products?.length).toBeGreaterThan(0);
+		expect(analysis._meta?.cost?.totalTokens).toBeGreaterThan(0);
+	});
+
+	test('runs the multi-step strategy with per-step cost', async () => {
+		const analysis = await processCompanyAnalysis('Stripe', {
+			provider: 'mock',
+			cache: 'bypass',
+			strategy: 'multi',
+			sourceType: 'rawOpenAI'
+		});
+		const steps = analysis._meta?.steps ?? [];
+
+		expect(steps.map((step) => step.step)).toEqual([
+			'basic_info',
+			'product:Main Product',
+			'product:Secondary Product',
+			'company_profile'
+		]);
+		expect(steps.every((step) => step.status === 'completed')).toBe(true);
+		expect(analysis.entity.products?.map((product) => product.name_brand)).toEqual([
+			'Main Product',
+			'Secondary Product'
+		]);
+		expect(analysis.entity.details?.length).toBeGreaterThan(0);
+		expect(analysis._meta?.cost?.totalTokens).toBe(
+			steps.reduce((total, step) => total + step.cost.totalTokens, 0)
+		);
+	});
+
+	test('maps a provider 429 to a quota error response', async () => {
+		const previousProvider = process.env.LLM_PROVIDER;
+		process.env.LLM_PROVIDER = 'mock';
+		process.env.MOCK_LLM_FAULT = 'rate_limit';
+		try {
+			const url = new URL(
+				'http://localhost/api/rest/v1/company/competitive-analysis?name=Stripe&cache=bypass'
+			);
+			const response = await GET({ url } as RequestEvent);
+
+			expect(response.status).toBe(429);
+			expect((await response.json()).error).toBe('OpenAI API quota exceeded');
+		} finally {
+			process.env.LLM_PROVIDER = previousProvider;
+		}
+	});
+});
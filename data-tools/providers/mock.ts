@@ -0,0 +1,393 @@
+/**
+ * mock.ts
+ * Offline mock provider for LLM API calls
+ *
+ * Serves OpenAI-compatible ChatCompletion responses without network access so
+ * the analysis pipeline can run in tests, CI and local development.
+ *
+ * Modes (MOCK_LLM_MODE):
+ * 1. generate - Default. Deterministic responses built from createMockAnalysisData
+ *               (analyze_company, analyze_product, analyze_company_profile) or
+ *               fixed basic info (get_basic_company_info)
+ * 2. replay   - Serve recorded fixtures keyed by request hash; a missing fixture is an error
+ * 3. record   - Forward the request to the direct OpenAI provider and save the
+ *               response as a fixture for later replay
+ *
+ * Fixtures are stored as <request hash>.json in MOCK_LLM_FIXTURES_DIR
+ * (default data-tools/fixtures/llm). The hash is the same one used by the
+ * response cache, so it covers model, messages, tools and temperature.
+ *
+ * Faults (MOCK_LLM_FAULT) are applied to every mock response:
+ * - malformed_json: Tool call arguments are truncated mid-object
+ * - empty_choices: The response has no choices
+ * - rate_limit: The call throws a 429 error like the OpenAI SDK does
+ *
+ * NOTE: Always use direct type imports with OpenAI:
+ * import type { ChatCompletionCreateParams } from 'openai';
+ * NOT namespace notation (OpenAI.ChatCompletion)
+ *
+ * @link src/lib/utils/openaiApi.ts - callOpenAI routes provider 'mock' here
+ * @link data-tools/sharedUtils/dataProcessing.ts - createMockAnalysisData
+ * @link src/lib/utils/llmCache.ts - Request hash
+ */
+
+import type { ChatCompletion, ChatCompletionCreateParams } from 'openai';
+import type { OpenAIError } from '../../src/lib/types/openaiApi';
+import type { AnalysisData, EntityDetail } from '../../src/lib/schemas/research';
+import { createLLMCacheKey } from '../../src/lib/utils/llmCache';
+import { createMockAnalysisData } from '../sharedUtils/dataProcessing';
+
+/**
+ * Mock provider configuration, shaped like the other providers
+ */
+export const mockProvider = {
+	name: 'Mock',
+	baseUrl: 'mock://local',
+	apiKeyEnvVar: 'MOCK_LLM_API_KEY',
+	headers: {}
+};
+
+/**
+ * Mock response modes
+ */
+export const mockLLMModes = ['generate', 'replay', 'record'] as const;
+export type MockLLMMode = (typeof mockLLMModes)[number];
+
+/**
+ * Injectable faults
+ */
+export const mockLLMFaults = ['none', 'malformed_json', 'empty_choices', 'rate_limit'] as const;
+export type MockLLMFault = (typeof mockLLMFaults)[number];
+
+/**
+ * Mock provider settings
+ */
+export interface MockProviderOptions {
+	mode: MockLLMMode;
+	fault: MockLLMFault;
+	fixturesDir: string;
+	// Company name used by generate mode when it cannot be read from the prompt
+	companyName: string;
+}
+
+/**
+ * Sends a request to a real provider (used by record mode)
+ */
+export type MockRecordFn = (params: ChatCompletionCreateParams) => Promise<ChatCompletion>;
+
+// Default fixture directory, relative to the working directory
+const defaultFixturesDir = 'data-tools/fixtures/llm';
+
+// Prompt phrases around the company and product names in data-tools/openai.ts
+const companyNamePatterns = [
+	/analysis of (.+?)\.(?:\s|$)/,
+	/services of (.+?) and who/,
+	/, a product of (.+?)\.(?:\s|$)/,
+	/company profile of (.+?)\.(?:\s|$)/
+];
+const productNamePatterns = [/market position of (.+?), a product of/];
+
+/**
+ * Read mock provider settings from the environment
+ *
+ * @param overrides Settings that take precedence over environment variables
+ * @returns Complete mock provider settings
+ */
+export function getMockProviderOptions(
+	overrides: Partial<MockProviderOptions> = {}
+): MockProviderOptions {
+	const env = typeof process !== 'undefined' ? process.env : {};
+	const mode = mockLLMModes.find((value) => value === env.MOCK_LLM_MODE) ?? 'generate';
+	const fault = mockLLMFaults.find((value) => value === env.MOCK_LLM_FAULT) ?? 'none';
+
+	return {
+		mode,
+		fault,
+		fixturesDir: env.MOCK_LLM_FIXTURES_DIR || defaultFixturesDir,
+		companyName: 'Mock Company',
+		...overrides
+	};
+}
+
+/**
+ * Get the fixture key for a request
+ */
+export function getMockFixtureKey(params: ChatCompletionCreateParams): Promise<string> {
+	return createLLMCacheKey({
+		model: params.model,
+		messages: params.messages,
+		tools: params.tools,
+		tool_choice: params.tool_choice,
+		response_format: params.response_format,
+		temperature: params.temperature ?? undefined
+	});
+}
+
+/**
+ * Read a recorded fixture
+ *
+ * @returns Recorded response, or null if there is no fixture for the key
+ */
+export async function readMockFixture(
+	key: string,
+	fixturesDir: string
+): Promise<ChatCompletion | null> {
+	const { readFile } = await import('node:fs/promises');
+	const { join } = await import('node:path');
+	try {
+		return JSON.parse(await readFile(join(fixturesDir, `${key}.json`), 'utf8')) as ChatCompletion;
+	} catch (error) {
+		if ((error as { code?: string }).code === 'ENOENT') return null;
+		throw error;
+	}
+}
+
+/**
+ * Save a response as a fixture
+ */
+export async function writeMockFixture(
+	key: string,
+	response: ChatCompletion,
+	fixturesDir: string
+): Promise<void> {
+	const { mkdir, writeFile } = await import('node:fs/promises');
+	const { join } = await import('node:path');
+	await mkdir(fixturesDir, { recursive: true });
+	await writeFile(
+		join(fixturesDir, `${key}.json`),
+		`${JSON.stringify(response, null, 2)}\n`,
+		'utf8'
+	);
+}
+
+/**
+ * Read a company or product name from the last user message of an analysis prompt
+ */
+function findPromptName(params: ChatCompletionCreateParams, patterns: RegExp[]): string | null {
+	const userMessage = [...params.messages].reverse().find((message) => message.role === 'user');
+	const content = typeof userMessage?.content === 'string' ? userMessage.content : '';
+	for (const pattern of patterns) {
+		const match = content.match(pattern);
+		if (match) return match[1].trim();
+	}
+	return null;
+}
+
+// as_of_date of every mock detail; a full ISO datetime as entityDetailSchema requires
+const mockAsOfDate = '2025-01-01T00:00:00.000Z';
+
+/**
+ * Mock analysis with fixed detail dates, so responses do not depend on the current date
+ */
+function createMockAnalysis(companyName: string): AnalysisData {
+	const withFixedDate = (details: EntityDetail[] | undefined) =>
+		details?.map((detail) => ({ ...detail, as_of_date: mockAsOfDate }));
+	const { entity } = createMockAnalysisData(companyName);
+
+	return {
+		entity: {
+			...entity,
+			details: withFixedDate(entity.details),
+			products: entity.products?.map((product) => ({
+				...product,
+				details: withFixedDate(product.details),
+				competitors: product.competitors?.map((competitor) => ({
+					...competitor,
+					details: withFixedDate(competitor.details)
+				}))
+			}))
+		}
+	};
+}
+
+/**
+ * Build the deterministic payload for a requested function
+ */
+function createMockPayload(
+	functionName: string | null,
+	companyName: string,
+	productName: string | null
+): unknown {
+	switch (functionName) {
+		case 'get_basic_company_info':
+			return {
+				company_name: companyName,
+				main_products: ['Main Product', 'Secondary Product'],
+				main_competitors: ['Competitor A', 'Competitor B', 'Competitor C']
+			};
+		case 'analyze_product': {
+			const [product] = createMockAnalysis(companyName).entity.products ?? [];
+			return { product: { ...product, name_brand: productName ?? product.name_brand } };
+		}
+		case 'analyze_company_profile': {
+			const { entity } = createMockAnalysis(companyName);
+			return {
+				entity: {
+					name_legal: entity.name_legal,
+					date_year_established: entity.date_year_established,
+					status_operating: entity.status_operating,
+					details: entity.details
+				}
+			};
+		}
+		case 'analyze_company':
+		default: {
+			// Mock metadata is replaced by callOpenAI's own cost and cache reporting
+			const { entity } = createMockAnalysis(companyName);
+			return { entity };
+		}
+	}
+}
+
+/**
+ * Rough token count used for mock usage figures (about four characters per token)
+ */
+function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Build a deterministic response for a request
+ *
+ * The response uses a tool call when the request names a function, and JSON
+ * content otherwise, mirroring the direct and OpenRouter providers.
+ */
+async function generateMockCompletion(
+	params: ChatCompletionCreateParams,
+	options: MockProviderOptions
+): Promise<ChatCompletion> {
+	const key = await getMockFixtureKey(params);
+	const toolChoice = params.tool_choice;
+	const functionName =
+		toolChoice && typeof toolChoice === 'object' && 'function' in toolChoice
+			? toolChoice.function.name
+			: (params.tools?.[0]?.function.name ?? null);
+	const payload = JSON.stringify(
+		createMockPayload(
+			functionName,
+			findPromptName(params, companyNamePatterns) ?? options.companyName,
+			findPromptName(params, productNamePatterns)
+		)
+	);
+
+	const promptTokens = estimateTokens(JSON.stringify(params.messages));
+	const completionTokens = estimateTokens(payload);
+
+	return {
+		id: `chatcmpl-mock-${key.slice(0, 16)}`,
+		object: 'chat.completion',
+		created: 0,
+		model: params.model,
+		choices: [
+			{
+				index: 0,
+				message: functionName
+					? {
+							role: 'assistant',
+							content: null,
+							tool_calls: [
+								{
+									id: `call_mock_${key.slice(0, 8)}`,
+									type: 'function',
+									function: { name: functionName, arguments: payload }
+								}
+							]
+						}
+					: { role: 'assistant', content: payload },
+				finish_reason: functionName ? 'tool_calls' : 'stop',
+				logprobs: null
+			}
+		],
+		usage: {
+			prompt_tokens: promptTokens,
+			completion_tokens: completionTokens,
+			total_tokens: promptTokens + completionTokens
+		}
+	};
+}
+
+/**
+ * Apply the configured fault to a response
+ */
+function applyMockFault(response: ChatCompletion, fault: MockLLMFault): ChatCompletion {
+	switch (fault) {
+		case 'rate_limit':
+			throw Object.assign(new Error('429 Rate limit reached for requests (mock provider)'), {
+				status: 429,
+				code: 'rate_limit_exceeded',
+				error: {
+					message: 'Rate limit reached for requests (mock provider)',
+					type: 'requests',
+					code: 'rate_limit_exceeded'
+				},
+				headers: { 'retry-after': '1' }
+			}) satisfies OpenAIError;
+		case 'empty_choices':
+			return { ...response, choices: [] };
+		case 'malformed_json':
+			return {
+				...response,
+				choices: response.choices.map((choice) => {
+					const truncate = (value: string) => value.slice(0, Math.floor(value.length / 2));
+					return {
+						...choice,
+						message: {
+							...choice.message,
+							content: choice.message.content ? truncate(choice.message.content) : null,
+							tool_calls: choice.message.tool_calls?.map((toolCall) => ({
+								...toolCall,
+								function: { ...toolCall.function, arguments: truncate(toolCall.function.arguments) }
+							}))
+						}
+					};
+				})
+			};
+		case 'none':
+		default:
+			return response;
+	}
+}
+
+/**
+ * Create a mock ChatCompletion for a request
+ *
+ * @param params Final request parameters as they would be sent to a provider
+ * @param options Mode, fault and fixture settings; defaults to the environment
+ * @param record Sends the request to a real provider; required in record mode
+ * @returns ChatCompletion with the configured fault applied
+ * @throws Error in replay mode when no fixture exists, or a 429 error for the rate_limit fault
+ */
+export async function createMockCompletion(
+	params: ChatCompletionCreateParams,
+	options: MockProviderOptions = getMockProviderOptions(),
+	record?: MockRecordFn
+): Promise<ChatCompletion> {
+	let response: ChatCompletion;
+
+	switch (options.mode) {
+		case 'replay': {
+			const key = await getMockFixtureKey(params);
+			const fixture = await readMockFixture(key, options.fixturesDir);
+			if (!fixture) {
+				throw new Error(
+					`No mock LLM fixture for request ${key} in ${options.fixturesDir}. Run with MOCK_LLM_MODE=record to create it.`
+				);
+			}
+			response = fixture;
+			break;
+		}
+		case 'record': {
+			if (!record) {
+				throw new Error('Mock provider record mode requires a provider to record from');
+			}
+			response = await record(params);
+			await writeMockFixture(await getMockFixtureKey(params), response, options.fixturesDir);
+			break;
+		}
+		case 'generate':
+		default:
+			response = await generateMockCompletion(params, options);
+	}
+
+	return applyMockFault(response, options.fault);
+}
@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'vitest';
+import { mapWithConcurrency } from './concurrency';
+
+/**
+ * Promise that resolves after a number of macrotasks, so calls overlap
+ */
+function delay(ticks: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ticks));
+}
+
+describe('mapWithConcurrency', () => {
+	test('keeps at most limit calls in flight', async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+
+		await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+			inFlight += 1;
+			maxInFlight = Math.max(maxInFlight, inFlight);
+			await delay(item % 3);
+			inFlight -= 1;
+		});
+
+		expect(maxInFlight).toBe(3);
+	});
+
+	test('returns settled results in input order and keeps going after failures', async () => {
+		const results = await mapWithConcurrency(['a', 'b', 'c', 'd'], 2, async (item, index) => {
+			// Finish in reverse order
+			await delay(4 - index);
+			if (item === 'b') throw new Error('b failed');
+			return item.toUpperCase();
+		});
+
+		expect(results).toEqual([
+			{ status: 'fulfilled', value: 'A' },
+			{ status: 'rejected', reason: new Error('b failed') },
+			{ status: 'fulfilled', value: 'C' },
+			{ status: 'fulfilled', value: 'D' }
+		]);
+	});
+
+	test('runs sequentially with a limit below 1 and returns nothing for no items', async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+		const results = await mapWithConcurrency([1, 2, 3], 0, async (item) => {
+			inFlight += 1;
+			maxInFlight = Math.max(maxInFlight, inFlight);
+			await delay(1);
+			inFlight -= 1;
+			return item;
+		});
+
+		expect(maxInFlight).toBe(1);
+		expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled', 'fulfilled']);
+		expect(await mapWithConcurrency([], 3, async () => 1)).toEqual([]);
+	});
+});
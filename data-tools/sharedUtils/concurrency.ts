@@ -0,0 +1,46 @@
+/**
+ * concurrency.ts
+ *
+ * Bounded-concurrency helpers for fanning out LLM calls.
+ *
+ * Provider rate limits make unbounded Promise.all over many requests fail in
+ * bursts, so fan-outs (such as the per-product calls of the multi-step
+ * analysis) run at most `limit` tasks at a time.
+ *
+ * @link data-tools/openai.ts - Multi-step analysis
+ */
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ *
+ * Failures do not stop the remaining items: every item gets a settled result,
+ * in input order, like Promise.allSettled.
+ *
+ * @param items Items to process
+ * @param limit Maximum number of concurrent calls (at least 1)
+ * @param fn Function to run for each item
+ * @returns Settled results in the order of items
+ */
+export async function mapWithConcurrency<T, R>(
+	items: readonly T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+	const results: PromiseSettledResult<R>[] = new Array(items.length);
+	let next = 0;
+
+	async function worker(): Promise<void> {
+		while (next < items.length) {
+			const index = next++;
+			try {
+				results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+			} catch (reason) {
+				results[index] = { status: 'rejected', reason };
+			}
+		}
+	}
+
+	const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+	await Promise.all(Array.from({ length: workerCount }, () => worker()));
+	return results;
+}
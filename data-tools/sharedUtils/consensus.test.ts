@@ -0,0 +1,86 @@
+import { describe, test, expect } from 'vitest';
+import type { AnalysisData } from '../../src/lib/schemas/research';
+import { getConsensusConfidence, mergeConsensusAnalyses } from './consensus';
+
+/**
+ * Analysis with the given products, each as [name, competitor names]
+ */
+function createAnalysis(...products: [string, string[]][]): AnalysisData {
+	return {
+		entity: {
+			id: null,
+			name_brand: 'Stripe',
+			products: products.map(([name, competitors]) => ({
+				id: null,
+				name_brand: name,
+				details: [
+					{
+						type_research_detail: 'market_share_estimate',
+						data_confidence: 'verified',
+						source_type: 'analyst_estimate',
+						discrete_value: 20
+					}
+				],
+				competitors: competitors.map((competitor) => ({ id: null, name_brand: competitor }))
+			}))
+		}
+	};
+}
+
+describe('getConsensusConfidence', () => {
+	test('is high when all models agree, medium for a majority and low otherwise', () => {
+		expect(getConsensusConfidence(3, 3)).toBe('high');
+		expect(getConsensusConfidence(2, 3)).toBe('medium');
+		expect(getConsensusConfidence(1, 3)).toBe('low');
+		expect(getConsensusConfidence(1, 2)).toBe('low');
+		expect(getConsensusConfidence(1, 1)).toBe('medium');
+	});
+});
+
+describe('mergeConsensusAnalyses', () => {
+	test('merges by normalized name and counts the models that proposed each entity', () => {
+		const entity = mergeConsensusAnalyses([
+			{
+				model: 'gpt-4o',
+				data: createAnalysis(['Stripe Payments', ['Adyen N.V.', 'Made Up Pay']])
+			},
+			{
+				model: 'gpt-4o-mini',
+				data: createAnalysis(['Billing', ['Chargebee']], ['stripe payments', ['Adyen']])
+			},
+			{
+				model: 'claude-3-5-sonnet',
+				data: createAnalysis(['Stripe Payments Inc.', ['PayPal']], ['Stripe Billing', ['Adyen']])
+			}
+		]);
+
+		expect(entity.name_brand).toBe('Stripe');
+		expect(entity.products?.map((product) => product.name_brand)).toEqual([
+			'Stripe Payments',
+			'Billing',
+			'Stripe Billing'
+		]);
+
+		const [payments] = entity.products ?? [];
+		expect(payments.consensus).toEqual({
+			models: ['gpt-4o', 'gpt-4o-mini', 'claude-3-5-sonnet'],
+			agreement: 3,
+			total: 3,
+			data_confidence: 'high'
+		});
+		expect(payments.details?.[0].data_confidence).toBe('high');
+
+		// Adyen is counted for every model that named it, under any product
+		expect(
+			payments.competitors?.map(({ name_brand, consensus }) => [name_brand, consensus?.agreement])
+		).toEqual([
+			['Adyen N.V.', 3],
+			['Made Up Pay', 1],
+			['PayPal', 1]
+		]);
+		expect(payments.competitors?.[1].consensus).toMatchObject({
+			models: ['gpt-4o'],
+			data_confidence: 'low'
+		});
+	});
+});
@@ -0,0 +1,165 @@
+/**
+ * consensus.ts
+ *
+ * Merges the analyses of several models into one (approach=consensus).
+ *
+ * A single model often invents competitors; names that several models propose
+ * independently are more likely to be real. Products and competitors are
+ * merged by normalizeEntityName, so "Adyen N.V." from one model and "Adyen"
+ * from another count as one proposal each:
+ * - products: agreement is the number of models that listed the product
+ * - competitors: agreement is the number of models that named the competitor
+ *   for any product, since models often group products differently
+ *
+ * Each merged entity keeps the fields and details of the first model (in the
+ * configured order) that proposed it, gets a consensus record with the
+ * proposing models, and has the data_confidence of its details derived from
+ * the agreement. Entities are ordered by agreement, most agreed first.
+ *
+ * Configuration: LLM_CONSENSUS_MODELS (comma-separated, at least two models).
+ *
+ * @link data-tools/openai.ts - Consensus strategy
+ * @link src/lib/utils/entityName.ts - normalizeEntityName
+ */
+
+import type { AnalysisData, DataConfidence, EntityConsensus } from '../../src/lib/schemas/research';
+import { normalizeEntityName } from '../../src/lib/utils/entityName';
+
+// Fewer models than this cannot agree on anything
+export const minConsensusModels = 2;
+
+type AnalyzedProduct = NonNullable<AnalysisData['entity']['products']>[number];
+type AnalyzedCompetitor = NonNullable<AnalyzedProduct['competitors']>[number];
+
+/**
+ * Analysis returned by one model
+ */
+export interface ModelAnalysis {
+	model: string;
+	data: AnalysisData;
+}
+
+/**
+ * Get the models configured for consensus analyses
+ *
+ * @returns Models from LLM_CONSENSUS_MODELS, without duplicates; empty when unset
+ */
+export function getConsensusModels(): string[] {
+	const models = (process.env.LLM_CONSENSUS_MODELS ?? '')
+		.split(',')
+		.map((model) => model.trim())
+		.filter(Boolean);
+	return [...new Set(models)];
+}
+
+/**
+ * Derive a confidence level from the share of models that agree
+ *
+ * @param agreement Number of models that proposed the entity
+ * @param total Number of models that returned an analysis
+ * @returns 'high' when all of several models agree, 'medium' for a majority, else 'low'
+ */
+export function getConsensusConfidence(agreement: number, total: number): DataConfidence {
+	if (total > 1 && agreement === total) return 'high';
+	if (agreement * 2 > total) return 'medium';
+	return 'low';
+}
+
+/**
+ * Build the consensus record of an entity and apply its confidence to the details
+ */
+function withConsensus<T extends AnalyzedProduct | AnalyzedCompetitor>(
+	entity: T,
+	models: Set<string>,
+	order: string[]
+): T {
+	const agreement = models.size;
+	const consensus: EntityConsensus = {
+		models: order.filter((model) => models.has(model)),
+		agreement,
+		total: order.length,
+		data_confidence: getConsensusConfidence(agreement, order.length)
+	};
+
+	return {
+		...entity,
+		...(entity.details && {
+			details: entity.details.map((detail) => ({
+				...detail,
+				data_confidence: consensus.data_confidence
+			}))
+		}),
+		consensus
+	};
+}
+
+/**
+ * Merge the analyses of several models
+ *
+ * @param analyses Successful analyses, in the configured model order
+ * @returns The company of the first analysis with the merged products and
+ *   competitors; _meta is left to the caller
+ * @throws Error when there are no analyses
+ */
+export function mergeConsensusAnalyses(analyses: ModelAnalysis[]): AnalysisData['entity'] {
+	if (analyses.length === 0) {
+		throw new Error('No analyses to merge');
+	}
+
+	const order = analyses.map(({ model }) => model);
+	const products = new Map<
+		string,
+		{ product: AnalyzedProduct; models: Set<string>; competitors: Map<string, AnalyzedCompetitor> }
+	>();
+	const competitorModels = new Map<string, Set<string>>();
+
+	for (const { model, data } of analyses) {
+		for (const product of data.entity.products ?? []) {
+			const key = normalizeEntityName(product.name_brand ?? '');
+			if (!key) continue;
+
+			const merged = products.get(key) ?? {
+				product,
+				models: new Set<string>(),
+				competitors: new Map<string, AnalyzedCompetitor>()
+			};
+			merged.models.add(model);
+			products.set(key, merged);
+
+			for (const competitor of product.competitors ?? []) {
+				const competitorKey = normalizeEntityName(competitor.name_brand ?? '');
+				if (!competitorKey) continue;
+
+				competitorModels.set(
+					competitorKey,
+					(competitorModels.get(competitorKey) ?? new Set<string>()).add(model)
+				);
+				if (!merged.competitors.has(competitorKey)) {
+					merged.competitors.set(competitorKey, competitor);
+				}
+			}
+		}
+	}
+
+	const byAgreement = (a: { consensus?: EntityConsensus }, b: { consensus?: EntityConsensus }) =>
+		(b.consensus?.agreement ?? 0) - (a.consensus?.agreement ?? 0);
+
+	const mergedProducts = [...products.values()]
+		.map(({ product, models, competitors }) =>
+			withConsensus(
+				{
+					...product,
+					competitors: [...competitors.entries()]
+						.map(([key, competitor]) =>
+							withConsensus(competitor, competitorModels.get(key) ?? new Set(), order)
+						)
+						.sort(byAgreement)
+				},
+				models,
+				order
+			)
+		)
+		.sort(byAgreement);
+
+	return { ...analyses[0].data.entity, products: mergedProducts };
+}
@@ -16,6 +16,8 @@ import { z } from 'zod';
 import {
 	// Import type definitions
 	type AnalysisData,
+	type EntityConsensus,
+	type EntityResolution,
 	type EstimatedRange,
 	type EntityDetail,
 
@@ -172,6 +174,30 @@ export const confidence = {
 	}
 };
 
+/**
+ * Zod schema of the AnalysisData structure, used by validate.analysisData and
+ * the structure rule of the validation engine
+ */
+export const analysisDataSchema = z.object({
+	entity: z.object({
+		id: z.string().nullable(),
+		name_brand: z.string(),
+		details: z.array(entityDetailSchema).optional(),
+		products: z.array(recursiveProductEntitySchema).optional()
+	}),
+	_meta: z
+		.object({
+			cost: z
+				.object({
+					totalTokens: z.number(),
+					costUSD: z.number()
+				})
+				.optional(),
+			validation: z.string().optional()
+		})
+		.optional()
+});
+
 /**
  * Data validation utilities
  */
@@ -209,27 +235,6 @@ export const validate = {
 	 * Returns { isValid: boolean, errors?: string[] }
 	 */
 	analysisData: (data: unknown): { isValid: boolean; errors?: string[] } => {
-		// We'll create a Zod schema based on the AnalysisData type
-		const analysisDataSchema = z.object({
-			entity: z.object({
-				id: z.string().nullable(),
-				name_brand: z.string(),
-				details: z.array(entityDetailSchema).optional(),
-				products: z.array(recursiveProductEntitySchema).optional()
-			}),
-			_meta: z
-				.object({
-					cost: z
-						.object({
-							totalTokens: z.number(),
-							costUSD: z.number()
-						})
-						.optional(),
-					validation: z.string().optional()
-				})
-				.optional()
-		});
-
 		try {
 			analysisDataSchema.parse(data);
 			return { isValid: true };
@@ -559,11 +564,17 @@ export function repairAnalysisData(data: unknown, debug = false): AnalysisData {
 
 /**
  * Maps analysis data to database entity detail records with snake_case properties
+ *
+ * Product and competitor details are included by default. Pass
+ * includeProducts: false to keep only the analyzed entity's own details, e.g.
+ * when persisting, since products and competitors are separate entities.
  */
 export function mapAnalysisToEntityDetails(
 	analysisData: AnalysisData,
-	entityId: string
+	entityId: string,
+	options: { includeProducts?: boolean } = {}
 ): Array<Record<string, unknown>> {
+	const includeProducts = options.includeProducts ?? true;
 	const records: Array<Record<string, unknown>> = [];
 	const { entity } = analysisData;
 
@@ -585,7 +596,7 @@ export function mapAnalysisToEntityDetails(
 	}
 
 	// Process products and competitors
-	if (entity.products) {
+	if (includeProducts && entity.products) {
 		entity.products.forEach((product) => {
 			// Add product details
 			if (product.details) {
@@ -784,10 +795,19 @@ function extractCompetitors(products: RecursiveProductEntity[]): Competitor[] {
 				}
 			}
 
+			// Resolution is attached by the analysis endpoint; see sharedObjects/entityResolution.ts
+			const resolution = (competitor as { resolution?: EntityResolution }).resolution;
+			// Set by the consensus strategy; see sharedUtils/consensus.ts
+			const consensus = (competitor as { consensus?: EntityConsensus }).consensus;
+
 			competitorMap.set(name, {
 				name,
 				marketShare,
-				primaryCompetition: `Competitor for ${product.name_brand || 'this product'}`
+				primaryCompetition: `Competitor for ${product.name_brand || 'this product'}`,
+				slug: resolution?.status === 'matched' ? (competitor.slug ?? null) : null,
+				matchScore: resolution?.score ?? null,
+				needsReview: resolution?.needs_review ?? false,
+				...(consensus && { proposedBy: consensus.models, modelCount: consensus.total })
 			});
 		}
 	}
@@ -5,12 +5,14 @@
  * This module serves as the single source of truth for JSON schema conversions,
  * ensuring consistent structure across API calls, validation, and UI rendering.
  *
- * All schema definitions in this file directly import and use enum values from
- * the Zod schema files, eliminating duplication and ensuring that changes
- * to the schema definitions are automatically reflected in API calls.
+ * Tool parameters are defined as Zod schemas built from the fields and enums of
+ * the central Zod schema files and converted to JSON Schema (zodJsonSchema.ts),
+ * so changes to the schema definitions are automatically reflected in API calls.
+ * Responses are validated with the same Zod schemas.
  *
  * @link src/lib/schemas/research/index.ts - Central schema index for all type definitions
  * @link data-tools/openai.ts - Schema consumption for OpenAI API calls
+ * @link data-tools/sharedUtils/zodJsonSchema.ts - Zod to JSON Schema conversion
  * @link src/routes/newcompanylookup/+page.svelte - UI component using transformed data
  *
  * IMPORTANT: The schema structure MUST follow the entity-based approach defined in
@@ -18,35 +20,27 @@
  * not as separate objects. Product and competitor data should be properly nested.
  */
 
-import * as TJS from 'typescript-json-schema';
-import { resolve } from 'path';
+import { z } from 'zod';
 import type { ChatCompletionCreateParams } from 'openai';
 
-// Import types from central schema index
-// Note: AnalysisData imported for documentation purposes, showing what structure we're generating schemas for
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-import type { AnalysisData } from '../../src/lib/schemas/research';
-
-// Import enum values directly from Zod schema files
-// These are needed as runtime values, not just types
+// Import Zod schemas from the central schema files; tool parameters are generated from them
 import {
 	typeResearchDetailEnum,
-	dataConfidenceEnum,
-	sourceTypeEnum
+	type TypeResearchDetail
 } from '../../src/lib/schemas/research/detail_enums.schema';
-import { statusOperatingEnum } from '../../src/lib/schemas/research/entity.schema';
-import { urlTypeEnum } from '../../src/lib/schemas/research/url.schema';
-import { identifierTypeEnum } from '../../src/lib/schemas/research/unique_id.schema';
-
-/**
- * Type for standard JSON schema definition
- * Used as the return type for schema generation functions
- */
-type JsonSchema = Record<string, unknown>;
+import { entityDetailSchema } from '../../src/lib/schemas/research/detail.schema';
+import {
+	companyEntitySchema,
+	productEntitySchema
+} from '../../src/lib/schemas/research/entity.schema';
+import { entityUrlSchema, urlTypeEnum } from '../../src/lib/schemas/research/url.schema';
+import {
+	entityIdentifierSchema,
+	identifierTypeEnum
+} from '../../src/lib/schemas/research/unique_id.schema';
 
-// Type definition for TJS.Definition - Not directly used but kept for documentation
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-type SchemaDefinition = TJS.Definition & Record<string, unknown>;
+// Zod to JSON Schema conversion (standard and OpenAI strict mode)
+import { zodToJsonSchema, type JsonSchema, type JsonSchemaOptions } from './zodJsonSchema';
 
 /**
  * OpenAI function definition type
@@ -55,294 +49,353 @@ type SchemaDefinition = TJS.Definition & Record<string, unknown>;
  */
 type FunctionDefinition = NonNullable<ChatCompletionCreateParams['functions']>[number];
 
-// Cache the generated schemas for performance
-const schemaCache = new Map<string, JsonSchema>();
+// Cache the generated schemas per Zod schema and mode
+const schemaCache = new WeakMap<z.ZodTypeAny, Map<boolean, JsonSchema>>();
+
+/**
+ * Whether tool schemas use OpenAI strict structured outputs by default (LLM_STRICT_SCHEMA)
+ */
+function isStrictSchemaDefault(): boolean {
+	return typeof process !== 'undefined' && process.env?.LLM_STRICT_SCHEMA === 'true';
+}
 
 /**
- * Generate a JSON schema from a TypeScript interface
+ * Generate a JSON schema from a Zod schema
  *
- * Uses typescript-json-schema to generate a schema based on the TypeScript interface name.
- * Caches results for performance and uses TypeScript reflection to ensure accuracy.
+ * Converts the Zod schema with zodToJsonSchema and caches the result per schema
+ * and mode. Validate responses with the same Zod schema (safeParse) so the
+ * schema sent to the model and the validation cannot drift.
  *
- * @param {string} interfaceName - The name of the TypeScript interface to convert to JSON schema
- * @returns {JsonSchema} The generated JSON schema
+ * @param schema Zod schema of the tool parameters
+ * @param options strict: generate for OpenAI strict structured outputs (default: LLM_STRICT_SCHEMA)
+ * @returns The generated JSON schema
  */
-export function generateSchema(interfaceName: string): JsonSchema {
-	// Check cache first
-	if (schemaCache.has(interfaceName)) {
-		return schemaCache.get(interfaceName)!;
+export function generateSchema(schema: z.ZodTypeAny, options: JsonSchemaOptions = {}): JsonSchema {
+	const strict = options.strict ?? isStrictSchemaDefault();
+	const cached = schemaCache.get(schema)?.get(strict);
+	if (cached) {
+		return cached;
 	}
 
 	// Generate schema on cache miss
-	const program = TJS.getProgramFromFiles([resolve(__dirname, './types.ts')]);
-	const schema = TJS.generateSchema(program, interfaceName, {
-		required: true,
-		noExtraProps: true
-	}) as JsonSchema;
-
-	if (!schema) {
-		throw new Error(`Could not generate schema for ${interfaceName}`);
+	const json = zodToJsonSchema(schema, { strict });
+	if (!schemaCache.has(schema)) {
+		schemaCache.set(schema, new Map());
 	}
+	schemaCache.get(schema)!.set(strict, json);
+	return json;
+}
 
-	// Cache result
-	schemaCache.set(interfaceName, schema as JsonSchema);
-	return schema as JsonSchema;
+/**
+ * Build a function definition from a Zod parameter schema
+ * @private
+ */
+function createFunctionDefinition(
+	name: string,
+	description: string,
+	schema: z.ZodTypeAny,
+	options: JsonSchemaOptions
+): FunctionDefinition {
+	const strict = options.strict ?? isStrictSchemaDefault();
+	return {
+		name,
+		description,
+		parameters: generateSchema(schema, { strict }),
+		...(strict && { strict })
+	};
 }
 
+// Detail types requested in the multi-step product and company profile calls
+const productDetailTypes = [
+	'market_share_estimate',
+	'market_share_min',
+	'market_share_max',
+	'market_share_exact'
+] as const satisfies readonly TypeResearchDetail[];
+const companyProfileDetailTypes = [
+	'market_size_usd',
+	'market_growth_rate',
+	'employee_count_exact',
+	'employee_count_estimate',
+	'employee_count_min',
+	'employee_count_max',
+	'customer_count_estimate',
+	'active_users_estimate'
+] as const satisfies readonly TypeResearchDetail[];
+
 /**
- * Creates a re-usable entity detail schema object
+ * Creates a re-usable entity detail schema
  * This centralizes the definition to avoid duplication in different function schemas
  *
- * @returns Standard entity detail schema object
+ * @param detailType Schema of the allowed type_research_detail values
+ * @returns Entity detail schema with the fields the LLM fills in
  * @private
  */
-function createEntityDetailSchema() {
-	return {
-		type: 'object',
-		properties: {
-			type_research_detail: {
-				type: 'string',
-				description: 'Type of research detail',
-				enum: typeResearchDetailEnum.options
-			},
-			data_confidence: {
-				type: 'string',
-				enum: dataConfidenceEnum.options,
-				description: 'Confidence level in this detail'
-			},
-			source_type: {
-				type: 'string',
-				enum: sourceTypeEnum.options,
-				description: 'Source type for this detail'
-			},
-			as_of_date: {
-				type: 'string',
-				format: 'date-time',
-				description:
-					'Date this detail was recorded/reported in ISO 8601 format (YYYY-MM-DDTHH:MM:SSZ)'
-			},
-			discrete_value: {
-				type: 'number',
-				description: 'Numeric value for this detail (if applicable)'
-			},
-			text_value: {
-				type: 'string',
-				description: 'Text value for this detail (if applicable)'
-			}
-		},
-		required: ['type_research_detail', 'data_confidence', 'source_type']
-	};
+function createEntityDetailSchema<T extends [TypeResearchDetail, ...TypeResearchDetail[]]>(
+	detailType: z.ZodEnum<T>
+) {
+	return z.object({
+		type_research_detail: detailType.describe('Type of research detail'),
+		data_confidence: entityDetailSchema.shape.data_confidence.describe(
+			'Confidence level in this detail'
+		),
+		source_type: entityDetailSchema.shape.source_type.describe('Source type for this detail'),
+		as_of_date: entityDetailSchema.shape.as_of_date.describe(
+			'Date this detail was recorded/reported in ISO 8601 format (YYYY-MM-DDTHH:MM:SSZ)'
+		),
+		discrete_value: entityDetailSchema.shape.discrete_value.describe(
+			'Numeric value for this detail (if applicable)'
+		),
+		text_value: entityDetailSchema.shape.text_value.describe(
+			'Text value for this detail (if applicable)'
+		)
+	});
 }
 
+/**
+ * Entity ID field; the LLM always sends null, ids are attached by entity resolution
+ * @private
+ */
+function createEntityIdSchema(description: string) {
+	return companyEntitySchema.shape.id.optional().describe(description);
+}
+
+const analysisDetailSchema = createEntityDetailSchema(typeResearchDetailEnum);
+const productDetailSchema = createEntityDetailSchema(
+	typeResearchDetailEnum.extract(productDetailTypes)
+);
+const companyProfileDetailSchema = createEntityDetailSchema(
+	typeResearchDetailEnum.extract(companyProfileDetailTypes)
+);
+
+/**
+ * Parameters of analyze_company: the company with its products and competitors
+ *
+ * Follows the entity-based nesting of the Zod schemas (entity > products > competitors).
+ */
+export const companyAnalysisSchema = z.object({
+	entity: z
+		.object({
+			id: createEntityIdSchema('Entity ID (use null for new entities)'),
+			name_brand: companyEntitySchema.shape.name_brand.describe(
+				'The common trade name of the company'
+			),
+			name_legal: companyEntitySchema.shape.name_legal.describe(
+				'The formal legal name of the company (only provide if confident)'
+			),
+			date_year_established: companyEntitySchema.shape.date_year_established.describe(
+				'Year when the company was established (e.g., 1999)'
+			),
+			status_operating: companyEntitySchema.shape.status_operating.describe(
+				'Current operating status of the company'
+			),
+			details: z
+				.array(analysisDetailSchema)
+				.optional()
+				.describe('Key-value details about the company following our entity detail schema'),
+			urls: z
+				.array(
+					entityUrlSchema.extend({
+						url_type: urlTypeEnum.describe('Type of URL'),
+						url: entityUrlSchema.shape.url.describe('The actual URL'),
+						is_primary: entityUrlSchema.shape.is_primary.describe(
+							'Whether this is the primary URL of this type'
+						)
+					})
+				)
+				.optional()
+				.describe('URLs associated with the company'),
+			identifiers: z
+				.array(
+					entityIdentifierSchema.extend({
+						id_type: identifierTypeEnum.describe('Type of identifier'),
+						unique_id: entityIdentifierSchema.shape.unique_id.describe('The identifier value')
+					})
+				)
+				.optional()
+				.describe('Unique identifiers for this company'),
+			products: z
+				.array(
+					z.object({
+						id: createEntityIdSchema('Product ID (use null for new entities)'),
+						name_brand: productEntitySchema.shape.name_brand.describe('Product name'),
+						date_year_established: productEntitySchema.shape.date_year_established.describe(
+							'Year when the product was launched'
+						),
+						details: z
+							.array(analysisDetailSchema)
+							.optional()
+							.describe('Details about this product following our entity detail schema'),
+						competitors: z
+							.array(
+								z.object({
+									id: createEntityIdSchema('Competitor ID (use null for new entities)'),
+									name_brand: productEntitySchema.shape.name_brand.describe('Competitor name'),
+									details: z
+										.array(analysisDetailSchema)
+										.optional()
+										.describe('Details about this competitor')
+								})
+							)
+							.optional()
+							.describe('Competing products and companies')
+					})
+				)
+				.describe('Products offered by this company')
+		})
+		.describe('Company entity information using the correct schema structure')
+});
+
+/**
+ * Parameters of get_basic_company_info (multi-step analysis, step 1)
+ */
+export const basicCompanyInfoSchema = z.object({
+	company_name: z.string().describe('The name of the company'),
+	main_products: z
+		.array(z.string())
+		.describe('List of main products or services offered by the company'),
+	main_competitors: z.array(z.string()).describe('List of primary competitors to this company')
+});
+
+/**
+ * Parameters of analyze_product (multi-step analysis, one call per product)
+ */
+export const productAnalysisSchema = z.object({
+	product: z
+		.object({
+			name_brand: productEntitySchema.shape.name_brand.describe('Product name'),
+			date_year_established: productEntitySchema.shape.date_year_established.describe(
+				'Year when the product was launched'
+			),
+			details: z
+				.array(productDetailSchema)
+				.describe(
+					'Market share details; put a short positioning summary in the text_value of market_share_estimate'
+				),
+			competitors: z
+				.array(
+					z.object({
+						name_brand: productEntitySchema.shape.name_brand.describe('Competing product name'),
+						company: z
+							.object({
+								name_brand: companyEntitySchema.shape.name_brand.describe('Company name')
+							})
+							.optional()
+							.describe('Company offering the competing product'),
+						details: z
+							.array(productDetailSchema)
+							.optional()
+							.describe('Market share details of the competing product')
+					})
+				)
+				.describe('Competing products')
+		})
+		.describe('The analyzed product')
+});
+
+/**
+ * Parameters of analyze_company_profile (multi-step analysis, last step)
+ */
+export const companyProfileSchema = z.object({
+	entity: z
+		.object({
+			name_legal: companyEntitySchema.shape.name_legal.describe(
+				'The formal legal name of the company (only provide if confident)'
+			),
+			date_year_established: companyEntitySchema.shape.date_year_established.describe(
+				'Year when the company was established (e.g., 1999)'
+			),
+			status_operating: companyEntitySchema.shape.status_operating.describe(
+				'Current operating status of the company'
+			),
+			details: z
+				.array(companyProfileDetailSchema)
+				.describe('Market size, employee and customer details')
+		})
+		.describe('Company-level information')
+});
+
+// Response types derived from the parameter schemas
+export type CompanyAnalysis = z.infer<typeof companyAnalysisSchema>;
+export type BasicCompanyInfo = z.infer<typeof basicCompanyInfoSchema>;
+export type ProductAnalysis = z.infer<typeof productAnalysisSchema>;
+export type CompanyProfile = z.infer<typeof companyProfileSchema>;
+
 /**
  * Creates the primary OpenAI function definition for company analysis
  *
- * This function defines the JSON schema that OpenAI will use to structure
- * its responses for competitive analysis. The schema:
- * 1. Directly uses enum values from the Zod schemas
+ * The parameters are generated from companyAnalysisSchema, which:
+ * 1. Reuses the fields and enums of the Zod entity and detail schemas
  * 2. Follows the entity-based nesting pattern (entity > products > competitors)
- * 3. Includes all required fields and proper validation rules
+ * 3. Validates the response (safeParse in callOpenAIWithSchema)
  *
  * The returned schema is consumed by:
  * - data-tools/openai.ts - For function calling with the OpenAI API
- * - src/routes/api/rest/v1/company/competitive-analysis/+server.ts - For validation
- * - src/routes/newcompanylookup/+page.svelte - For data transformation
+ * - data-tools/companyAnalysis.ts - For writing example schemas
  *
+ * @param options strict: OpenAI strict structured outputs (default: LLM_STRICT_SCHEMA)
  * @returns {FunctionDefinition} The OpenAI function definition with parameters
  */
-export function createSimplifiedAnalysisFunction(): FunctionDefinition {
-	// Re-use the entity detail schema definition
-	const entityDetailSchema = createEntityDetailSchema();
-
-	// Return the function schema that matches our entity-based data structure
-	return {
-		name: 'analyze_company',
-		description:
-			'Generate a structured financial and competitive analysis of a company following entity-detail schema',
-		parameters: {
-			type: 'object',
-			properties: {
-				entity: {
-					type: 'object',
-					description: 'Company entity information using the correct schema structure',
-					properties: {
-						id: {
-							type: 'string',
-							format: 'uuid',
-							description: 'Entity ID (use null for new entities)',
-							nullable: true
-						},
-						name_brand: {
-							type: 'string',
-							description: 'The common trade name of the company'
-						},
-						name_legal: {
-							type: 'string',
-							description: 'The formal legal name of the company (only provide if confident)'
-						},
-						date_year_established: {
-							type: 'integer',
-							description: 'Year when the company was established (e.g., 1999)'
-						},
-						status_operating: {
-							type: 'string',
-							enum: statusOperatingEnum.options,
-							description: 'Current operating status of the company'
-						},
-
-						details: {
-							type: 'array',
-							description: 'Key-value details about the company following our entity detail schema',
-							items: entityDetailSchema
-						},
-
-						urls: {
-							type: 'array',
-							description: 'URLs associated with the company',
-							items: {
-								type: 'object',
-								properties: {
-									url_type: {
-										type: 'string',
-										description: 'Type of URL',
-										enum: urlTypeEnum.options
-									},
-									url: {
-										type: 'string',
-										description: 'The actual URL'
-									},
-									is_primary: {
-										type: 'boolean',
-										description: 'Whether this is the primary URL of this type'
-									}
-								},
-								required: ['url_type', 'url']
-							}
-						},
-
-						identifiers: {
-							type: 'array',
-							description: 'Unique identifiers for this company',
-							items: {
-								type: 'object',
-								properties: {
-									id_type: {
-										type: 'string',
-										description: 'Type of identifier',
-										enum: identifierTypeEnum.options
-									},
-									unique_id: {
-										type: 'string',
-										description: 'The identifier value'
-									}
-								},
-								required: ['id_type', 'unique_id']
-							}
-						},
-
-						products: {
-							type: 'array',
-							description: 'Products offered by this company',
-							items: {
-								type: 'object',
-								properties: {
-									id: {
-										type: 'string',
-										format: 'uuid',
-										description: 'Product ID (use null for new entities)',
-										nullable: true
-									},
-									name_brand: {
-										type: 'string',
-										description: 'Product name'
-									},
-									date_year_established: {
-										type: 'integer',
-										description: 'Year when the product was launched'
-									},
-									details: {
-										type: 'array',
-										description: 'Details about this product following our entity detail schema',
-										items: entityDetailSchema
-									},
-									competitors: {
-										type: 'array',
-										description: 'Competing products and companies',
-										items: {
-											type: 'object',
-											properties: {
-												id: {
-													type: 'string',
-													format: 'uuid',
-													description: 'Competitor ID (use null for new entities)',
-													nullable: true
-												},
-												name_brand: {
-													type: 'string',
-													description: 'Competitor name'
-												},
-												details: {
-													type: 'array',
-													description: 'Details about this competitor',
-													items: entityDetailSchema
-												}
-											},
-											required: ['name_brand']
-										}
-									}
-								},
-								required: ['name_brand']
-							}
-						}
-					},
-					required: ['name_brand', 'products']
-				},
-				_meta: {
-					type: 'object',
-					description: 'Optional metadata about the analysis',
-					properties: {
-						// No requirements for metadata since it's managed by the API
-					}
-				}
-			},
-			required: ['entity']
-		}
-	};
+export function createSimplifiedAnalysisFunction(
+	options: JsonSchemaOptions = {}
+): FunctionDefinition {
+	return createFunctionDefinition(
+		'analyze_company',
+		'Generate a structured financial and competitive analysis of a company following entity-detail schema',
+		companyAnalysisSchema,
+		options
+	);
 }
 
 /**
  * Creates a function definition for retrieving basic company information
  * This is a simplified schema used in the first step of the multi-step analysis
  *
+ * @param options strict: OpenAI strict structured outputs (default: LLM_STRICT_SCHEMA)
  * @returns {FunctionDefinition} The OpenAI function definition with parameters
  */
-export function createBasicCompanyInfoFunction(): FunctionDefinition {
-	return {
-		name: 'get_basic_company_info',
-		description: 'Return basic information about a company, its products, and competitors',
-		parameters: {
-			type: 'object',
-			properties: {
-				company_name: {
-					type: 'string',
-					description: 'The name of the company'
-				},
-				main_products: {
-					type: 'array',
-					description: 'List of main products or services offered by the company',
-					items: {
-						type: 'string'
-					}
-				},
-				main_competitors: {
-					type: 'array',
-					description: 'List of primary competitors to this company',
-					items: {
-						type: 'string'
-					}
-				}
-			},
-			required: ['company_name', 'main_products', 'main_competitors']
-		}
-	};
+export function createBasicCompanyInfoFunction(
+	options: JsonSchemaOptions = {}
+): FunctionDefinition {
+	return createFunctionDefinition(
+		'get_basic_company_info',
+		'Return basic information about a company, its products, and competitors',
+		basicCompanyInfoSchema,
+		options
+	);
+}
+
+/**
+ * Creates a function definition for analyzing a single product
+ * Used in the second step of the multi-step analysis, once per product
+ *
+ * Details are limited to market share types; the product's positioning is
+ * returned as the text_value of its market_share_estimate detail.
+ *
+ * @param options strict: OpenAI strict structured outputs (default: LLM_STRICT_SCHEMA)
+ * @returns {FunctionDefinition} The OpenAI function definition with parameters
+ */
+export function createProductAnalysisFunction(options: JsonSchemaOptions = {}): FunctionDefinition {
+	return createFunctionDefinition(
+		'analyze_product',
+		'Generate market share, positioning and competitor details for one product of a company',
+		productAnalysisSchema,
+		options
+	);
+}
+
+/**
+ * Creates a function definition for company-level metrics
+ * Used in the last step of the multi-step analysis
+ *
+ * @param options strict: OpenAI strict structured outputs (default: LLM_STRICT_SCHEMA)
+ * @returns {FunctionDefinition} The OpenAI function definition with parameters
+ */
+export function createCompanyProfileFunction(options: JsonSchemaOptions = {}): FunctionDefinition {
+	return createFunctionDefinition(
+		'analyze_company_profile',
+		'Return market size, employee and customer metrics for a company',
+		companyProfileSchema,
+		options
+	);
 }
@@ -0,0 +1,98 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { stripOmittedNulls, zodToJsonSchema, type JsonSchema } from './zodJsonSchema';
+import { companyAnalysisSchema, createSimplifiedAnalysisFunction } from './schemaToJson';
+
+const schema = z.object({
+	id: z.string().uuid().nullable(),
+	name: z.string().describe('Name'),
+	status: z.enum(['Active', 'Closed']).optional(),
+	founded: z.string().datetime().optional(),
+	tags: z.array(z.object({ label: z.string(), primary: z.boolean().optional() }))
+});
+
+/**
+ * Collect every object schema in a JSON Schema
+ */
+function collectObjects(json: JsonSchema): JsonSchema[] {
+	const children = [
+		...Object.values((json.properties ?? {}) as Record<string, JsonSchema>),
+		...(json.items ? [json.items as JsonSchema] : []),
+		...((json.anyOf ?? []) as JsonSchema[])
+	];
+	return [...(json.type === 'object' ? [json] : []), ...children.flatMap(collectObjects)];
+}
+
+describe('zodToJsonSchema', () => {
+	test('leaves optional fields out of required and keeps formats', () => {
+		expect(zodToJsonSchema(schema)).toEqual({
+			type: 'object',
+			properties: {
+				id: { type: ['string', 'null'], format: 'uuid' },
+				name: { type: 'string', description: 'Name' },
+				status: { type: 'string', enum: ['Active', 'Closed'] },
+				founded: { type: 'string', format: 'date-time' },
+				tags: {
+					type: 'array',
+					items: {
+						type: 'object',
+						properties: { label: { type: 'string' }, primary: { type: 'boolean' } },
+						required: ['label']
+					}
+				}
+			},
+			required: ['id', 'name', 'tags']
+		});
+	});
+
+	test('makes every property required and nullable in strict mode', () => {
+		const json = zodToJsonSchema(schema, { strict: true });
+
+		expect(json.required).toEqual(['id', 'name', 'status', 'founded', 'tags']);
+		expect(json.additionalProperties).toBe(false);
+		expect((json.properties as Record<string, JsonSchema>).status).toEqual({
+			type: ['string', 'null'],
+			enum: ['Active', 'Closed', null]
+		});
+		expect(JSON.stringify(json)).not.toContain('"format"');
+	});
+
+	test('generates a strict analysis schema that closes every object', () => {
+		const { parameters, strict } = createSimplifiedAnalysisFunction({ strict: true });
+
+		expect(strict).toBe(true);
+		for (const object of collectObjects(parameters)) {
+			expect(object.additionalProperties).toBe(false);
+			expect(object.required).toEqual(Object.keys(object.properties as object));
+		}
+		expect(() => zodToJsonSchema(z.object({ data: z.any() }), { strict: true })).toThrow(
+			'Unsupported Zod type'
+		);
+	});
+});
+
+describe('stripOmittedNulls', () => {
+	test('removes nulls of optional fields so the response passes the Zod schema', () => {
+		const response = {
+			entity: {
+				id: null,
+				name_brand: 'Stripe',
+				name_legal: null,
+				status_operating: null,
+				details: null,
+				products: [{ id: null, name_brand: 'Payments', competitors: null }]
+			}
+		};
+
+		expect(companyAnalysisSchema.safeParse(response).success).toBe(false);
+		const stripped = stripOmittedNulls(companyAnalysisSchema, response);
+		expect(stripped).toEqual({
+			entity: {
+				id: null,
+				name_brand: 'Stripe',
+				products: [{ id: null, name_brand: 'Payments' }]
+			}
+		});
+		expect(companyAnalysisSchema.safeParse(stripped).success).toBe(true);
+	});
+});
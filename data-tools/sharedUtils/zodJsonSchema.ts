@@ -0,0 +1,221 @@
+/**
+ * zodJsonSchema.ts
+ *
+ * Converts Zod schemas to the JSON Schema used for LLM tool parameters.
+ *
+ * Tool schemas are built from the Zod schemas in src/lib/schemas/research, and
+ * responses are validated with the same Zod schema, so the schema sent to the
+ * model and the validation of its answer cannot drift apart.
+ *
+ * Two output modes:
+ * - standard: Optional fields are left out of `required`; string formats
+ *   (uuid, date-time, uri, email) are included
+ * - strict: OpenAI structured outputs. Every object lists all its properties as
+ *   required and sets additionalProperties: false; optional fields accept null
+ *   instead, and unsupported keywords (format) are left out. Use
+ *   stripOmittedNulls before validating a strict response.
+ *
+ * Only the Zod types used by the research schemas are supported; anything else
+ * throws so that an unsupported schema fails at startup rather than at the model.
+ *
+ * @link data-tools/sharedUtils/schemaToJson.ts - Tool definitions built with this module
+ * @link https://platform.openai.com/docs/guides/structured-outputs - Strict mode rules
+ */
+
+import { z } from 'zod';
+
+/**
+ * JSON Schema object
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Options for the conversion
+ */
+export interface JsonSchemaOptions {
+	// Generate a schema for OpenAI strict structured outputs
+	strict?: boolean;
+}
+
+/**
+ * Unwrap optional, nullable, default, lazy and effects wrappers
+ */
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+	if (
+		schema instanceof z.ZodOptional ||
+		schema instanceof z.ZodNullable ||
+		schema instanceof z.ZodDefault
+	) {
+		return unwrapSchema(schema._def.innerType);
+	}
+	if (schema instanceof z.ZodLazy) return unwrapSchema(schema.schema);
+	if (schema instanceof z.ZodEffects) return unwrapSchema(schema.innerType());
+	return schema;
+}
+
+/**
+ * Allow null in addition to the values of a schema
+ */
+function withNull(json: JsonSchema): JsonSchema {
+	const { description, ...schema } = json;
+	const type = schema.type;
+
+	const types = Array.isArray(type) ? type : [type];
+	if (types.includes('null')) return json;
+	if (typeof type === 'string' && type !== 'object' && type !== 'array') {
+		return {
+			...json,
+			type: [type, 'null'],
+			...(Array.isArray(schema.enum) && { enum: [...schema.enum, null] })
+		};
+	}
+	return { anyOf: [schema, { type: 'null' }], ...(description ? { description } : {}) };
+}
+
+/**
+ * JSON Schema format of a Zod string, from its checks
+ */
+function getStringFormat(schema: z.ZodString): string | undefined {
+	for (const check of schema._def.checks) {
+		switch (check.kind) {
+			case 'uuid':
+				return 'uuid';
+			case 'datetime':
+				return 'date-time';
+			case 'date':
+				return 'date';
+			case 'url':
+				return 'uri';
+			case 'email':
+				return 'email';
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Convert one schema, keeping the description of any wrapper
+ */
+function convertSchema(schema: z.ZodTypeAny, strict: boolean): JsonSchema {
+	const json = convertType(schema, strict);
+	return schema.description ? { ...json, description: schema.description } : json;
+}
+
+/**
+ * Convert a schema by type
+ */
+function convertType(schema: z.ZodTypeAny, strict: boolean): JsonSchema {
+	if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+		// Optionality is expressed by the parent object
+		return convertSchema(schema._def.innerType, strict);
+	}
+	if (schema instanceof z.ZodNullable) {
+		return withNull(convertSchema(schema._def.innerType, strict));
+	}
+	if (schema instanceof z.ZodLazy) return convertSchema(schema.schema, strict);
+	if (schema instanceof z.ZodEffects) return convertSchema(schema.innerType(), strict);
+
+	if (schema instanceof z.ZodString) {
+		const format = strict ? undefined : getStringFormat(schema);
+		return { type: 'string', ...(format && { format }) };
+	}
+	if (schema instanceof z.ZodNumber) {
+		return { type: schema.isInt ? 'integer' : 'number' };
+	}
+	if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+	if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options] };
+	if (schema instanceof z.ZodLiteral) {
+		return { type: typeof schema.value, enum: [schema.value] };
+	}
+	if (schema instanceof z.ZodArray) {
+		return { type: 'array', items: convertSchema(schema.element, strict) };
+	}
+
+	if (schema instanceof z.ZodObject) {
+		const properties: Record<string, JsonSchema> = {};
+		const required: string[] = [];
+
+		for (const [key, field] of Object.entries(schema.shape as z.ZodRawShape)) {
+			const optional = field.isOptional();
+			const property = convertSchema(field, strict);
+
+			if (strict) {
+				properties[key] = optional ? withNull(property) : property;
+				required.push(key);
+			} else {
+				properties[key] = property;
+				if (!optional) required.push(key);
+			}
+		}
+
+		return {
+			type: 'object',
+			properties,
+			...((strict || required.length > 0) && { required }),
+			...(strict && { additionalProperties: false })
+		};
+	}
+
+	if (!strict && (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown)) {
+		return {};
+	}
+
+	throw new Error(
+		`Unsupported Zod type for ${strict ? 'strict ' : ''}JSON Schema: ${schema._def.typeName}`
+	);
+}
+
+/**
+ * Convert a Zod schema to JSON Schema for tool parameters
+ *
+ * @param schema Zod schema; must be an object for tool parameters
+ * @param options strict: generate for OpenAI strict structured outputs
+ * @returns JSON Schema
+ * @throws Error for Zod types that cannot be expressed (unions, records, any in strict mode)
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny, options: JsonSchemaOptions = {}): JsonSchema {
+	return convertSchema(schema, options.strict ?? false);
+}
+
+/**
+ * Remove null values the model sent for optional fields in strict mode
+ *
+ * Strict schemas make optional fields nullable, but the Zod schema expects them
+ * to be absent. Nulls are removed only where the field does not accept null, so
+ * nullable fields such as id keep their value.
+ *
+ * @param schema Zod schema the response is validated with
+ * @param data Parsed response
+ * @returns Copy of data without the omitted fields
+ */
+export function stripOmittedNulls(schema: z.ZodTypeAny, data: unknown): unknown {
+	const inner = unwrapSchema(schema);
+
+	if (inner instanceof z.ZodArray && Array.isArray(data)) {
+		return data.map((item) => stripOmittedNulls(inner.element, item));
+	}
+
+	if (inner instanceof z.ZodObject && data && typeof data === 'object' && !Array.isArray(data)) {
+		const shape = inner.shape as z.ZodRawShape;
+		return Object.fromEntries(
+			Object.entries(data as Record<string, unknown>)
+				.filter(
+					([key, value]) =>
+						!(value === null && shape[key]?.isOptional() && !shape[key].safeParse(null).success)
+				)
+				.map(([key, value]) => [key, shape[key] ? stripOmittedNulls(shape[key], value) : value])
+		);
+	}
+
+	return data;
+}
+
+/**
+ * Format Zod issues as path: message strings
+ *
+ * @param error Error from safeParse
+ * @returns One string per issue
+ */
+export function formatZodIssues(error: z.ZodError): string[] {
+	return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
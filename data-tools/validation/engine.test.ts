@@ -0,0 +1,144 @@
+import { describe, test, expect } from 'vitest';
+import type { AnalysisData } from '../../src/lib/schemas/research';
+import { analysisValidation } from './index';
+
+/**
+ * Analysis as an LLM might return it, with enum casing, a percent string,
+ * a share over 100, a date without time and shares adding up to 130%
+ */
+function createAnalysis(): AnalysisData {
+	return {
+		entity: {
+			id: null,
+			name_brand: 'Acme',
+			details: [
+				{
+					type_research_detail: 'employee_count_estimate',
+					data_confidence: 'High',
+					source_type: 'Industry Report',
+					as_of_date: '2024-06-30',
+					discrete_value: 1200
+				}
+			],
+			products: [
+				{
+					id: null,
+					name_brand: 'Acme Cloud',
+					details: [
+						{
+							type_research_detail: 'market_share_estimate',
+							data_confidence: 'medium',
+							source_type: 'analyst_estimate',
+							as_of_date: '2024-06-30T00:00:00Z',
+							discrete_value: '60%'
+						}
+					],
+					competitors: [
+						{
+							id: null,
+							name_brand: 'Globex',
+							details: [
+								{
+									type_research_detail: 'market_share_estimate',
+									data_confidence: 'certain',
+									source_type: 'analyst_estimate',
+									as_of_date: '2024-06-30T00:00:00Z',
+									discrete_value: 70
+								}
+							]
+						}
+					]
+				}
+			]
+		}
+	} as unknown as AnalysisData;
+}
+
+describe('analysisValidation', () => {
+	test('reports each rule violation with its path', () => {
+		const { isValid, errors } = analysisValidation.validate(createAnalysis());
+
+		expect(isValid).toBe(false);
+		expect(errors.map((error) => [error.path, error.code])).toEqual([
+			['entity.details.0.data_confidence', 'invalid_enum'],
+			['entity.details.0.source_type', 'invalid_enum'],
+			['entity.products.0.competitors.0.details.0.data_confidence', 'invalid_enum'],
+			['entity.products.0.details.0.discrete_value', 'invalid_number'],
+			['entity.details.0.as_of_date', 'date_format']
+		]);
+	});
+
+	test('repairs fields and logs each change with its reason', () => {
+		const data = createAnalysis();
+		const { repaired, report } = analysisValidation.repair(data);
+
+		expect(report.isValid).toBe(true);
+		expect(report.appliedStrategies).toEqual([
+			'enum_normalization',
+			'value_range',
+			'date_normalization'
+		]);
+		expect(
+			report.repairs.map(({ path, strategy, before, after }) => ({ path, strategy, before, after }))
+		).toEqual([
+			{
+				path: 'entity.details.0.data_confidence',
+				strategy: 'enum_normalization',
+				before: 'High',
+				after: 'high'
+			},
+			{
+				path: 'entity.details.0.source_type',
+				strategy: 'enum_normalization',
+				before: 'Industry Report',
+				after: 'industry_report'
+			},
+			{
+				path: 'entity.products.0.competitors.0.details.0.data_confidence',
+				strategy: 'enum_normalization',
+				before: 'certain',
+				after: 'low'
+			},
+			{
+				path: 'entity.products.0.details.0.discrete_value',
+				strategy: 'value_range',
+				before: '60%',
+				after: 60
+			},
+			{
+				path: 'entity.details.0.as_of_date',
+				strategy: 'date_normalization',
+				before: '2024-06-30',
+				after: '2024-06-30T00:00:00.000Z'
+			}
+		]);
+
+		// The shares now parse, so their sum is reported, but not changed
+		expect(report.remainingErrors).toEqual([
+			expect.objectContaining({
+				path: 'entity.products.0',
+				code: 'market_share_sum',
+				severity: 'warning'
+			})
+		]);
+		expect(repaired.entity.products?.[0].name_brand).toBe('Acme Cloud');
+		expect(data.entity.details?.[0].data_confidence).toBe('High');
+	});
+
+	test('clamps out of range values and removes future dates', () => {
+		const data = createAnalysis();
+		const detail = data.entity.products![0].competitors![0].details![0];
+		Object.assign(detail, {
+			data_confidence: 'high',
+			discrete_value: 140,
+			as_of_date: '2999-01-01'
+		});
+
+		const { repaired, report } = analysisValidation.repair(data);
+		const repairedDetail = repaired.entity.products![0].competitors![0].details![0];
+
+		expect(repairedDetail.discrete_value).toBe(100);
+		expect(repairedDetail.as_of_date).toBeUndefined();
+		expect(report.repairs.map((entry) => entry.code)).toContain('future_date');
+	});
+});
@@ -0,0 +1,166 @@
+/**
+ * engine.ts
+ * Validation engine with pluggable rules and repair strategies
+ *
+ * The engine runs every registered rule (Validator) and collects their errors.
+ * Repair runs the strategies in order; each strategy sees the errors of the
+ * data as left by the previous one. Changes are logged per field: for every
+ * error a strategy was given, the value at the error's path is compared before
+ * and after, so the log shows what changed and which error caused it.
+ *
+ * Paths use the dot notation of Zod issue paths, with array indexes as
+ * segments (entity.products.0.details.1.discrete_value).
+ *
+ * @link data-tools/validation/interfaces.ts - Validator and RepairStrategy interfaces
+ * @link data-tools/validation/validators/analysisRules.ts - Analysis rules
+ * @link data-tools/validation/repair/analysisRepairs.ts - Analysis repair strategies
+ */
+
+import type {
+	NamedRepairStrategy,
+	RepairLogEntry,
+	RepairResult,
+	ValidationError,
+	ValidationReport,
+	ValidationResult,
+	ValidationRule,
+	Validator
+} from './interfaces';
+
+/**
+ * Validation engine for one data type
+ */
+export interface ValidationEngine<T> extends Validator<T> {
+	/**
+	 * Run the repair strategies and report every change
+	 */
+	repair(data: T): RepairResult<T> & { report: ValidationReport };
+}
+
+/**
+ * Split a path into property names and array indexes
+ */
+function toSegments(path: string): string[] {
+	return path ? path.split('.') : [];
+}
+
+/**
+ * Read the value at a path
+ *
+ * @param data Object to read from
+ * @param path Dot path; '' is the data itself
+ * @returns The value, or undefined when any segment is missing
+ */
+export function getValueAtPath(data: unknown, path: string): unknown {
+	return toSegments(path).reduce<unknown>(
+		(value, segment) =>
+			value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined,
+		data
+	);
+}
+
+/**
+ * Set the value at a path in place; undefined removes the property
+ *
+ * Does nothing when the parent of the path does not exist.
+ *
+ * @param data Object to change
+ * @param path Dot path of the property
+ * @param value New value
+ */
+export function setValueAtPath(data: unknown, path: string, value: unknown): void {
+	const segments = toSegments(path);
+	const key = segments.pop();
+	const parent = getValueAtPath(data, segments.join('.'));
+	if (key === undefined || !parent || typeof parent !== 'object') return;
+
+	if (value === undefined) {
+		delete (parent as Record<string, unknown>)[key];
+	} else {
+		(parent as Record<string, unknown>)[key] = value;
+	}
+}
+
+/**
+ * Whether errors include any of severity 'error'
+ */
+function hasErrors(errors: ValidationError[]): boolean {
+	return errors.some((error) => error.severity === 'error');
+}
+
+/**
+ * Create a validation engine
+ *
+ * @param rules Rules run by validate, in order
+ * @param strategies Repair strategies run by repair, in order
+ * @returns Engine implementing Validator with an added repair method
+ */
+export function createValidationEngine<T>(
+	rules: ValidationRule<T>[],
+	strategies: NamedRepairStrategy<T>[]
+): ValidationEngine<T> {
+	const validate = (data: T): ValidationResult => {
+		const errors = rules.flatMap((rule) =>
+			rule.validate(data).errors.map((error) => ({
+				...error,
+				metadata: { ...error.metadata, rule: rule.name }
+			}))
+		);
+		return { isValid: !hasErrors(errors), errors };
+	};
+
+	const repair = (data: T): RepairResult<T> & { report: ValidationReport } => {
+		const initialErrors = validate(data).errors;
+		const repairs: RepairLogEntry[] = [];
+		const appliedStrategies: string[] = [];
+		let current = data;
+		let errors = initialErrors;
+
+		for (const strategy of strategies) {
+			if (errors.length === 0 || !strategy.canRepair(current, errors)) continue;
+
+			const repaired = strategy.repair(current, errors);
+			const logged = new Set<string>();
+			for (const error of errors) {
+				if (logged.has(error.path)) continue;
+				const before = getValueAtPath(current, error.path);
+				const after = getValueAtPath(repaired, error.path);
+				if (JSON.stringify(before) === JSON.stringify(after)) continue;
+
+				logged.add(error.path);
+				repairs.push({
+					path: error.path,
+					strategy: strategy.name,
+					code: error.code,
+					reason: error.message,
+					before,
+					after
+				});
+			}
+
+			if (logged.size > 0) {
+				appliedStrategies.push(strategy.name);
+			}
+			current = repaired;
+			errors = validate(current).errors;
+		}
+
+		const report: ValidationReport = {
+			isValid: !hasErrors(errors),
+			errors: initialErrors,
+			repairs,
+			appliedStrategies,
+			remainingErrors: errors
+		};
+
+		return {
+			repaired: current,
+			success: report.isValid,
+			appliedStrategies,
+			remainingErrors: errors,
+			report
+		};
+	};
+
+	return { validate, repair };
+}
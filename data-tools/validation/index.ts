@@ -0,0 +1,28 @@
+/**
+ * index.ts
+ * Validation engine for LLM analysis data
+ *
+ * analysisValidation runs the analysis rules and repair strategies; use
+ * validate for a report without changes and repair for repaired data with an
+ * itemized log of every field changed.
+ *
+ * @link data-tools/validation/engine.ts - Engine
+ * @link data-tools/openai.ts - validatedOpenAI and repairedOpenAI source types
+ */
+
+import type { AnalysisData } from '../../src/lib/schemas/research';
+import { createValidationEngine } from './engine';
+import { analysisRules } from './validators/analysisRules';
+import { analysisRepairs } from './repair/analysisRepairs';
+
+export * from './interfaces';
+export { createValidationEngine, getValueAtPath, setValueAtPath } from './engine';
+export type { ValidationEngine } from './engine';
+
+/**
+ * Validation engine with the default analysis rules and repairs
+ */
+export const analysisValidation = createValidationEngine<AnalysisData>(
+	analysisRules,
+	analysisRepairs
+);
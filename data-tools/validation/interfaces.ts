@@ -63,3 +63,40 @@ export interface RepairResult<T> {
 	appliedStrategies: string[]; // Names of strategies that were applied
 	remainingErrors: ValidationError[]; // Errors that couldn't be fixed
 }
+
+/**
+ * Validator with a name, registered with the validation engine
+ */
+export interface ValidationRule<T> extends Validator<T> {
+	name: string; // Rule name reported with its errors
+}
+
+/**
+ * Repair strategy with a name, registered with the validation engine
+ */
+export interface NamedRepairStrategy<T> extends RepairStrategy<T> {
+	name: string; // Strategy name reported in the repair log
+}
+
+/**
+ * One field changed by a repair strategy
+ */
+export interface RepairLogEntry {
+	path: string; // JSON path of the changed field
+	strategy: string; // Name of the strategy that changed it
+	code: string; // Code of the error that was repaired
+	reason: string; // Message of the error that was repaired
+	before: unknown; // Value before the repair (undefined when missing)
+	after: unknown; // Value after the repair (undefined when removed)
+}
+
+/**
+ * Validation and repair report, returned in _meta.validationReport
+ */
+export interface ValidationReport {
+	isValid: boolean; // Whether the final data has no errors of severity 'error'
+	errors: ValidationError[]; // Errors found before repair
+	repairs: RepairLogEntry[]; // Fields changed, in the order they were repaired
+	appliedStrategies: string[]; // Names of strategies that changed the data
+	remainingErrors: ValidationError[]; // Errors left after repair
+}
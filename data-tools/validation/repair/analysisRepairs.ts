@@ -0,0 +1,152 @@
+/**
+ * analysisRepairs.ts
+ * Repair strategies for LLM analysis data
+ *
+ * Each strategy handles the error codes of one rule and changes only the fields
+ * at the paths of those errors, so the engine can log each change:
+ * - enum_normalization: matches enum values case- and separator-insensitively
+ *   ("High" → high, "Industry Report" → industry_report); otherwise falls back
+ *   to the least assertive value (low confidence, unknown source). Unknown
+ *   detail types are left for the report, as no fallback would be truthful.
+ * - value_range: parses numeric strings ("12.5%", "$1,200") and clamps numbers
+ *   to the range of their detail type; values that cannot be parsed are removed
+ * - date_normalization: converts parseable dates to ISO 8601 date-times and
+ *   removes invalid or future dates and implausible founding years
+ * - structure: rebuilds the structure with repairAnalysisData when the Zod
+ *   schema still fails; runs last as it drops fields it does not know
+ *
+ * Strategies never modify their input.
+ *
+ * @link data-tools/validation/validators/analysisRules.ts - Rules reporting these errors
+ * @link data-tools/sharedUtils/dataProcessing.ts - repairAnalysisData
+ */
+
+import type { NamedRepairStrategy, ValidationError } from '../interfaces';
+import type { AnalysisData } from '../../../src/lib/schemas/research';
+import { getValueAtPath, setValueAtPath } from '../engine';
+import { repairAnalysisData } from '../../sharedUtils/dataProcessing';
+
+type AnalysisRepair = NamedRepairStrategy<AnalysisData>;
+
+/**
+ * Fallback values for enum fields that cannot be matched
+ */
+const enumFallbacks: Record<string, string> = {
+	data_confidence: 'low',
+	source_type: 'unknown',
+	status_operating: 'Unknown',
+	url_type: 'other'
+};
+
+/**
+ * Errors with one of the given codes
+ */
+function errorsWithCodes(errors: ValidationError[], codes: string[]): ValidationError[] {
+	return errors.filter((error) => codes.includes(error.code));
+}
+
+/**
+ * Create a strategy that changes the value at the path of each of its errors
+ *
+ * @param name Strategy name for the repair log
+ * @param codes Error codes the strategy repairs
+ * @param fix New value for an error; undefined removes the field, the current
+ *   value leaves it unchanged
+ */
+function createFieldRepair(
+	name: string,
+	codes: string[],
+	fix: (value: unknown, error: ValidationError) => unknown
+): AnalysisRepair {
+	return {
+		name,
+		canRepair: (_data, errors) => errorsWithCodes(errors, codes).length > 0,
+		repair(data, errors) {
+			const repaired = structuredClone(data);
+			for (const error of errorsWithCodes(errors, codes)) {
+				setValueAtPath(repaired, error.path, fix(getValueAtPath(repaired, error.path), error));
+			}
+			return repaired;
+		}
+	};
+}
+
+/**
+ * Lowercase a value and drop spaces, hyphens and underscores for comparison
+ */
+function toEnumKey(value: string): string {
+	return value.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Normalize enum values, falling back to the least assertive value
+ */
+export const enumRepair = createFieldRepair(
+	'enum_normalization',
+	['invalid_enum'],
+	(value, error) => {
+		const allowed = (error.metadata?.allowed ?? []) as string[];
+		const field = String(error.metadata?.field);
+
+		const match =
+			typeof value === 'string'
+				? allowed.find((option) => toEnumKey(option) === toEnumKey(value))
+				: undefined;
+		return match ?? enumFallbacks[field] ?? value;
+	}
+);
+
+/**
+ * Parse a number from a string such as "12.5%" or "$1,200"
+ */
+function parseNumber(value: unknown): number | undefined {
+	if (typeof value !== 'string') return undefined;
+	const cleaned = value.replace(/[%$,\s]/g, '');
+	const parsed = cleaned ? Number(cleaned) : NaN;
+	return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Parse numeric strings and clamp numbers to their range
+ */
+export const rangeRepair = createFieldRepair(
+	'value_range',
+	['invalid_number', 'out_of_range'],
+	(value, error) => {
+		if (error.code === 'invalid_number') return parseNumber(value);
+
+		const { min, max } = error.metadata as { min: number; max?: number };
+		return Math.min(Math.max(value as number, min), max ?? Infinity);
+	}
+);
+
+/**
+ * Normalize date formats and remove implausible dates
+ */
+export const dateRepair = createFieldRepair(
+	'date_normalization',
+	['invalid_date', 'future_date', 'date_format', 'invalid_year'],
+	(value, error) =>
+		error.code === 'date_format' ? new Date(value as string).toISOString() : undefined
+);
+
+/**
+ * Rebuild the structure when the schema still fails, keeping the metadata
+ */
+export const structureRepair: AnalysisRepair = {
+	name: 'structure',
+	canRepair: (_data, errors) => errorsWithCodes(errors, ['invalid_structure']).length > 0,
+	repair(data) {
+		return { ...repairAnalysisData(data), _meta: data._meta };
+	}
+};
+
+/**
+ * Default repair strategies for analysis data, in the order they run
+ */
+export const analysisRepairs: AnalysisRepair[] = [
+	enumRepair,
+	rangeRepair,
+	dateRepair,
+	structureRepair
+];
@@ -0,0 +1,374 @@
+/**
+ * analysisRules.ts
+ * Validation rules for LLM analysis data
+ *
+ * Each rule is a Validator over AnalysisData that reports ValidationErrors
+ * with a code, a Zod-style path and the metadata its repair strategy needs:
+ * - enum_membership (invalid_enum): detail types, confidence, source type,
+ *   operating status and URL type must be values of the Zod enums
+ * - value_range (invalid_number, out_of_range): discrete values must be numbers
+ *   within the range of their detail type (market shares 0-100, counts >= 0)
+ * - market_share_sum (market_share_sum): the shares of a product and its
+ *   competitors should not add up to more than 100% (warning)
+ * - date_sanity (invalid_date, future_date, date_format, invalid_year): as_of_date
+ *   must be a past ISO 8601 date-time, founding years between 1600 and this year
+ * - schema (invalid_structure): the AnalysisData Zod schema, for fields the
+ *   rules above do not check
+ *
+ * Rules never throw on malformed data; missing arrays are skipped.
+ *
+ * @link data-tools/validation/interfaces.ts - Validator interface
+ * @link data-tools/validation/repair/analysisRepairs.ts - Repairs for these errors
+ * @link src/lib/schemas/research/detail_enums.schema.ts - Enum values
+ */
+
+import { z } from 'zod';
+import type { ValidationError, ValidationRule } from '../interfaces';
+import {
+	dataConfidenceEnum,
+	sourceTypeEnum,
+	statusOperatingEnum,
+	typeResearchDetailEnum,
+	urlTypeEnum,
+	type AnalysisData,
+	type TypeResearchDetail
+} from '../../../src/lib/schemas/research';
+import { analysisDataSchema } from '../../sharedUtils/dataProcessing';
+
+type AnalysisRule = ValidationRule<AnalysisData>;
+
+/**
+ * Object found in the analysis data with its path
+ */
+interface RecordAtPath {
+	value: Record<string, unknown>;
+	path: string;
+}
+
+/**
+ * Allowed discrete_value range per detail type
+ */
+const detailValueRanges: Record<TypeResearchDetail, { min: number; max?: number }> = {
+	market_share_min: { min: 0, max: 100 },
+	market_share_max: { min: 0, max: 100 },
+	market_share_exact: { min: 0, max: 100 },
+	market_share_estimate: { min: 0, max: 100 },
+	employee_count_exact: { min: 0 },
+	employee_count_estimate: { min: 0 },
+	employee_count_min: { min: 0 },
+	employee_count_max: { min: 0 },
+	churn_rate_estimate: { min: 0, max: 100 },
+	customer_count_estimate: { min: 0 },
+	active_users_estimate: { min: 0 },
+	arpu_estimate: { min: 0 },
+	cac_estimate: { min: 0 },
+	ltv_estimate: { min: 0 },
+	runway_months_estimate: { min: 0 },
+	market_size_usd: { min: 0 },
+	market_growth_rate: { min: -100 }
+};
+
+// Earliest plausible founding year and as_of_date
+const minYearEstablished = 1600;
+const minAsOfDate = Date.UTC(1900, 0, 1);
+
+// Shares may add up to slightly more than 100% through rounding
+const marketShareTolerance = 0.5;
+
+// Fields checked by the specific rules rather than the schema rule
+const ruleCheckedFields = new Set([
+	'type_research_detail',
+	'data_confidence',
+	'source_type',
+	'as_of_date',
+	'discrete_value'
+]);
+
+const isoDateTimeSchema = z.string().datetime({ offset: true });
+
+/**
+ * Narrow an unknown value to a plain object
+ */
+function asRecord(value: unknown): Record<string, unknown> | null {
+	return value && typeof value === 'object' && !Array.isArray(value)
+		? (value as Record<string, unknown>)
+		: null;
+}
+
+/**
+ * Objects of an array property with their paths
+ */
+function collectRecords(parent: RecordAtPath, key: string): RecordAtPath[] {
+	const items = parent.value[key];
+	if (!Array.isArray(items)) return [];
+	return items.flatMap((item, index) => {
+		const value = asRecord(item);
+		return value ? [{ value, path: `${parent.path}.${key}.${index}` }] : [];
+	});
+}
+
+/**
+ * The company, its products and their competitors
+ */
+function collectEntities(data: AnalysisData): RecordAtPath[] {
+	const entity = asRecord(asRecord(data)?.entity);
+	if (!entity) return [];
+
+	const company = { value: entity, path: 'entity' };
+	const products = collectRecords(company, 'products');
+	return [
+		company,
+		...products.flatMap((product) => [product, ...collectRecords(product, 'competitors')])
+	];
+}
+
+/**
+ * Details of all entities with their paths
+ */
+function collectDetails(data: AnalysisData): RecordAtPath[] {
+	return collectEntities(data).flatMap((entity) => collectRecords(entity, 'details'));
+}
+
+/**
+ * Check a field against an enum
+ */
+function checkEnum(
+	record: RecordAtPath,
+	field: string,
+	zodEnum: z.ZodEnum<[string, ...string[]]>,
+	required: boolean
+): ValidationError[] {
+	const value = record.value[field];
+	if (value === undefined && !required) return [];
+	if (zodEnum.safeParse(value).success) return [];
+
+	return [
+		{
+			code: 'invalid_enum',
+			message:
+				value === undefined
+					? `${field} is missing`
+					: `${field} "${String(value)}" is not one of the allowed values`,
+			path: `${record.path}.${field}`,
+			severity: 'error',
+			metadata: { field, value, allowed: zodEnum.options }
+		}
+	];
+}
+
+/**
+ * Detail types, confidence and source types, operating status and URL types
+ */
+export const enumRule: AnalysisRule = {
+	name: 'enum_membership',
+	validate(data) {
+		const errors = [
+			...collectDetails(data).flatMap((detail) => [
+				...checkEnum(detail, 'type_research_detail', typeResearchDetailEnum, true),
+				...checkEnum(detail, 'data_confidence', dataConfidenceEnum, true),
+				...checkEnum(detail, 'source_type', sourceTypeEnum, true)
+			]),
+			...collectEntities(data).flatMap((entity) => [
+				...checkEnum(entity, 'status_operating', statusOperatingEnum, false),
+				...collectRecords(entity, 'urls').flatMap((url) =>
+					checkEnum(url, 'url_type', urlTypeEnum, true)
+				)
+			])
+		];
+		return { isValid: errors.length === 0, errors };
+	}
+};
+
+/**
+ * Numeric detail values within the range of their detail type
+ */
+export const rangeRule: AnalysisRule = {
+	name: 'value_range',
+	validate(data) {
+		const errors = collectDetails(data).flatMap((detail): ValidationError[] => {
+			const value = detail.value.discrete_value;
+			const path = `${detail.path}.discrete_value`;
+			if (value === undefined || value === null) return [];
+
+			if (typeof value !== 'number' || !Number.isFinite(value)) {
+				return [
+					{
+						code: 'invalid_number',
+						message: `discrete_value "${String(value)}" is not a number`,
+						path,
+						severity: 'error',
+						metadata: { value }
+					}
+				];
+			}
+
+			const range = detailValueRanges[detail.value.type_research_detail as TypeResearchDetail];
+			if (!range || (value >= range.min && (range.max === undefined || value <= range.max))) {
+				return [];
+			}
+			return [
+				{
+					code: 'out_of_range',
+					message: `${detail.value.type_research_detail} ${value} is outside ${range.min} to ${range.max ?? 'unbounded'}`,
+					path,
+					severity: 'error',
+					metadata: { value, ...range }
+				}
+			];
+		});
+		return { isValid: errors.length === 0, errors };
+	}
+};
+
+/**
+ * Market share of an entity: exact if given, otherwise the estimate
+ */
+function getMarketShare(entity: RecordAtPath): number | null {
+	const details = collectRecords(entity, 'details').map((detail) => detail.value);
+	const share = (type: TypeResearchDetail) =>
+		details.find(
+			(detail) => detail.type_research_detail === type && typeof detail.discrete_value === 'number'
+		)?.discrete_value as number | undefined;
+	return share('market_share_exact') ?? share('market_share_estimate') ?? null;
+}
+
+/**
+ * Shares of each product and its competitors add up to at most 100%
+ */
+export const marketShareSumRule: AnalysisRule = {
+	name: 'market_share_sum',
+	validate(data) {
+		const entity = collectEntities(data)[0];
+		const errors = (entity ? collectRecords(entity, 'products') : []).flatMap(
+			(product): ValidationError[] => {
+				const shares = [product, ...collectRecords(product, 'competitors')]
+					.map(getMarketShare)
+					.filter((share): share is number => share !== null);
+				const total = shares.reduce((sum, share) => sum + share, 0);
+				if (total <= 100 + marketShareTolerance) return [];
+
+				return [
+					{
+						code: 'market_share_sum',
+						message: `Market shares of ${String(product.value.name_brand)} and its competitors add up to ${Math.round(total * 10) / 10}%`,
+						path: product.path,
+						severity: 'warning',
+						metadata: { total, shares }
+					}
+				];
+			}
+		);
+		return { isValid: errors.length === 0, errors };
+	}
+};
+
+/**
+ * as_of_date and founding years are plausible
+ */
+export const dateRule: AnalysisRule = {
+	name: 'date_sanity',
+	validate(data) {
+		const now = Date.now();
+		const currentYear = new Date(now).getUTCFullYear();
+
+		const dateErrors = collectDetails(data).flatMap((detail): ValidationError[] => {
+			const value = detail.value.as_of_date;
+			const path = `${detail.path}.as_of_date`;
+			if (value === undefined || value === null) return [];
+
+			const time = typeof value === 'string' ? Date.parse(value) : NaN;
+			if (Number.isNaN(time) || time < minAsOfDate) {
+				return [
+					{
+						code: 'invalid_date',
+						message: `as_of_date "${String(value)}" is not a valid date`,
+						path,
+						severity: 'error',
+						metadata: { value }
+					}
+				];
+			}
+			if (time > now) {
+				return [
+					{
+						code: 'future_date',
+						message: `as_of_date ${String(value)} is in the future`,
+						path,
+						severity: 'error',
+						metadata: { value }
+					}
+				];
+			}
+			if (!isoDateTimeSchema.safeParse(value).success) {
+				return [
+					{
+						code: 'date_format',
+						message: `as_of_date "${String(value)}" is not an ISO 8601 date-time`,
+						path,
+						severity: 'warning',
+						metadata: { value }
+					}
+				];
+			}
+			return [];
+		});
+
+		const yearErrors = collectEntities(data).flatMap((entity): ValidationError[] => {
+			const value = entity.value.date_year_established;
+			if (value === undefined || value === null) return [];
+			if (
+				typeof value === 'number' &&
+				Number.isInteger(value) &&
+				value >= minYearEstablished &&
+				value <= currentYear
+			) {
+				return [];
+			}
+			return [
+				{
+					code: 'invalid_year',
+					message: `date_year_established ${String(value)} is not a year between ${minYearEstablished} and ${currentYear}`,
+					path: `${entity.path}.date_year_established`,
+					severity: 'error',
+					metadata: { value }
+				}
+			];
+		});
+
+		const errors = [...dateErrors, ...yearErrors];
+		return { isValid: errors.length === 0, errors };
+	}
+};
+
+/**
+ * The AnalysisData Zod schema, for fields the other rules do not check
+ */
+export const schemaRule: AnalysisRule = {
+	name: 'schema',
+	validate(data) {
+		const result = analysisDataSchema.safeParse(data);
+		const errors: ValidationError[] = result.success
+			? []
+			: result.error.issues
+					.filter((issue) => !ruleCheckedFields.has(String(issue.path[issue.path.length - 1])))
+					.map((issue) => ({
+						code: 'invalid_structure',
+						message: issue.message,
+						path: issue.path.join('.'),
+						severity: 'error',
+						metadata: { zodCode: issue.code }
+					}));
+		return { isValid: errors.length === 0, errors };
+	}
+};
+
+/**
+ * Default rules for analysis data, in reporting order
+ */
+export const analysisRules: AnalysisRule[] = [
+	schemaRule,
+	enumRule,
+	rangeRule,
+	dateRule,
+	marketShareSumRule
+];
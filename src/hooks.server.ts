@@ -1,5 +1,10 @@
 import type { Handle } from '@sveltejs/kit';
+import { sequence } from '@sveltejs/kit/hooks';
+import { createRequestLoaders } from '$lib/server/db/loader';
 import { initializeS3Client } from '$lib/utils/imagesS3.server';
+import { createPostgresLLMCache, setLLMCacheBackend } from '$lib/utils/llmCache';
+import { createPostgresLLMLedger, setLLMLedgerBackend } from '$lib/utils/llmLedger';
+import { sql } from '$lib/database/sql.server';
 import dotenv from 'dotenv';
 
 // Load environment variables from .env file
@@ -18,6 +23,20 @@ console.log(`OpenAI API Key set: ${process.env.OPENAI_API_KEY ? 'Yes' : 'No'}`);
 	}
 })();
 
+// Store LLM responses in public.llm_response_cache when configured
+// The file backend needs no setup; see $lib/utils/llmCache.ts
+if (process.env.LLM_CACHE === 'postgres') {
+	setLLMCacheBackend(createPostgresLLMCache(sql));
+	console.log('LLM response cache: postgres');
+}
+
+// Record LLM spend in public.llm_spend_ledger when configured
+// The file backend needs no setup; see $lib/utils/llmLedger.ts
+if (process.env.LLM_LEDGER === 'postgres') {
+	setLLMLedgerBackend(createPostgresLLMLedger(sql));
+	console.log('LLM spend ledger: postgres');
+}
+
 const colorSchemeCookie = 'color-scheme';
 
 /**
@@ -42,4 +61,13 @@ const handleColorScheme: Handle = async ({ event, resolve }) => {
 	return response;
 };
 
-export const handle: Handle = handleColorScheme;
+/**
+ * Attach request-scoped batching loaders
+ * Loaders cache rows for a single request only
+ */
+const handleLoaders: Handle = async ({ event, resolve }) => {
+	event.locals.loaders = createRequestLoaders();
+	return resolve(event);
+};
+
+export const handle: Handle = sequence(handleLoaders, handleColorScheme);
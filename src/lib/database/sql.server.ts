@@ -26,7 +26,7 @@ interface SqlIdentifier {
 /**
  * Interface for SQL instance with template literal support
  */
-interface SQLInstance {
+export interface SQLInstance {
 	begin: <T>(callback: (tx: SQLInstance) => Promise<T>) => Promise<T>;
 	(strings: TemplateStringsArray, ...values: unknown[]): Promise<unknown[]>;
 	// Add identifier method for table/column names
@@ -154,6 +154,23 @@ export const sql = new Proxy(
 	}
 );
 
+/**
+ * Serialize values as a PostgreSQL array literal
+ *
+ * Bind the result as a single parameter with an explicit cast so set-based
+ * filters work without building dynamic SQL.
+ *
+ * @param values Values to include in the array
+ * @returns Array literal such as {"a","b"}
+ *
+ * @example
+ * await sql`SELECT * FROM research.res_entity WHERE id = ANY(${pgArray(ids)}::uuid[])`;
+ */
+export function pgArray(values: readonly (string | number)[]): string {
+	const elements = values.map((value) => `"${String(value).replace(/(["\\])/g, '\\$1')}"`);
+	return `{${elements.join(',')}}`;
+}
+
 /**
  * Entity-specific query helpers that use Bun's native SQL tagged templates
  * These functions retain type safety through generic parameters
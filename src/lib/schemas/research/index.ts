@@ -167,6 +167,123 @@ export {
 
 // Import types needed for the AnalysisData interface
 import type { CompanyEntity, ProductEntity } from './entity.schema';
+import type { DataConfidence } from './detail_enums.schema';
+import type { LLMCacheInfo } from '../../utils/llmCache';
+import type { LLMProviderInfo } from '../../utils/llmResilience';
+
+/**
+ * Match of an LLM-generated entity to an existing res_entity row
+ */
+export interface EntityResolutionCandidate {
+	id: string;
+	slug: string | null;
+	name: string;
+	type_record: string | null;
+	// 0-1; 1 is an exact name match
+	score: number;
+	match_type: 'exact' | 'normalized' | 'domain' | 'fuzzy';
+}
+
+/**
+ * Outcome of resolving an LLM-generated entity
+ * id/slug are only set on the entity when status is 'matched'
+ */
+export interface EntityResolution {
+	status: 'matched' | 'ambiguous' | 'unmatched';
+	score: number | null;
+	match_type: EntityResolutionCandidate['match_type'] | null;
+	// Set when the match should be confirmed by a person
+	needs_review: boolean;
+	// Best candidates, highest score first
+	candidates: EntityResolutionCandidate[];
+}
+
+/**
+ * Models of a consensus analysis that proposed a product or competitor
+ */
+export interface EntityConsensus {
+	// Models that proposed the entity, in the configured order
+	models: string[];
+	// Number of models that proposed it
+	agreement: number;
+	// Number of models that returned an analysis
+	total: number;
+	// Derived from agreement/total; also set on the entity's details
+	data_confidence: DataConfidence;
+}
+
+/**
+ * Models asked by a consensus analysis (approach=consensus)
+ */
+export interface AnalysisConsensusMeta {
+	// Models asked, in the configured order
+	models: string[];
+	// Models that returned an analysis; agreement counts are out of these
+	succeeded: string[];
+}
+
+/**
+ * Cost and outcome of one LLM call of a multi-step or consensus analysis
+ */
+export interface AnalysisStepMeta {
+	// basic_info, product:<product name>, company_profile or model:<model>
+	step: string;
+	status: 'completed' | 'failed';
+	cost: {
+		totalTokens: number;
+		costUSD: number;
+	};
+	cache?: LLMCacheInfo['status'];
+	// Provider that served the call, when it succeeded
+	provider?: string;
+	error?: string;
+}
+
+/**
+ * Database source included in the prompt context of an analysis
+ */
+export interface AnalysisContextSource {
+	// type_tag, url, entity_detail, description_medium or scraped_website
+	source: string;
+	// Number of rows included
+	count: number;
+	// Estimated tokens of the source's prompt section
+	tokens: number;
+	// Set when the section was cut to fit the budget
+	truncated: boolean;
+}
+
+/**
+ * Prompt context built from the res_entity an analyzed name resolves to
+ */
+export interface AnalysisContextMeta {
+	entity_id: string;
+	entity_name: string;
+	// Token budget derived from the model's max_input_tokens
+	budget_tokens: number;
+	// Estimated tokens of the whole context, at most budget_tokens
+	tokens: number;
+	// Sources in prompt order; sources without data or budget are omitted
+	sources: AnalysisContextSource[];
+}
+
+/**
+ * Prompt template versions of an analysis (see data-tools/prompts)
+ */
+export interface AnalysisPromptMeta {
+	// Version requested with promptVersion; null when the defaults were used
+	requested: string | null;
+	// Version used by template name; templates without the requested version use their default
+	templates: Record<string, string>;
+}
+
+/**
+ * Prompt context text and the metadata reported in _meta.context
+ */
+export interface AnalysisPromptContext {
+	prompt: string;
+	meta: AnalysisContextMeta;
+}
 
 // Re-export the complete AnalysisData structure
 export interface AnalysisData {
@@ -175,10 +292,14 @@ export interface AnalysisData {
 		// Products offered by this company
 		products?: Array<
 			ProductEntity & {
+				resolution?: EntityResolution;
+				consensus?: EntityConsensus;
 				// Competing products from other companies
 				competitors?: Array<
 					ProductEntity & {
 						// Company field already included in ProductEntity
+						resolution?: EntityResolution;
+						consensus?: EntityConsensus;
 					}
 				>;
 			}
@@ -191,5 +312,23 @@ export interface AnalysisData {
 			costUSD: number;
 		};
 		validation?: string;
+		// Response cache status of the LLM call
+		cache?: LLMCacheInfo;
+		// Provider that served the LLM call and any retries or fallbacks (see llmResilience.ts)
+		provider?: LLMProviderInfo;
+		// Per-call cost and outcome of the multi-step and consensus strategies; cost is their total
+		steps?: AnalysisStepMeta[];
+		// Models of the consensus strategy
+		consensus?: AnalysisConsensusMeta;
+		// Database sources added to the prompt (see analysisContext.ts)
+		context?: AnalysisContextMeta;
+		// Prompt template versions used (see data-tools/prompts)
+		prompt?: AnalysisPromptMeta;
+		// Counts from resolving products and competitors to res_entity
+		resolution?: {
+			matched: number;
+			ambiguous: number;
+			unmatched: number;
+		};
 	};
 }
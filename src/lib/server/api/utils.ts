@@ -25,9 +25,14 @@ type ApiResponse<T = unknown> = {
  * Create a successful response
  * @param data The data to include in the response
  * @param event Optional RequestEvent to check for pretty formatting
+ * @param headers Optional extra response headers (e.g. pagination totals)
  * @returns JSON response with 200 status
  */
-export function successResponse<T>(data: T, event?: RequestEvent) {
+export function successResponse<T>(
+	data: T,
+	event?: RequestEvent,
+	headers: Record<string, string> = {}
+) {
 	// Default to pretty formatting unless explicitly set to false
 	const pretty = event?.url.searchParams.get('pretty') !== 'false';
 
@@ -36,15 +41,19 @@ export function successResponse<T>(data: T, event?: RequestEvent) {
 		return new Response(JSON.stringify({ success: true, data }, null, 2), {
 			status: 200,
 			headers: {
-				'Content-Type': 'application/json'
+				'Content-Type': 'application/json',
+				...headers
 			}
 		});
 	} else {
 		// Use regular json function for non-pretty output
-		return json({
-			success: true,
-			data
-		} satisfies ApiResponse<T>);
+		return json(
+			{
+				success: true,
+				data
+			} satisfies ApiResponse<T>,
+			{ headers }
+		);
 	}
 }
 
@@ -165,3 +174,28 @@ export function isValidUuid(id: string): boolean {
 	const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 	return uuidRegex.test(id);
 }
+
+/**
+ * Encode a pagination cursor as an opaque URL-safe string
+ * @param position The keyset position to encode
+ * @returns Base64url-encoded cursor
+ */
+export function encodeCursor(position: Record<string, unknown>): string {
+	return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decode a pagination cursor produced by encodeCursor
+ * @param cursor The opaque cursor string
+ * @returns The decoded keyset position, or null if the cursor is malformed
+ */
+export function decodeCursor<T extends Record<string, unknown>>(cursor: string): T | null {
+	try {
+		const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+		return decoded && typeof decoded === 'object' && !Array.isArray(decoded)
+			? (decoded as T)
+			: null;
+	} catch {
+		return null;
+	}
+}
@@ -20,10 +20,29 @@ export * from '../../database/sql.server';
 // Import and export query builders
 import { entityQueries } from './queries/entity';
 import { entityDetailQueries } from './queries/entity_detail';
+import { entityDetailWriteQueries } from './queries/entity_detail_write';
 import { typeRefQueries } from './queries/type_ref';
 import { textQueries } from './queries/text';
 import { urlQueries } from './queries/url';
-export { entityQueries, entityDetailQueries, typeRefQueries, textQueries, urlQueries };
+import { searchQueries } from './queries/search';
+import { identifierQueries } from './queries/identifier';
+import { relationshipQueries } from './queries/relationship';
+import { entityResolutionQueries } from './queries/entity_resolution';
+export {
+	entityQueries,
+	entityDetailQueries,
+	entityDetailWriteQueries,
+	typeRefQueries,
+	textQueries,
+	urlQueries,
+	searchQueries,
+	identifierQueries,
+	relationshipQueries,
+	entityResolutionQueries
+};
+
+// Export request-scoped batching loaders
+export * from './loader';
 
 /**
  * DB module for centralized imports
@@ -43,6 +62,9 @@ const db = {
 	// Entity detail queries
 	entityDetail: entityDetailQueries,
 
+	// Entity detail writes (analysis commit only; run inside a transaction)
+	entityDetailWrite: entityDetailWriteQueries,
+
 	// Type reference and entity join queries
 	typeRef: typeRefQueries,
 
@@ -50,7 +72,19 @@ const db = {
 	text: textQueries,
 
 	// URL data queries
-	url: urlQueries
+	url: urlQueries,
+
+	// Ranked full-text and fuzzy search
+	search: searchQueries,
+
+	// External identifier queries (ticker, CIK, DUNS, ...)
+	identifier: identifierQueries,
+
+	// Entity relationship queries (competitors, M&A, divisions)
+	relationship: relationshipQueries,
+
+	// Name candidates for resolving analysis output to existing entities
+	entityResolution: entityResolutionQueries
 };
 
 export default db;
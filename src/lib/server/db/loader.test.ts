@@ -0,0 +1,38 @@
+import { describe, test, expect, vi } from 'vitest';
+import { createBatchLoader } from './loader';
+
+describe('createBatchLoader', () => {
+	test('resolves keys requested in the same tick with one batch call', async () => {
+		const batchFn = vi.fn(
+			async (keys: string[]) => new Map(keys.map((key) => [key, key.toUpperCase()]))
+		);
+		const loader = createBatchLoader(batchFn);
+
+		const results = await Promise.all([loader.load('a'), loader.load('b'), loader.load('a')]);
+
+		expect(results).toEqual(['A', 'B', 'A']);
+		expect(batchFn).toHaveBeenCalledTimes(1);
+		expect(batchFn).toHaveBeenCalledWith(['a', 'b']);
+	});
+
+	test('returns null for missing keys and caches across calls', async () => {
+		const batchFn = vi.fn(async () => new Map([['a', 1]]));
+		const loader = createBatchLoader<string, number>(batchFn);
+
+		expect(await loader.loadMany(['a', 'missing'])).toEqual([1, null]);
+		expect(await loader.load('a')).toBe(1);
+		expect(batchFn).toHaveBeenCalledTimes(1);
+	});
+
+	test('splits large batches and evicts failed keys so they can be retried', async () => {
+		const batchFn = vi
+			.fn<(keys: number[]) => Promise<Map<number, number>>>()
+			.mockRejectedValueOnce(new Error('connection reset'))
+			.mockImplementation(async (keys) => new Map(keys.map((key) => [key, key * 2])));
+		const loader = createBatchLoader(batchFn, 2);
+
+		await expect(loader.load(1)).rejects.toThrow('connection reset');
+		expect(await loader.loadMany([1, 2, 3])).toEqual([2, 4, 6]);
+		expect(batchFn).toHaveBeenCalledTimes(3);
+	});
+});
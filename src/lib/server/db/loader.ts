@@ -0,0 +1,134 @@
+/**
+ * Request-scoped batching loaders
+ *
+ * Routes that fan out over entity IDs (URL matches, competitors, relationships)
+ * call `load` once per ID; the loader collects every key requested in the same
+ * tick and resolves them with one batch query, then caches the results for the
+ * rest of the request. This turns N+1 loops into a single round trip without
+ * restructuring the calling code.
+ *
+ * A fresh set of loaders is attached to `event.locals.loaders` for every request
+ * in hooks.server.ts, so cached rows never leak between requests.
+ *
+ * @link src/hooks.server.ts - Creates loaders per request
+ * @link src/lib/server/db/queries/entity.ts - getByIds batch query
+ */
+
+import { browser } from '$app/environment';
+import type { Entity } from '$lib/schemas/research';
+import { entityQueries } from './queries/entity';
+
+if (browser) {
+	throw new Error('Server-only module leaked to client!');
+}
+
+/**
+ * Batch function: resolves many keys at once, returning found values by key
+ */
+export type BatchFunction<K, V> = (keys: K[]) => Promise<Map<K, V>>;
+
+/**
+ * Loader that batches and caches single-key lookups
+ */
+export interface BatchLoader<K, V> {
+	// Load one value; null when the batch function did not return the key
+	load: (key: K) => Promise<V | null>;
+	// Load several values, preserving input order
+	loadMany: (keys: readonly K[]) => Promise<(V | null)[]>;
+	// Drop all cached values
+	clear: () => void;
+}
+
+interface PendingLoad<K, V> {
+	key: K;
+	resolve: (value: V | null) => void;
+	reject: (error: unknown) => void;
+}
+
+/**
+ * Create a batching loader
+ *
+ * @param batchFn Function resolving many keys in one query
+ * @param maxBatchSize Upper bound on keys per batch query
+ * @returns Loader with load/loadMany/clear
+ *
+ * @example
+ * const loader = createBatchLoader(async (ids: string[]) => {
+ *   const rows = await entityQueries.getByIds(ids);
+ *   return new Map(rows.map((row) => [row.id as string, row]));
+ * });
+ * const [a, b] = await Promise.all([loader.load(idA), loader.load(idB)]); // one query
+ */
+export function createBatchLoader<K, V>(
+	batchFn: BatchFunction<K, V>,
+	maxBatchSize = 500
+): BatchLoader<K, V> {
+	const cache = new Map<K, Promise<V | null>>();
+	let queue: PendingLoad<K, V>[] = [];
+
+	async function dispatch(batch: PendingLoad<K, V>[]) {
+		try {
+			const results = await batchFn(batch.map((pending) => pending.key));
+			for (const pending of batch) {
+				pending.resolve(results.get(pending.key) ?? null);
+			}
+		} catch (error) {
+			// Failed keys are evicted so a later load can retry them
+			for (const pending of batch) {
+				cache.delete(pending.key);
+				pending.reject(error);
+			}
+		}
+	}
+
+	function flush() {
+		const pending = queue;
+		queue = [];
+		for (let start = 0; start < pending.length; start += maxBatchSize) {
+			void dispatch(pending.slice(start, start + maxBatchSize));
+		}
+	}
+
+	function load(key: K): Promise<V | null> {
+		const cached = cache.get(key);
+		if (cached) return cached;
+
+		const promise = new Promise<V | null>((resolve, reject) => {
+			queue.push({ key, resolve, reject });
+			// First key of a new batch schedules the flush after the current tick
+			if (queue.length === 1) {
+				queueMicrotask(flush);
+			}
+		});
+		cache.set(key, promise);
+		return promise;
+	}
+
+	return {
+		load,
+		loadMany: (keys) => Promise.all(keys.map((key) => load(key))),
+		clear: () => cache.clear()
+	};
+}
+
+/**
+ * Loaders available on event.locals.loaders
+ */
+export interface RequestLoaders {
+	// Entities by UUID
+	entity: BatchLoader<string, Entity>;
+}
+
+/**
+ * Create a fresh set of loaders for one request
+ *
+ * @returns Request-scoped loaders
+ */
+export function createRequestLoaders(): RequestLoaders {
+	return {
+		entity: createBatchLoader(async (ids: string[]) => {
+			const rows = await entityQueries.getByIds(ids);
+			return new Map(rows.map((row) => [row.id as string, row]));
+		})
+	};
+}
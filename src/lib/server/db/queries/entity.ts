@@ -8,8 +8,9 @@
  */
 
 import { browser } from '$app/environment';
-import { sql } from '../../../database/sql.server';
+import { pgArray, sql } from '../../../database/sql.server';
 import type { Entity, CompanyEntity, ProductEntity } from '$lib/schemas/research';
+import { searchQueries } from './search';
 
 // Entity table metadata
 const entityTableInfo = {
@@ -21,6 +22,43 @@ if (browser) {
 	throw new Error('Server-only module leaked to client!');
 }
 
+/**
+ * Sort keys supported by the filtered entity listing
+ */
+export const entityListSorts = ['name', 'founded', 'updated', 'created'] as const;
+export type EntityListSort = (typeof entityListSorts)[number];
+
+/**
+ * Filters for the filtered entity listing
+ * Every filter is optional; unset filters are ignored by the query
+ */
+export interface EntityListFilters {
+	typeRecord?: string | null;
+	statusOperating?: string | null;
+	statusFeatured?: boolean | null;
+	statusVerified?: boolean | null;
+	foundedMin?: number | null;
+	foundedMax?: number | null;
+	typeTagSlug?: string | null;
+}
+
+/**
+ * Keyset position for cursor-based pagination
+ * sortKey is the text sort key of the last row returned, id breaks ties
+ */
+export interface EntityListCursor {
+	sortKey: string;
+	id: string;
+}
+
+/**
+ * Entity row returned by the filtered listing, including its keyset sort key
+ */
+export type EntityListRow = Entity & {
+	status_operating?: string | null;
+	sort_key: string;
+};
+
 /**
  * Type-safe entity queries for the res_entity table
  * All queries are READ-ONLY as specified in project requirements
@@ -94,6 +132,114 @@ export const entityQueries = {
 		return (results[0] as Entity) || null;
 	},
 
+	/**
+	 * Get entities by IDs in a single round trip
+	 *
+	 * @param ids UUIDs of the entities; duplicates are ignored
+	 * @returns Array of entities found, in no particular order
+	 * @link src/lib/server/db/loader.ts - Request-scoped batching built on this query
+	 */
+	getByIds: async (ids: readonly string[]): Promise<Entity[]> => {
+		if (!sql || ids.length === 0) return [];
+
+		const results = await sql`
+			SELECT 
+				id,
+				name_legal AS "name_legal",
+				name_brand AS "name_brand",
+				date_year_established AS "date_year_established",
+				file_logo_square AS "file_logo_square",
+				file_logo_favicon_square AS "file_logo_favicon_square",
+				status_featured AS "status_featured",
+				status_hide_page AS "status_hide_page", 
+				status_operating AS "status_operating",
+				status_sitemap_show AS "status_sitemap_show",
+				status_verified AS "status_verified",
+				functional_currency AS "functional_currency",
+				type_record AS "type_record",
+				slug,
+				source_id AS "source_id",
+				updated_at AS "updated_at",
+				created_at AS "created_at",
+				updated_at_unified AS "updated_at_unified"
+			FROM research.res_entity
+			WHERE id = ANY(${pgArray([...new Set(ids)])}::uuid[])
+		`;
+		return results as Entity[];
+	},
+
+	/**
+	 * Get entities by slugs in a single round trip
+	 *
+	 * @param slugs URL slugs of the entities; duplicates are ignored
+	 * @returns Array of entities found, in no particular order
+	 */
+	getBySlugs: async (slugs: readonly string[]): Promise<Entity[]> => {
+		if (!sql || slugs.length === 0) return [];
+
+		const results = await sql`
+			SELECT 
+				id,
+				name_legal AS "name_legal",
+				name_brand AS "name_brand",
+				date_year_established AS "date_year_established",
+				file_logo_square AS "file_logo_square",
+				file_logo_favicon_square AS "file_logo_favicon_square",
+				status_featured AS "status_featured",
+				status_hide_page AS "status_hide_page", 
+				status_operating AS "status_operating",
+				status_sitemap_show AS "status_sitemap_show",
+				status_verified AS "status_verified",
+				functional_currency AS "functional_currency",
+				type_record AS "type_record",
+				slug,
+				source_id AS "source_id",
+				updated_at AS "updated_at",
+				created_at AS "created_at",
+				updated_at_unified AS "updated_at_unified"
+			FROM research.res_entity
+			WHERE slug = ANY(${pgArray([...new Set(slugs)])}::text[])
+		`;
+		return results as Entity[];
+	},
+
+	/**
+	 * Get entities whose brand or legal name equals the given name, ignoring case
+	 *
+	 * @param name Brand or legal name
+	 * @returns Matching entities; more than one means the name is ambiguous
+	 */
+	getByExactName: async (name: string): Promise<Entity[]> => {
+		if (!sql || !name.trim()) return [];
+
+		const results = await sql`
+			SELECT
+				id,
+				name_legal AS "name_legal",
+				name_brand AS "name_brand",
+				date_year_established AS "date_year_established",
+				file_logo_square AS "file_logo_square",
+				file_logo_favicon_square AS "file_logo_favicon_square",
+				status_featured AS "status_featured",
+				status_hide_page AS "status_hide_page",
+				status_operating AS "status_operating",
+				status_sitemap_show AS "status_sitemap_show",
+				status_verified AS "status_verified",
+				functional_currency AS "functional_currency",
+				type_record AS "type_record",
+				slug,
+				source_id AS "source_id",
+				updated_at AS "updated_at",
+				created_at AS "created_at",
+				updated_at_unified AS "updated_at_unified"
+			FROM research.res_entity
+			WHERE lower(name_brand) = lower(${name.trim()})
+			   OR lower(name_legal) = lower(${name.trim()})
+			ORDER BY name_brand ASC
+		`;
+		return results as Entity[];
+	},
+
 	/**
 	 * Get company entity by ID
 	 *
@@ -235,40 +381,132 @@ export const entityQueries = {
 	},
 
 	/**
-	 * Search entities by name
+	 * List entities with filters, sorting and keyset pagination
 	 *
-	 * @param query Search query
+	 * Filters are passed as nullable parameters so a single prepared statement
+	 * covers every combination. Rows are ordered by a text sort key derived from
+	 * the requested sort column, with the entity ID as a tie-breaker, which keeps
+	 * pages stable while rows are inserted.
+	 *
+	 * @param filters Optional filters (unset filters are ignored)
+	 * @param sort Sort column
+	 * @param direction Sort direction
 	 * @param limit Maximum number of results
-	 * @returns Array of matching entities
+	 * @param cursor Keyset position of the last row of the previous page
+	 * @returns Array of entities with their sort keys
 	 */
-	search: async (query: string, limit = 10): Promise<Entity[]> => {
-		const searchPattern = `%${query}%`;
+	listFiltered: async (
+		filters: EntityListFilters = {},
+		sort: EntityListSort = 'name',
+		direction: 'asc' | 'desc' = 'asc',
+		limit = 20,
+		cursor: EntityListCursor | null = null
+	): Promise<EntityListRow[]> => {
 		const results = await sql`
-			SELECT 
-				id,
-				name_legal AS "name_legal",
-				name_brand AS "name_brand",
-				date_year_established AS "date_year_established",
-				file_logo_square AS "file_logo_square",
-				file_logo_favicon_square AS "file_logo_favicon_square",
-				status_featured AS "status_featured",
-				status_hide_page AS "status_hide_page", 
-				status_operating AS "status_operating",
-				status_sitemap_show AS "status_sitemap_show",
-				status_verified AS "status_verified",
-				functional_currency AS "functional_currency",
-				type_record AS "type_record",
-				slug,
-				source_id AS "source_id",
-				updated_at AS "updated_at",
-				created_at AS "created_at",
-				updated_at_unified AS "updated_at_unified"
-			FROM research.res_entity
-			WHERE name_brand ILIKE ${searchPattern}
-			   OR name_legal ILIKE ${searchPattern}
-			ORDER BY name_brand ASC
+			WITH filtered AS (
+				SELECT
+					e.id,
+					e.name_legal AS "name_legal",
+					e.name_brand AS "name_brand",
+					e.date_year_established AS "date_year_established",
+					e.file_logo_square AS "file_logo_square",
+					e.file_logo_favicon_square AS "file_logo_favicon_square",
+					e.status_featured AS "status_featured",
+					e.status_hide_page AS "status_hide_page",
+					e.status_operating AS "status_operating",
+					e.status_sitemap_show AS "status_sitemap_show",
+					e.status_verified AS "status_verified",
+					e.functional_currency AS "functional_currency",
+					e.type_record AS "type_record",
+					e.slug,
+					e.source_id AS "source_id",
+					e.updated_at AS "updated_at",
+					e.created_at AS "created_at",
+					e.updated_at_unified AS "updated_at_unified",
+					CASE ${sort}
+						WHEN 'founded' THEN lpad(coalesce(e.date_year_established, 0)::text, 4, '0')
+						WHEN 'updated' THEN coalesce(to_char(e.updated_at, 'YYYY-MM-DD"T"HH24:MI:SS.US'), '')
+						WHEN 'created' THEN coalesce(to_char(e.created_at, 'YYYY-MM-DD"T"HH24:MI:SS.US'), '')
+						ELSE lower(coalesce(e.name_brand, e.name_legal, ''))
+					END AS "sort_key"
+				FROM research.res_entity e
+				WHERE (${filters.typeRecord ?? null}::text IS NULL OR e.type_record = ${filters.typeRecord ?? null})
+				  AND (${filters.statusOperating ?? null}::text IS NULL OR e.status_operating = ${filters.statusOperating ?? null})
+				  AND (${filters.statusFeatured ?? null}::boolean IS NULL OR e.status_featured = ${filters.statusFeatured ?? null})
+				  AND (${filters.statusVerified ?? null}::boolean IS NULL OR e.status_verified = ${filters.statusVerified ?? null})
+				  AND (${filters.foundedMin ?? null}::int IS NULL OR e.date_year_established >= ${filters.foundedMin ?? null})
+				  AND (${filters.foundedMax ?? null}::int IS NULL OR e.date_year_established <= ${filters.foundedMax ?? null})
+				  AND (
+					${filters.typeTagSlug ?? null}::text IS NULL
+					OR EXISTS (
+						SELECT 1
+						FROM research.res_entity_type_join etj
+						INNER JOIN research.res_type_ref tr
+							ON etj.type_id = tr.id
+						WHERE etj.entity_id = e.id
+							AND etj.is_current = true
+							AND tr.slug = ${filters.typeTagSlug ?? null}
+					)
+				  )
+			)
+			SELECT * FROM filtered
+			WHERE ${cursor?.sortKey ?? null}::text IS NULL
+			   OR (${direction} = 'asc' AND (sort_key, id::text) > (${cursor?.sortKey ?? null}, ${cursor?.id ?? null}))
+			   OR (${direction} = 'desc' AND (sort_key, id::text) < (${cursor?.sortKey ?? null}, ${cursor?.id ?? null}))
+			ORDER BY
+				CASE WHEN ${direction} = 'asc' THEN sort_key END ASC,
+				CASE WHEN ${direction} = 'asc' THEN id::text END ASC,
+				CASE WHEN ${direction} = 'desc' THEN sort_key END DESC,
+				CASE WHEN ${direction} = 'desc' THEN id::text END DESC
 			LIMIT ${limit}
 		`;
-		return results as Entity[];
+		return results as EntityListRow[];
+	},
+
+	/**
+	 * Count entities matching the filtered listing filters
+	 *
+	 * @param filters Optional filters (same semantics as listFiltered)
+	 * @returns Total number of matching entities
+	 */
+	countFiltered: async (filters: EntityListFilters = {}): Promise<number> => {
+		const [result] = await sql`
+			SELECT count(*)::int AS "total"
+			FROM research.res_entity e
+			WHERE (${filters.typeRecord ?? null}::text IS NULL OR e.type_record = ${filters.typeRecord ?? null})
+			  AND (${filters.statusOperating ?? null}::text IS NULL OR e.status_operating = ${filters.statusOperating ?? null})
+			  AND (${filters.statusFeatured ?? null}::boolean IS NULL OR e.status_featured = ${filters.statusFeatured ?? null})
+			  AND (${filters.statusVerified ?? null}::boolean IS NULL OR e.status_verified = ${filters.statusVerified ?? null})
+			  AND (${filters.foundedMin ?? null}::int IS NULL OR e.date_year_established >= ${filters.foundedMin ?? null})
+			  AND (${filters.foundedMax ?? null}::int IS NULL OR e.date_year_established <= ${filters.foundedMax ?? null})
+			  AND (
+				${filters.typeTagSlug ?? null}::text IS NULL
+				OR EXISTS (
+					SELECT 1
+					FROM research.res_entity_type_join etj
+					INNER JOIN research.res_type_ref tr
+						ON etj.type_id = tr.id
+					WHERE etj.entity_id = e.id
+						AND etj.is_current = true
+						AND tr.slug = ${filters.typeTagSlug ?? null}
+				)
+			  )
+		`;
+		return (result as { total: number } | undefined)?.total ?? 0;
+	},
+
+	/**
+	 * Search entities by name
+	 *
+	 * Uses the ranked full-text and trigram search, so results are ordered by
+	 * relevance and tolerate typos and partial brand names.
+	 *
+	 * @param query Search query
+	 * @param limit Maximum number of results
+	 * @returns Array of matching entities, best match first
+	 * @link src/lib/server/db/queries/search.ts - Ranked search implementation
+	 */
+	search: async (query: string, limit = 10): Promise<Entity[]> => {
+		return searchQueries.search(query, { limit });
 	}
 };
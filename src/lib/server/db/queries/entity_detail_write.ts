@@ -0,0 +1,184 @@
+/**
+ * Entity detail write queries for PostgreSQL
+ *
+ * This is the only write path into research.res_entity_detail. Every other query
+ * module is READ-ONLY as specified in project requirements; these queries are
+ * used exclusively by the opt-in competitive analysis commit endpoint and must
+ * run inside entityQueries.transaction.
+ *
+ * Details are upserted on (entity_id, type_research_detail, as_of_date). Rows with
+ * data_confidence = 'verified' are never overwritten, and provenance (model, prompt
+ * version, cost, timestamp) is stored as JSON in the notes column.
+ *
+ * @link $lib/schemas/research/detail.schema.ts - Source of truth schema
+ * @link src/routes/api/rest/v1/company/competitive-analysis/commit/+server.ts - Commit endpoint
+ */
+
+import { browser } from '$app/environment';
+import type { SQLInstance } from '../../../database/sql.server';
+import type { DataConfidence, SourceType, TypeResearchDetail } from '$lib/schemas/research';
+
+if (browser) {
+	throw new Error('Server-only module leaked to client!');
+}
+
+/**
+ * Provenance of an LLM-generated analysis
+ */
+export interface AnalysisProvenance {
+	// LLM provider that produced the values (e.g. 'direct', 'openrouter')
+	creator: string;
+	model: string;
+	provider: string | null;
+	promptVersion: string;
+	costUSD: number | null;
+	totalTokens: number | null;
+	// When the analysis was generated (ISO timestamp)
+	analyzedAt: string;
+}
+
+/**
+ * Detail record to write, as built by mapAnalysisToEntityDetails
+ */
+export interface EntityDetailWriteRecord {
+	type_research_detail: TypeResearchDetail;
+	data_confidence: DataConfidence;
+	source_type: SourceType;
+	as_of_date: string;
+	discrete_value?: number;
+	text_value?: string;
+}
+
+/**
+ * Outcome of writing one detail record
+ */
+export interface EntityDetailWriteResult {
+	type_research_detail: TypeResearchDetail;
+	as_of_date: string;
+	status: 'inserted' | 'updated' | 'skipped_verified';
+	detail_id: number;
+}
+
+/**
+ * Serialize provenance for the notes column
+ */
+function provenanceNotes(provenance: AnalysisProvenance): string {
+	return JSON.stringify({
+		provenance: 'llm_analysis',
+		creator: provenance.creator,
+		model: provenance.model,
+		provider: provenance.provider,
+		prompt_version: provenance.promptVersion,
+		cost_usd: provenance.costUSD,
+		total_tokens: provenance.totalTokens,
+		analyzed_at: provenance.analyzedAt
+	});
+}
+
+/**
+ * Entity detail write queries; each method takes the transaction instance
+ */
+export const entityDetailWriteQueries = {
+	/**
+	 * Upsert analysis detail records for one entity
+	 *
+	 * Existing rows for the same type and as_of_date are locked and updated in
+	 * place unless any of them is verified, in which case the record is skipped.
+	 *
+	 * @param tx Transaction from entityQueries.transaction
+	 * @param entityId UUID of the entity the details belong to
+	 * @param records Detail records to write
+	 * @param provenance Model, prompt version, cost and timestamp of the analysis
+	 * @returns One result per record, in input order
+	 */
+	upsertDetails: async (
+		tx: SQLInstance,
+		entityId: string,
+		records: EntityDetailWriteRecord[],
+		provenance: AnalysisProvenance
+	): Promise<EntityDetailWriteResult[]> => {
+		const notes = provenanceNotes(provenance);
+		const results: EntityDetailWriteResult[] = [];
+
+		for (const record of records) {
+			const existing = (await tx`
+				SELECT id, data_confidence AS "data_confidence"
+				FROM research.res_entity_detail
+				WHERE entity_id = ${entityId}
+				  AND type_research_detail = ${record.type_research_detail}
+				  AND as_of_date::date IS NOT DISTINCT FROM ${record.as_of_date}::date
+				ORDER BY id ASC
+				FOR UPDATE
+			`) as { id: number; data_confidence: DataConfidence }[];
+
+			const verified = existing.find((row) => row.data_confidence === 'verified');
+			if (verified) {
+				results.push({
+					type_research_detail: record.type_research_detail,
+					as_of_date: record.as_of_date,
+					status: 'skipped_verified',
+					detail_id: verified.id
+				});
+				continue;
+			}
+
+			if (existing.length > 0) {
+				await tx`
+					UPDATE research.res_entity_detail
+					SET data_confidence = ${record.data_confidence},
+						source_type = ${record.source_type},
+						discrete_value = ${record.discrete_value ?? null},
+						text_value = ${record.text_value ?? null},
+						source_date = ${provenance.analyzedAt},
+						notes = ${notes},
+						updated_at = now()
+					WHERE id = ${existing[0].id}
+				`;
+				results.push({
+					type_research_detail: record.type_research_detail,
+					as_of_date: record.as_of_date,
+					status: 'updated',
+					detail_id: existing[0].id
+				});
+				continue;
+			}
+
+			const [inserted] = (await tx`
+				INSERT INTO research.res_entity_detail (
+					entity_id,
+					type_research_detail,
+					data_confidence,
+					source_type,
+					as_of_date,
+					discrete_value,
+					text_value,
+					source_date,
+					notes,
+					created_at,
+					updated_at
+				) VALUES (
+					${entityId},
+					${record.type_research_detail},
+					${record.data_confidence},
+					${record.source_type},
+					${record.as_of_date},
+					${record.discrete_value ?? null},
+					${record.text_value ?? null},
+					${provenance.analyzedAt},
+					${notes},
+					now(),
+					now()
+				)
+				RETURNING id
+			`) as { id: number }[];
+			results.push({
+				type_research_detail: record.type_research_detail,
+				as_of_date: record.as_of_date,
+				status: 'inserted',
+				detail_id: inserted.id
+			});
+		}
+
+		return results;
+	}
+};
@@ -0,0 +1,113 @@
+/**
+ * Entity resolution candidate queries for PostgreSQL
+ *
+ * Finds res_entity rows whose brand or legal name matches names produced by the
+ * LLM analysis, so generated products and competitors can be linked to existing
+ * records. Candidates are fetched for many names in one round trip; scoring and
+ * ambiguity checks happen in the caller.
+ *
+ * Uses the pg_trgm extension and trigram indexes listed in ./search.ts.
+ *
+ * @link $lib/schemas/research/entity.schema.ts - Source of truth schema
+ * @link src/routes/api/rest/v1/research/sharedObjects/entityResolution.ts - Scoring
+ */
+
+import { browser } from '$app/environment';
+import { pgArray, sql } from '../../../database/sql.server';
+
+if (browser) {
+	throw new Error('Server-only module leaked to client!');
+}
+
+/**
+ * Name to resolve: the name as generated and its normalized form
+ */
+export interface EntityNameQuery {
+	raw: string;
+	normalized: string;
+}
+
+/**
+ * Candidate row for one queried name
+ */
+export interface EntityNameCandidate {
+	// Position of the name in the queried list
+	input_index: number;
+	id: string;
+	slug: string | null;
+	name_brand: string | null;
+	name_legal: string | null;
+	type_record: string | null;
+	// Best trigram similarity of brand or legal name to the raw or normalized input
+	name_similarity: number;
+}
+
+/**
+ * Type-safe entity resolution queries over res_entity
+ * All queries are READ-ONLY as specified in project requirements
+ */
+export const entityResolutionQueries = {
+	/**
+	 * Find name match candidates for a list of names
+	 *
+	 * Returns case-insensitive exact matches and trigram matches (pg_trgm `%`
+	 * operator, default threshold 0.3) on brand and legal names, compared against
+	 * both the raw and the normalized input.
+	 *
+	 * @param names Names to resolve
+	 * @param limit Maximum candidates per name
+	 * @returns Candidates tagged with the index of the name they match
+	 */
+	findNameCandidates: async (
+		names: readonly EntityNameQuery[],
+		limit = 5
+	): Promise<EntityNameCandidate[]> => {
+		if (!sql || names.length === 0) return [];
+
+		const results = await sql`
+			WITH q AS (
+				SELECT
+					(t.ordinality - 1)::int AS input_index,
+					t.raw,
+					t.normalized
+				FROM unnest(
+					${pgArray(names.map((name) => name.raw))}::text[],
+					${pgArray(names.map((name) => name.normalized))}::text[]
+				) WITH ORDINALITY AS t(raw, normalized, ordinality)
+			)
+			SELECT
+				q.input_index AS "input_index",
+				c.id,
+				c.slug,
+				c.name_brand AS "name_brand",
+				c.name_legal AS "name_legal",
+				c.type_record AS "type_record",
+				c.name_similarity AS "name_similarity"
+			FROM q
+			CROSS JOIN LATERAL (
+				SELECT
+					e.id,
+					e.slug,
+					e.name_brand,
+					e.name_legal,
+					e.type_record,
+					greatest(
+						similarity(coalesce(e.name_brand, ''), q.raw),
+						similarity(coalesce(e.name_legal, ''), q.raw),
+						similarity(coalesce(e.name_brand, ''), q.normalized),
+						similarity(coalesce(e.name_legal, ''), q.normalized)
+					)::float AS name_similarity
+				FROM research.res_entity e
+				WHERE lower(e.name_brand) = lower(q.raw)
+				   OR lower(e.name_legal) = lower(q.raw)
+				   OR e.name_brand % q.raw
+				   OR e.name_legal % q.raw
+				   OR e.name_brand % q.normalized
+				   OR e.name_legal % q.normalized
+				ORDER BY name_similarity DESC, e.id ASC
+				LIMIT ${limit}
+			) c
+		`;
+		return results as EntityNameCandidate[];
+	}
+};
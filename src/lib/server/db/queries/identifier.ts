@@ -0,0 +1,134 @@
+/**
+ * Unique identifier query builder for PostgreSQL
+ *
+ * This file provides type-safe queries for the res_unique_id table, which maps
+ * external identifiers (ticker, CIK, DUNS, EIN, Bloomberg ID) to entities,
+ * using Zod schemas as the single source of truth for types.
+ *
+ * @link $lib/schemas/research/unique_id.schema.ts - Source of truth schema
+ */
+
+import { browser } from '$app/environment';
+import { pgArray, sql } from '../../../database/sql.server';
+import type { EntityIdentifier, IdentifierType } from '$lib/schemas/research';
+
+if (browser) {
+	throw new Error('Server-only module leaked to client!');
+}
+
+/**
+ * Query parameter names accepted for identifier lookups, mapped to id_type values
+ */
+export const identifierLookupParams = {
+	ticker: 'ticker_symbol',
+	cik: 'cik_number',
+	duns: 'duns_number',
+	ein: 'US EIN',
+	bloomberg: 'bloomberg_id'
+} as const satisfies Record<string, IdentifierType>;
+
+export type IdentifierLookupParam = keyof typeof identifierLookupParams;
+
+// Identifier types stored with inconsistent punctuation and zero padding
+// (e.g. CIK "0000320193" vs "320193", EIN "94-2404110" vs "942404110")
+const numericIdentifierTypes: IdentifierType[] = ['cik_number', 'duns_number', 'US EIN'];
+
+/**
+ * Normalize an identifier value for comparison
+ *
+ * Numeric identifiers keep only their digits without leading zeros; all other
+ * identifiers are trimmed and upper-cased (tickers, Bloomberg IDs).
+ *
+ * @param idType Identifier type
+ * @param value Raw identifier value
+ * @returns Normalized value, or null if nothing usable remains
+ */
+export function normalizeIdentifier(idType: IdentifierType, value: string): string | null {
+	const normalized = numericIdentifierTypes.includes(idType)
+		? value.replace(/\D/g, '').replace(/^0+/, '')
+		: value.trim().toUpperCase();
+	return normalized || null;
+}
+
+/**
+ * Type-safe identifier queries for the res_unique_id table
+ * All queries are READ-ONLY as specified in project requirements
+ */
+export const identifierQueries = {
+	/**
+	 * Get all identifiers for an entity
+	 *
+	 * @param entityId UUID of the entity
+	 * @returns Array of identifiers ordered by type
+	 */
+	getByEntityId: async (entityId: string): Promise<EntityIdentifier[]> => {
+		if (!sql) return [];
+
+		const results = await sql`
+			SELECT
+				id_type AS "id_type",
+				unique_id AS "unique_id"
+			FROM research.res_unique_id
+			WHERE entity_id = ${entityId}
+			ORDER BY id_type ASC, unique_id ASC
+		`;
+		return results as EntityIdentifier[];
+	},
+
+	/**
+	 * Get identifiers for many entities in a single round trip
+	 *
+	 * @param entityIds UUIDs of the entities
+	 * @returns Identifier rows tagged with entity_id
+	 */
+	getByEntityIds: async (
+		entityIds: readonly string[]
+	): Promise<(EntityIdentifier & { entity_id: string })[]> => {
+		if (!sql || entityIds.length === 0) return [];
+
+		const results = await sql`
+			SELECT
+				entity_id AS "entity_id",
+				id_type AS "id_type",
+				unique_id AS "unique_id"
+			FROM research.res_unique_id
+			WHERE entity_id = ANY(${pgArray(entityIds)}::uuid[])
+			ORDER BY id_type ASC, unique_id ASC
+		`;
+		return results as (EntityIdentifier & { entity_id: string })[];
+	},
+
+	/**
+	 * Find entity IDs carrying an external identifier
+	 *
+	 * More than one entity can match (e.g. a ticker reused after a delisting), so
+	 * callers decide how to handle ambiguity. Most recently updated entities first.
+	 *
+	 * @param idType Identifier type (e.g. 'ticker_symbol')
+	 * @param value Identifier value as supplied by the caller
+	 * @returns Array of matching entity UUIDs
+	 */
+	findEntityIds: async (idType: IdentifierType, value: string): Promise<string[]> => {
+		if (!sql) return [];
+
+		const normalized = normalizeIdentifier(idType, value);
+		if (!normalized) return [];
+
+		const compareDigits = numericIdentifierTypes.includes(idType);
+
+		const results = await sql`
+			SELECT u.entity_id AS "entity_id"
+			FROM research.res_unique_id u
+			INNER JOIN research.res_entity e ON e.id = u.entity_id
+			WHERE u.id_type = ${idType}
+			  AND CASE
+					WHEN ${compareDigits}::boolean
+						THEN ltrim(regexp_replace(u.unique_id, '[^0-9]', '', 'g'), '0') = ${normalized}
+					ELSE upper(trim(u.unique_id)) = ${normalized}
+				  END
+			GROUP BY u.entity_id, e.updated_at
+			ORDER BY e.updated_at DESC NULLS LAST
+		`;
+		return (results as { entity_id: string }[]).map((row) => row.entity_id);
+	}
+};
@@ -0,0 +1,185 @@
+/**
+ * Entity relationship query builder for PostgreSQL
+ *
+ * This file provides type-safe queries for the res_entity_relationship table
+ * using Zod schemas as the single source of truth for types.
+ *
+ * Relationships are stored once as (entity1, entity2). For directed types entity1
+ * is the acquirer, parent company or category and entity2 the acquiree, division
+ * or member. Queries return one row per (subject entity, counterpart) with the
+ * direction seen from the subject.
+ *
+ * @link $lib/schemas/research/relationship.schema.ts - Source of truth schema
+ */
+
+import { browser } from '$app/environment';
+import { pgArray, sql } from '../../../database/sql.server';
+import type { RelationshipType } from '$lib/schemas/research';
+
+if (browser) {
+	throw new Error('Server-only module leaked to client!');
+}
+
+/**
+ * Direction of a relationship seen from the subject entity
+ * outgoing: subject is entity1; incoming: subject is entity2
+ */
+export type RelationshipDirection = 'outgoing' | 'incoming';
+
+/**
+ * Role the counterpart can play for the subject entity
+ */
+export type RelationshipRole =
+	| 'competitor'
+	| 'member'
+	| 'category'
+	| 'merger_partner'
+	| 'acquiree'
+	| 'acquirer'
+	| 'division'
+	| 'parent';
+
+/**
+ * Get the role the counterpart plays, per relationship type and direction
+ *
+ * @param type Relationship type
+ * @param direction Direction seen from the subject entity
+ * @returns Counterpart role (e.g. 'acquirer' for an incoming Acquirer-Acquiree)
+ */
+export function getRelationshipRole(
+	type: RelationshipType,
+	direction: RelationshipDirection
+): RelationshipRole {
+	const outgoing = direction === 'outgoing';
+	switch (type) {
+		case 'Category-Member':
+			return outgoing ? 'member' : 'category';
+		case 'Acquirer-Acquiree':
+			return outgoing ? 'acquiree' : 'acquirer';
+		case 'Company-Division':
+			return outgoing ? 'division' : 'parent';
+		case 'Merger-Acquisition':
+			return 'merger_partner';
+		default:
+			return 'competitor';
+	}
+}
+
+/**
+ * Relationship row with the resolved counterpart entity
+ */
+export interface EntityRelationshipRow {
+	id: number;
+	relationship_type: RelationshipType;
+	is_current: boolean | null;
+	source_id: string | null;
+	// Entity the relationship was fetched for
+	entity_id: string;
+	direction: RelationshipDirection;
+	counterpart_id: string;
+	counterpart_name_brand: string | null;
+	counterpart_name_legal: string | null;
+	counterpart_slug: string | null;
+	counterpart_file_logo_square: string | null;
+	counterpart_type_record: string | null;
+}
+
+/**
+ * Filters for relationship queries
+ */
+export interface RelationshipFilters {
+	// Restrict to these relationship types; all types when empty or unset
+	relationshipTypes?: RelationshipType[] | null;
+	// Include relationships marked is_current = false
+	includeHistorical?: boolean;
+}
+
+/**
+ * Type-safe relationship queries for the res_entity_relationship table
+ * All queries are READ-ONLY as specified in project requirements
+ */
+export const relationshipQueries = {
+	/**
+	 * Get relationships for many entities in a single round trip
+	 *
+	 * A relationship between two requested entities is returned once for each side.
+	 *
+	 * @param entityIds UUIDs of the subject entities
+	 * @param filters Optional relationship types and historical filter
+	 * @returns Relationship rows with counterpart entities; group by entity_id
+	 */
+	getByEntityIds: async (
+		entityIds: readonly string[],
+		filters: RelationshipFilters = {}
+	): Promise<EntityRelationshipRow[]> => {
+		if (!sql || entityIds.length === 0) return [];
+
+		const ids = pgArray(entityIds);
+		const relationshipTypes = filters.relationshipTypes?.length
+			? pgArray(filters.relationshipTypes)
+			: null;
+		const includeHistorical = filters.includeHistorical ?? false;
+
+		const results = await sql`
+			WITH directed AS (
+				SELECT
+					r.id,
+					r.relationship_type,
+					r.is_current,
+					r.source_id,
+					r.entity1 AS entity_id,
+					r.entity2 AS counterpart_id,
+					'outgoing' AS direction
+				FROM research.res_entity_relationship r
+				WHERE r.entity1 = ANY(${ids}::uuid[])
+				UNION ALL
+				SELECT
+					r.id,
+					r.relationship_type,
+					r.is_current,
+					r.source_id,
+					r.entity2 AS entity_id,
+					r.entity1 AS counterpart_id,
+					'incoming' AS direction
+				FROM research.res_entity_relationship r
+				WHERE r.entity2 = ANY(${ids}::uuid[])
+			)
+			SELECT
+				d.id,
+				d.relationship_type AS "relationship_type",
+				d.is_current AS "is_current",
+				d.source_id AS "source_id",
+				d.entity_id AS "entity_id",
+				d.direction,
+				e.id AS "counterpart_id",
+				e.name_brand AS "counterpart_name_brand",
+				e.name_legal AS "counterpart_name_legal",
+				e.slug AS "counterpart_slug",
+				e.file_logo_square AS "counterpart_file_logo_square",
+				e.type_record AS "counterpart_type_record"
+			FROM directed d
+			INNER JOIN research.res_entity e ON e.id = d.counterpart_id
+			WHERE (
+				${relationshipTypes}::text[] IS NULL
+				OR d.relationship_type = ANY(${relationshipTypes}::text[])
+			  )
+			  AND (${includeHistorical}::boolean OR d.is_current IS DISTINCT FROM false)
+			ORDER BY d.relationship_type ASC, e.name_brand ASC
+		`;
+		return results as EntityRelationshipRow[];
+	},
+
+	/**
+	 * Get relationships for one entity
+	 *
+	 * @param entityId UUID of the subject entity
+	 * @param filters Optional relationship types and historical filter
+	 * @returns Relationship rows with counterpart entities
+	 */
+	getByEntityId: async (
+		entityId: string,
+		filters: RelationshipFilters = {}
+	): Promise<EntityRelationshipRow[]> => {
+		return relationshipQueries.getByEntityIds([entityId], filters);
+	}
+};
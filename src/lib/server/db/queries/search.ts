@@ -0,0 +1,300 @@
+/**
+ * Ranked search query builder for PostgreSQL
+ *
+ * This file provides ranked company search over res_entity names and
+ * res_text_new descriptions. It combines:
+ * 1. Full-text search with prefix matching on brand/legal names
+ * 2. Trigram similarity (pg_trgm) on names to tolerate typos ("Micorsoft")
+ * 3. Full-text search over description and scraped website text
+ *
+ * Required database objects (created once by a DBA, queries stay READ-ONLY):
+ *
+ *   CREATE EXTENSION IF NOT EXISTS pg_trgm;
+ *   CREATE INDEX res_entity_name_brand_trgm ON research.res_entity
+ *     USING gin (name_brand gin_trgm_ops);
+ *   CREATE INDEX res_entity_name_legal_trgm ON research.res_entity
+ *     USING gin (name_legal gin_trgm_ops);
+ *   CREATE INDEX res_entity_name_fts ON research.res_entity
+ *     USING gin (to_tsvector('simple', coalesce(name_brand, '') || ' ' || coalesce(name_legal, '')));
+ *   CREATE INDEX res_text_new_text_fts ON research.res_text_new
+ *     USING gin (to_tsvector('english', coalesce(text, '')));
+ *
+ * @link $lib/schemas/research/entity.schema.ts - Source of truth schema
+ * @link $lib/schemas/research/text.schema.ts - Text schema
+ */
+
+import { browser } from '$app/environment';
+import { pgArray, sql } from '../../../database/sql.server';
+import type { Entity } from '$lib/schemas/research';
+
+if (browser) {
+	throw new Error('Server-only module leaked to client!');
+}
+
+// Text types searched for descriptive matches
+const searchableTextTypes = ['description_medium', 'legacy_description_short', 'scraped_website'];
+
+// Relevance weights for the combined score
+const searchWeights = {
+	nameSimilarity: 0.5,
+	nameFullText: 0.3,
+	textFullText: 0.2,
+	exactNameBonus: 1
+};
+
+/**
+ * Ranked search result row
+ */
+export type EntitySearchResult = Entity & {
+	status_operating?: string | null;
+	score: number;
+	name_similarity: number;
+	name_rank: number;
+	text_rank: number;
+	name_highlight: string | null;
+	text_highlight: string | null;
+	text_type: string | null;
+};
+
+/**
+ * Lightweight typeahead suggestion row
+ */
+export interface EntitySuggestion {
+	id: string;
+	name: string;
+	slug: string | null;
+	file_logo_square: string | null;
+	primary_type_name: string | null;
+	primary_type_slug: string | null;
+	score: number;
+}
+
+/**
+ * Options for ranked search
+ */
+export interface EntitySearchOptions {
+	limit?: number;
+	typeRecord?: string | null;
+}
+
+/**
+ * Convert free text into a prefix tsquery string
+ *
+ * Each word becomes a prefix term so partial brand names ("strip" → "Stripe")
+ * match. Non-alphanumeric characters are dropped, which also makes the output
+ * safe to pass to to_tsquery.
+ *
+ * @param query Free-text search query
+ * @returns tsquery string such as "micro:* & soft:*", or null if no usable terms
+ */
+export function buildPrefixTsQuery(query: string): string | null {
+	const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+	if (!terms || terms.length === 0) {
+		return null;
+	}
+	return terms.map((term) => `${term}:*`).join(' & ');
+}
+
+/**
+ * Type-safe ranked search queries over res_entity and res_text_new
+ * All queries are READ-ONLY as specified in project requirements
+ */
+export const searchQueries = {
+	/**
+	 * Ranked full-text and fuzzy search for entities
+	 *
+	 * Highlights are HTML-escaped before <mark> tags are added so they can be
+	 * rendered as HTML safely.
+	 *
+	 * @param query Free-text search query
+	 * @param options Result limit and optional type_record filter
+	 * @returns Matching entities ordered by relevance score
+	 */
+	search: async (
+		query: string,
+		options: EntitySearchOptions = {}
+	): Promise<EntitySearchResult[]> => {
+		if (!sql) return [];
+
+		const { limit = 20, typeRecord = null } = options;
+		const rawQuery = query.trim();
+		const tsQuery = buildPrefixTsQuery(rawQuery);
+		if (!tsQuery) return [];
+
+		const results = await sql`
+			WITH q AS (
+				SELECT
+					${rawQuery}::text AS raw,
+					lower(${rawQuery}::text) AS lowered,
+					to_tsquery('simple', ${tsQuery}) AS name_query,
+					to_tsquery('english', ${tsQuery}) AS text_query
+			),
+			name_hits AS (
+				SELECT
+					e.id,
+					greatest(
+						similarity(coalesce(e.name_brand, ''), q.raw),
+						similarity(coalesce(e.name_legal, ''), q.raw)
+					) AS name_similarity,
+					ts_rank_cd(
+						to_tsvector('simple', coalesce(e.name_brand, '') || ' ' || coalesce(e.name_legal, '')),
+						q.name_query
+					) AS name_rank,
+					(lower(e.name_brand) = q.lowered OR lower(e.name_legal) = q.lowered) AS exact_match
+				FROM research.res_entity e, q
+				WHERE to_tsvector('simple', coalesce(e.name_brand, '') || ' ' || coalesce(e.name_legal, ''))
+						@@ q.name_query
+				   OR e.name_brand % q.raw
+				   OR e.name_legal % q.raw
+			),
+			text_hits AS (
+				SELECT DISTINCT ON (t.entity_id)
+					t.entity_id,
+					t.id AS text_id,
+					t.text_type,
+					ts_rank_cd(to_tsvector('english', coalesce(t.text, '')), q.text_query) AS text_rank
+				FROM research.res_text_new t, q
+				WHERE t.entity_id IS NOT NULL
+				  AND t.text_type = ANY(${pgArray(searchableTextTypes)}::text[])
+				  AND to_tsvector('english', coalesce(t.text, '')) @@ q.text_query
+				ORDER BY t.entity_id, text_rank DESC
+			),
+			ranked AS (
+				SELECT
+					coalesce(n.id, th.entity_id) AS entity_id,
+					coalesce(n.name_similarity, 0) AS name_similarity,
+					coalesce(n.name_rank, 0) AS name_rank,
+					coalesce(th.text_rank, 0) AS text_rank,
+					th.text_id,
+					th.text_type,
+					(
+						${searchWeights.nameSimilarity} * coalesce(n.name_similarity, 0)
+						+ ${searchWeights.nameFullText} * least(coalesce(n.name_rank, 0), 1)
+						+ ${searchWeights.textFullText} * least(coalesce(th.text_rank, 0), 1)
+						+ CASE WHEN coalesce(n.exact_match, false) THEN ${searchWeights.exactNameBonus} ELSE 0 END
+					) AS score
+				FROM name_hits n
+				FULL OUTER JOIN text_hits th ON th.entity_id = n.id
+			)
+			SELECT
+				e.id,
+				e.name_legal AS "name_legal",
+				e.name_brand AS "name_brand",
+				e.date_year_established AS "date_year_established",
+				e.file_logo_square AS "file_logo_square",
+				e.file_logo_favicon_square AS "file_logo_favicon_square",
+				e.status_featured AS "status_featured",
+				e.status_hide_page AS "status_hide_page",
+				e.status_operating AS "status_operating",
+				e.status_sitemap_show AS "status_sitemap_show",
+				e.status_verified AS "status_verified",
+				e.functional_currency AS "functional_currency",
+				e.type_record AS "type_record",
+				e.slug,
+				e.source_id AS "source_id",
+				e.updated_at AS "updated_at",
+				e.created_at AS "created_at",
+				e.updated_at_unified AS "updated_at_unified",
+				round(r.score::numeric, 4)::float AS "score",
+				round(r.name_similarity::numeric, 4)::float AS "name_similarity",
+				round(r.name_rank::numeric, 4)::float AS "name_rank",
+				round(r.text_rank::numeric, 4)::float AS "text_rank",
+				ts_headline(
+					'simple',
+					replace(replace(replace(coalesce(e.name_brand, e.name_legal, ''), '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+					q.name_query,
+					'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'
+				) AS "name_highlight",
+				CASE WHEN t.id IS NULL THEN NULL ELSE ts_headline(
+					'english',
+					replace(replace(replace(coalesce(t.text, ''), '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+					q.text_query,
+					'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2'
+				) END AS "text_highlight",
+				r.text_type AS "text_type"
+			FROM ranked r
+			CROSS JOIN q
+			INNER JOIN research.res_entity e ON e.id = r.entity_id
+			LEFT JOIN research.res_text_new t ON t.id = r.text_id
+			WHERE (${typeRecord}::text IS NULL OR e.type_record = ${typeRecord})
+			  AND coalesce(e.status_hide_page, false) = false
+			ORDER BY r.score DESC, e.name_brand ASC
+			LIMIT ${limit}
+		`;
+		return results as EntitySearchResult[];
+	},
+
+	/**
+	 * Typeahead suggestions by name
+	 *
+	 * Name-only variant of search for autocomplete: prefix matches rank first,
+	 * trigram similarity catches typos. Skips text search and highlighting to
+	 * stay cheap enough to run on every keystroke.
+	 *
+	 * @param query Partial name typed by the user
+	 * @param limit Maximum number of suggestions
+	 * @returns Suggestions with the primary type tag, best match first
+	 */
+	suggest: async (query: string, limit = 8): Promise<EntitySuggestion[]> => {
+		if (!sql) return [];
+
+		const rawQuery = query.trim();
+		const tsQuery = buildPrefixTsQuery(rawQuery);
+		if (!tsQuery) return [];
+
+		const results = await sql`
+			WITH q AS (
+				SELECT
+					${rawQuery}::text AS raw,
+					lower(${rawQuery}::text) AS lowered,
+					to_tsquery('simple', ${tsQuery}) AS name_query
+			),
+			hits AS (
+				SELECT
+					e.id,
+					coalesce(e.name_brand, e.name_legal) AS name,
+					e.slug,
+					e.file_logo_square,
+					(
+						CASE WHEN lower(e.name_brand) LIKE q.lowered || '%' THEN 1 ELSE 0 END
+						+ greatest(
+							similarity(coalesce(e.name_brand, ''), q.raw),
+							similarity(coalesce(e.name_legal, ''), q.raw)
+						)
+					) AS score
+				FROM research.res_entity e, q
+				WHERE coalesce(e.status_hide_page, false) = false
+				  AND e.slug IS NOT NULL
+				  AND (
+					to_tsvector('simple', coalesce(e.name_brand, '') || ' ' || coalesce(e.name_legal, ''))
+						@@ q.name_query
+					OR e.name_brand % q.raw
+					OR e.name_legal % q.raw
+				  )
+				ORDER BY score DESC, name ASC
+				LIMIT ${limit}
+			)
+			SELECT
+				h.id,
+				h.name,
+				h.slug,
+				h.file_logo_square AS "file_logo_square",
+				pt.type_name AS "primary_type_name",
+				pt.type_slug AS "primary_type_slug",
+				round(h.score::numeric, 4)::float AS "score"
+			FROM hits h
+			LEFT JOIN LATERAL (
+				SELECT tr.name AS type_name, tr.slug AS type_slug
+				FROM research.res_entity_type_join etj
+				INNER JOIN research.res_type_ref tr ON etj.type_id = tr.id
+				WHERE etj.entity_id = h.id
+				  AND etj.is_current = true
+				  AND tr.res_object = 'res_entity'
+				ORDER BY etj.is_primary DESC NULLS LAST, tr.name ASC
+				LIMIT 1
+			) pt ON true
+			ORDER BY h.score DESC, h.name ASC
+		`;
+		return results as EntitySuggestion[];
+	}
+};
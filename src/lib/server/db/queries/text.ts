@@ -8,7 +8,7 @@
  */
 
 import { browser } from '$app/environment';
-import { sql } from '../../../database/sql.server';
+import { pgArray, sql } from '../../../database/sql.server';
 import type { EntityText } from '$lib/schemas/research';
 
 if (browser) {
@@ -76,6 +76,44 @@ export const textQueries = {
 		return results as EntityText[];
 	},
 
+	/**
+	 * Retrieves text data for many entities in a single round trip
+	 *
+	 * Set-based counterpart of getEntityTextData for batch endpoints.
+	 *
+	 * @param entityIds UUIDs of the entities
+	 * @returns Text rows for all entities; group by entity_id
+	 */
+	getEntityTextDataByEntityIds: async (entityIds: readonly string[]): Promise<EntityText[]> => {
+		if (!sql || entityIds.length === 0) return [];
+
+		const results = await sql`
+			SELECT 
+				id,
+				res_object as "res_object",
+				text_type as "text_type",
+				text_name as "text_name",
+				text as "text",
+				source as "source",
+				entity_id as "entity_id",
+				fund_id as "fund_id",
+				person_id as "person_id",
+				is_current as "is_current",
+				is_primary as "is_primary",
+				created_at as "created_at",
+				updated_at as "updated_at"
+			FROM research.res_text_new
+			WHERE entity_id = ANY(${pgArray(entityIds)}::uuid[])
+			  AND (
+				res_object = 'res_entity' 
+				OR res_object IS NULL 
+				OR res_object = ''
+			  )
+		`;
+
+		return results as EntityText[];
+	},
+
 	/**
 	 * Get text records by text type
 	 *
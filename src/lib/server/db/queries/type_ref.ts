@@ -9,7 +9,7 @@
  */
 
 import { browser } from '$app/environment';
-import { sql } from '../../../database/sql.server';
+import { pgArray, sql } from '../../../database/sql.server';
 import type { TypeReference } from '$lib/schemas/research';
 
 if (browser) {
@@ -89,6 +89,40 @@ export const typeRefQueries = {
 		return results as EntityTypeTag[];
 	},
 
+	/**
+	 * Get entity type data for many entities in a single round trip
+	 *
+	 * Set-based counterpart of getEntityTypeData for batch endpoints.
+	 *
+	 * @param entityIds UUIDs of the entities to fetch types for
+	 * @returns Type tag rows tagged with entity_id
+	 */
+	getEntityTypeDataByEntityIds: async (
+		entityIds: readonly string[]
+	): Promise<(EntityTypeTag & { entity_id: string })[]> => {
+		if (!sql || entityIds.length === 0) return [];
+
+		const results = await sql`
+			SELECT 
+				etj.entity_id as entity_id,
+				etj.type_id as type_id,
+				tr.type as type_category,
+				tr.name as type_name,
+				tr.slug as slug,
+				tr.color_id as type_color_id,
+				etj.is_primary as is_primary,
+				etj.source as type_data_source
+			FROM research.res_entity_type_join etj
+			INNER JOIN research.res_type_ref tr
+				ON etj.type_id = tr.id
+			WHERE etj.entity_id = ANY(${pgArray(entityIds)}::uuid[])
+				AND etj.is_current = true
+				AND tr.res_object = 'res_entity'
+		`;
+
+		return results as (EntityTypeTag & { entity_id: string })[];
+	},
+
 	/**
 	 * Transform entity type data into a categorized structure
 	 *
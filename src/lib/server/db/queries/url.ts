@@ -8,13 +8,30 @@
  */
 
 import { browser } from '$app/environment';
-import { sql } from '../../../database/sql.server';
+import { pgArray, sql } from '../../../database/sql.server';
 import type { EntityWebUrl } from '$lib/schemas/research';
+import type { CanonicalUrl, UrlMatchMode } from '$lib/utils/urlCanonical.server';
 
 if (browser) {
 	throw new Error('Server-only module leaked to client!');
 }
 
+/**
+ * URL row with the canonical host and URL computed in SQL
+ * Mirrors canonicalizeUrl in $lib/utils/urlCanonical.server.ts
+ */
+export type CanonicalEntityWebUrl = EntityWebUrl & {
+	canonical_host: string;
+	canonical_url: string;
+};
+
+/**
+ * Escape LIKE wildcards in a literal pattern fragment
+ */
+function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, '\\$&');
+}
+
 /**
  * Type-safe URL data queries for the res_web_url_new table
  * All queries are READ-ONLY as specified in project requirements
@@ -67,6 +84,31 @@ export const urlQueries = {
 		return results as EntityWebUrl[];
 	},
 
+	/**
+	 * Get related URLs for many entities in a single round trip
+	 *
+	 * Set-based counterpart of getCompanyRelatedUrls for batch endpoints.
+	 *
+	 * @param entityIds UUIDs of the entities
+	 * @returns URL rows for all entities; group by entity_id
+	 */
+	getRelatedUrlsByEntityIds: async (entityIds: readonly string[]): Promise<EntityWebUrl[]> => {
+		if (!sql || entityIds.length === 0) return [];
+
+		const results = await sql`
+			SELECT 
+				id,
+				entity_id as "entity_id",
+				url_type as "url_type",
+				url,
+				updated_at as "updated_at",
+				created_at as "created_at"
+			FROM research.res_web_url_new
+			WHERE entity_id = ANY(${pgArray(entityIds)}::uuid[])
+		`;
+		return results as EntityWebUrl[];
+	},
+
 	/**
 	 * Get URLs by URL type
 	 *
@@ -106,5 +148,77 @@ export const urlQueries = {
 			LIMIT 1
 		`;
 		return (results[0] as EntityWebUrl) || null;
+	},
+
+	/**
+	 * Find URLs matching a canonicalized URL
+	 *
+	 * Stored URLs are canonicalized in SQL the same way as the input (scheme,
+	 * leading "www.", query string, fragment and trailing slashes removed; host
+	 * lower-cased). Candidates are pre-filtered with ILIKE on the registrable
+	 * domain, which a trigram index on url can serve:
+	 *
+	 *   CREATE INDEX res_web_url_new_url_trgm ON research.res_web_url_new
+	 *     USING gin (url gin_trgm_ops);
+	 *
+	 * @param canonical Canonicalized input URL
+	 * @param mode exact (same host and path), host (same host) or domain (same registrable domain)
+	 * @returns Matching URL rows with their canonical host and URL
+	 */
+	findByCanonicalUrl: async (
+		canonical: CanonicalUrl,
+		mode: UrlMatchMode
+	): Promise<CanonicalEntityWebUrl[]> => {
+		if (!sql) return [];
+
+		// IDNs may be stored in either punycode or Unicode form
+		const urls = pgArray([canonical.url, `${canonical.unicodeHost}${canonical.path}`]);
+		const hosts = pgArray([canonical.host, canonical.unicodeHost]);
+		const domains = pgArray([canonical.domain, canonical.unicodeDomain]);
+		const asciiPattern = `%${escapeLike(canonical.domain)}%`;
+		const unicodePattern = `%${escapeLike(canonical.unicodeDomain)}%`;
+
+		const results = await sql`
+			WITH candidates AS (
+				SELECT
+					u.*,
+					lower(split_part(split_part(n.stripped, '/', 1), ':', 1)) AS canonical_host,
+					CASE
+						WHEN position('/' in n.stripped) > 0
+							THEN lower(split_part(split_part(n.stripped, '/', 1), ':', 1))
+								|| substr(n.stripped, position('/' in n.stripped))
+						ELSE lower(split_part(n.stripped, ':', 1))
+					END AS canonical_url
+				FROM research.res_web_url_new u
+				CROSS JOIN LATERAL (
+					SELECT regexp_replace(
+						regexp_replace(
+							regexp_replace(
+								regexp_replace(trim(u.url), '^[a-zA-Z][a-zA-Z0-9+.-]*://', ''),
+								'[?#].*$', ''
+							),
+							'/+$', ''
+						),
+						'^www[0-9]*[.]', '', 'i'
+					) AS stripped
+				) n
+				WHERE u.url ILIKE ${asciiPattern}
+				   OR u.url ILIKE ${unicodePattern}
+			)
+			SELECT *
+			FROM candidates c
+			WHERE CASE ${mode}::text
+				WHEN 'exact' THEN c.canonical_url = ANY(${urls}::text[])
+				WHEN 'host' THEN c.canonical_host = ANY(${hosts}::text[])
+				ELSE EXISTS (
+					SELECT 1
+					FROM unnest(${domains}::text[]) AS d(domain)
+					WHERE c.canonical_host = d.domain
+					   OR c.canonical_host LIKE '%.' || d.domain
+				)
+			END
+			ORDER BY c.created_at DESC
+		`;
+		return results as CanonicalEntityWebUrl[];
 	}
 };
@@ -96,6 +96,10 @@ export interface LLMProviderConfig {
 	name: string;
 	baseUrl: string;
 	apiKeyEnvVar: string;
+	// Environment variable that overrides baseUrl (self-hosted servers)
+	baseUrlEnvVar?: string;
+	// Key used when apiKeyEnvVar is unset, for servers that do not check keys
+	defaultApiKey?: string;
 	headers?: Record<string, string>;
 	defaultProviderConfig?: OpenRouterProviderConfig;
 }
@@ -162,6 +166,8 @@ declare module 'openai' {
 			name: string;
 			description?: string;
 			parameters: Record<string, unknown>;
+			// OpenAI strict structured outputs
+			strict?: boolean;
 		}>;
 		/** @deprecated Use tool_choice instead. This parameter is deprecated as of API version 2023-12-01-preview. */
 		function_call?: 'auto' | 'none' | { name: string };
@@ -179,6 +185,7 @@ declare module 'openai' {
 				name: string;
 				description?: string;
 				parameters: Record<string, unknown>;
+				strict?: boolean;
 			};
 		}>;
 		tool_choice?: 'auto' | 'none' | { function: { name: string } };
@@ -215,13 +222,53 @@ declare module 'openai' {
 		system_fingerprint?: string;
 	}
 
+	// Streaming response chunk (stream: true)
+	export interface ChatCompletionChunk {
+		id: string;
+		object: 'chat.completion.chunk';
+		created: number;
+		model: string;
+		choices: Array<{
+			index: number;
+			delta: {
+				role?: 'assistant';
+				content?: string | null;
+				tool_calls?: Array<{
+					index: number;
+					id?: string;
+					type?: 'function';
+					function?: { name?: string; arguments?: string };
+				}>;
+			};
+			finish_reason: ChatCompletion['choices'][number]['finish_reason'] | null;
+		}>;
+		// Only sent on the final chunk when stream_options.include_usage is set
+		usage?: ChatCompletion['usage'] | null;
+	}
+
+	// Per-request options
+	export interface RequestOptions {
+		signal?: AbortSignal;
+		headers?: Record<string, string>;
+		query?: Record<string, string>;
+		timeout?: number;
+		maxRetries?: number;
+	}
+
 	// Class definition
 	export default class OpenAI {
 		constructor(options: ClientOptions);
 
 		chat: {
 			completions: {
-				create(params: ChatCompletionCreateParams): Promise<ChatCompletion>;
+				create(
+					params: ChatCompletionCreateParams & { stream: true },
+					options?: RequestOptions
+				): Promise<AsyncIterable<ChatCompletionChunk>>;
+				create(
+					params: ChatCompletionCreateParams,
+					options?: RequestOptions
+				): Promise<ChatCompletion>;
 			};
 		};
 	}
@@ -0,0 +1,87 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import type { RequestEvent } from '@sveltejs/kit';
+import type { ChatCompletionChunk } from 'openai';
+import { readAnalysisStream, type AnalysisProgressEvent } from './analysisStream';
+import { collectChatCompletionStream } from './openaiApi';
+import { parsePartialJSON } from './partialJson';
+import { GET } from '../../routes/api/rest/v1/company/competitive-analysis/stream/+server';
+
+const previousProvider = process.env.LLM_PROVIDER;
+
+afterEach(() => {
+	process.env.LLM_PROVIDER = previousProvider;
+});
+
+/**
+ * Read all events of a streaming endpoint response
+ */
+async function readEvents(response: Response) {
+	const progress: AnalysisProgressEvent[] = [];
+	const deltas: Record<string, string> = {};
+	let result: unknown = null;
+	await readAnalysisStream(response.body as ReadableStream<Uint8Array>, {
+		progress: (event) => progress.push(event),
+		delta: ({ step, chunk }) => {
+			deltas[step] = (deltas[step] ?? '') + chunk;
+		},
+		result: (data) => {
+			result = data;
+		}
+	});
+	return { progress, deltas, result };
+}
+
+describe('competitive analysis stream', () => {
+	test('streams progress, response text and the result with the mock provider', async () => {
+		process.env.LLM_PROVIDER = 'mock';
+		const url = new URL(
+			'http://localhost/api/rest/v1/company/competitive-analysis/stream?name=Stripe&approach=multi&cache=bypass&resolve=off&context=off'
+		);
+		const response = await GET({ url } as RequestEvent);
+		const { progress, deltas, result } = await readEvents(response);
+
+		expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+		const steps = progress.map((event) => `${event.step}:${event.status}`);
+		// Product calls run concurrently, so only their set is fixed
+		expect(steps.slice(0, 2)).toEqual(['basic_info:started', 'basic_info:completed']);
+		expect(steps.slice(2, -2).sort()).toEqual([
+			'product:Main Product:completed',
+			'product:Main Product:started',
+			'product:Secondary Product:completed',
+			'product:Secondary Product:started'
+		]);
+		expect(steps.slice(-2)).toEqual(['company_profile:started', 'company_profile:completed']);
+		expect(parsePartialJSON(deltas.basic_info)).toMatchObject({ company_name: 'Stripe' });
+		expect(result).toMatchObject({ entity: { name_brand: 'Stripe' } });
+	});
+});
+
+describe('collectChatCompletionStream', () => {
+	test('assembles tool call chunks into a response', async () => {
+		const chunk = (
+			delta: ChatCompletionChunk['choices'][number]['delta']
+		): ChatCompletionChunk => ({
+			id: 'chatcmpl-1',
+			object: 'chat.completion.chunk',
+			created: 1,
+			model: 'gpt-4o',
+			choices: [{ index: 0, delta, finish_reason: null }]
+		});
+		async function* chunks() {
+			yield chunk({
+				tool_calls: [{ index: 0, id: 'call_1', function: { name: 'f', arguments: '{"a":' } }]
+			});
+			yield chunk({ tool_calls: [{ index: 0, function: { arguments: '1}' } }] });
+		}
+		const deltas: string[] = [];
+
+		const response = await collectChatCompletionStream(chunks(), (delta) => deltas.push(delta));
+
+		expect(deltas).toEqual(['{"a":', '1}']);
+		expect(response.choices[0].message.tool_calls?.[0]).toEqual({
+			id: 'call_1',
+			type: 'function',
+			function: { name: 'f', arguments: '{"a":1}' }
+		});
+	});
+});
@@ -0,0 +1,116 @@
+/**
+ * analysisStream.ts
+ * Server-sent events for the streaming competitive analysis endpoint
+ *
+ * Events, in order:
+ * - progress: A pipeline step started, completed or failed (one pair per step)
+ * - delta: New text of the step's LLM response (tool-call arguments or content);
+ *   concatenate the chunks of a step and parse them with parsePartialJSON
+ * - result: The final analysis, as the non-streaming endpoint returns it in data
+ * - error: The analysis failed; the stream ends
+ *
+ * Browser-safe: the server formats events and the page reads them with fetch,
+ * so closing the request (AbortController.abort) cancels the analysis.
+ *
+ * @link src/routes/api/rest/v1/company/competitive-analysis/stream/+server.ts - Streaming endpoint
+ * @link src/lib/utils/partialJson.ts - Parser for incomplete delta text
+ */
+
+import type { AnalysisData } from '$lib/schemas/research';
+import type { ApiCost } from '$lib/types/openaiApi';
+
+/**
+ * Progress of one step of the analysis pipeline
+ */
+export interface AnalysisProgressEvent {
+	// Step name: analyze_company (single) or basic_info, product:<name>, company_profile (multi)
+	step: string;
+	status: 'started' | 'completed' | 'failed';
+	// 1-based position of the step and number of steps
+	index: number;
+	total: number;
+	message?: string;
+	cost?: ApiCost;
+}
+
+/**
+ * Payloads by event name
+ */
+export interface AnalysisStreamEvents {
+	progress: AnalysisProgressEvent;
+	delta: { step: string; chunk: string };
+	result: AnalysisData;
+	error: { error: string; status: number; details?: string };
+}
+
+export type AnalysisStreamEventName = keyof AnalysisStreamEvents;
+
+/**
+ * Handlers for the events of an analysis stream
+ */
+export type AnalysisStreamHandlers = {
+	[E in AnalysisStreamEventName]?: (data: AnalysisStreamEvents[E]) => void;
+};
+
+/**
+ * Format an event in the server-sent events wire format
+ *
+ * @param event Event name
+ * @param data Payload, sent as a single line of JSON
+ * @returns Event text including the terminating blank line
+ */
+export function formatServerSentEvent<E extends AnalysisStreamEventName>(
+	event: E,
+	data: AnalysisStreamEvents[E]
+): string {
+	return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Dispatch one raw event block to its handler
+ */
+function dispatchEvent(block: string, handlers: AnalysisStreamHandlers): void {
+	let event = 'message';
+	const data: string[] = [];
+
+	for (const line of block.split('\n')) {
+		if (line.startsWith('event:')) event = line.slice(6).trim();
+		else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+	}
+
+	if (data.length === 0 || !(event in handlers)) return;
+	const handler = handlers[event as AnalysisStreamEventName] as (data: unknown) => void;
+	handler(JSON.parse(data.join('\n')));
+}
+
+/**
+ * Read an analysis event stream until it ends
+ *
+ * Comment lines (keep-alives) and events without a handler are ignored.
+ *
+ * @param body Response body of the streaming endpoint
+ * @param handlers Callbacks by event name
+ * @throws The fetch AbortError when the request is cancelled
+ */
+export async function readAnalysisStream(
+	body: ReadableStream<Uint8Array>,
+	handlers: AnalysisStreamHandlers
+): Promise<void> {
+	const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+	let buffer = '';
+
+	for (;;) {
+		const { value, done } = await reader.read();
+		if (done) break;
+
+		buffer += value.replace(/\r\n?/g, '\n');
+		let boundary = buffer.indexOf('\n\n');
+		while (boundary >= 0) {
+			dispatchEvent(buffer.slice(0, boundary), handlers);
+			buffer = buffer.slice(boundary + 2);
+			boundary = buffer.indexOf('\n\n');
+		}
+	}
+
+	if (buffer.trim()) dispatchEvent(buffer, handlers);
+}
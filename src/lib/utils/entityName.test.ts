@@ -0,0 +1,16 @@
+import { describe, test, expect } from 'vitest';
+import { normalizeEntityName } from './entityName';
+
+describe('normalizeEntityName', () => {
+	test('strips legal suffixes, punctuation and diacritics', () => {
+		expect(normalizeEntityName('Stripe, Inc.')).toBe('stripe');
+		expect(normalizeEntityName('STRIPE INC')).toBe('stripe');
+		expect(normalizeEntityName('Robert Bosch GmbH & Co. KG')).toBe('robert bosch');
+		expect(normalizeEntityName('Nestlé S.A.')).toBe('nestle');
+		expect(normalizeEntityName('Procter & Gamble Co.')).toBe('procter and gamble');
+	});
+
+	test('keeps at least one word', () => {
+		expect(normalizeEntityName('Company')).toBe('company');
+	});
+});
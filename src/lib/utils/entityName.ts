@@ -0,0 +1,79 @@
+/**
+ * entityName.ts
+ * Name normalization for comparing companies and products
+ *
+ * Shared by entity resolution, which matches LLM-generated names to res_entity
+ * rows, and by the offline evaluation, which matches them to a golden set.
+ *
+ * Browser-safe; no dependencies.
+ *
+ * @link src/routes/api/rest/v1/research/sharedObjects/entityResolution.ts - Entity resolution
+ * @link data-tools/eval/scoring.ts - Golden set scoring
+ */
+
+// Trailing words dropped by normalizeEntityName
+const legalSuffixes = new Set([
+	'ab',
+	'ag',
+	'and',
+	'as',
+	'asa',
+	'bv',
+	'co',
+	'company',
+	'corp',
+	'corporation',
+	'gmbh',
+	'inc',
+	'incorporated',
+	'kg',
+	'kk',
+	'limited',
+	'llc',
+	'llp',
+	'lp',
+	'ltd',
+	'nv',
+	'oy',
+	'oyj',
+	'plc',
+	'pte',
+	'pty',
+	'sa',
+	'sarl',
+	'sas',
+	'se',
+	'spa',
+	'srl'
+]);
+
+/**
+ * Normalize a company or product name for comparison
+ *
+ * Lower-cases, removes diacritics, dots and punctuation, and strips trailing
+ * legal-form suffixes, so "Stripe, Inc.", "STRIPE INC" and "Stripe" compare
+ * equal. At least one word is always kept ("Company" stays "company").
+ *
+ * @param name Name as generated or stored
+ * @returns Space-separated normalized words
+ *
+ * @example
+ * normalizeEntityName('Stripe, Inc.') // 'stripe'
+ * normalizeEntityName('Procter & Gamble Co.') // 'procter and gamble'
+ * normalizeEntityName('Nestlé S.A.') // 'nestle'
+ */
+export function normalizeEntityName(name: string): string {
+	const words =
+		name
+			.normalize('NFKD')
+			.replace(/[\u0300-\u036f]/g, '')
+			.toLowerCase()
+			.replace(/\./g, '')
+			.replace(/&/g, ' and ')
+			.match(/[\p{L}\p{N}]+/gu) ?? [];
+
+	while (words.length > 1 && legalSuffixes.has(words[words.length - 1])) {
+		words.pop();
+	}
+	return words.join(' ');
+}
@@ -59,3 +59,30 @@ export function formatDate(date: Date | string, locale: string = 'en-US'): strin
 export function formatNumber(value: number, locale: string = 'en-US'): string {
 	return new Intl.NumberFormat(locale).format(value);
 }
+
+/**
+ * Format a research metric value by its unit
+ * @param value - The number to format (percent values on a 0-100 scale)
+ * @param unit - The unit the metric is expressed in
+ * @param locale - The locale to use for formatting (default: en-US)
+ * @returns Formatted metric string
+ */
+export function formatMetricValue(
+	value: number,
+	unit: 'percent' | 'usd' | 'count' | 'months',
+	locale: string = 'en-US'
+): string {
+	switch (unit) {
+		case 'percent':
+			return formatPercentage(value / 100, locale);
+		case 'usd':
+			return formatCurrency(value, 'USD', locale);
+		case 'months':
+			return `${formatNumber(value, locale)} mo`;
+		default:
+			return new Intl.NumberFormat(locale, {
+				maximumFractionDigits: 1,
+				notation: value >= 1000000 ? 'compact' : 'standard'
+			}).format(value);
+	}
+}
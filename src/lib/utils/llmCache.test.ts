@@ -0,0 +1,66 @@
+import { describe, test, expect } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ChatCompletion } from 'openai';
+import { createFileLLMCache, createLLMCacheKey, readLLMCache, writeLLMCache } from './llmCache';
+
+const messages = [
+	{ role: 'system' as const, content: 'You are an analyst.' },
+	{ role: 'user' as const, content: 'Analyze Stripe.' }
+];
+
+describe('createLLMCacheKey', () => {
+	test('ignores object key order and changes with the model, provider, temperature or max_tokens', async () => {
+		const key = await createLLMCacheKey({ model: 'gpt-4o', messages, temperature: 0.1 });
+
+		expect(key).toMatch(/^[0-9a-f]{64}$/);
+		expect(
+			await createLLMCacheKey({
+				temperature: 0.1,
+				messages: messages.map((message) => ({ content: message.content, role: message.role })),
+				model: 'gpt-4o'
+			})
+		).toBe(key);
+		expect(await createLLMCacheKey({ model: 'gpt-4o-mini', messages, temperature: 0.1 })).not.toBe(
+			key
+		);
+		expect(await createLLMCacheKey({ model: 'gpt-4o', messages, temperature: 0 })).not.toBe(key);
+		expect(
+			await createLLMCacheKey({ provider: 'mock', model: 'gpt-4o', messages, temperature: 0.1 })
+		).not.toBe(key);
+		expect(
+			await createLLMCacheKey({ model: 'gpt-4o', messages, temperature: 0.1, max_tokens: 500 })
+		).not.toBe(key);
+	});
+});
+
+describe('file backend', () => {
+	test('returns stored entries until they expire', async () => {
+		const dir = await mkdtemp(join(tmpdir(), 'llm-cache-'));
+		try {
+			const backend = createFileLLMCache(dir);
+			const entry = {
+				key: 'abc',
+				model: 'gpt-4o',
+				provider: 'openrouter',
+				response: { id: 'chatcmpl-1', choices: [] } as unknown as ChatCompletion,
+				cost: { totalTokens: 10, costUSD: 0.001 }
+			};
+
+			expect(await readLLMCache(backend, 'abc')).toBeNull();
+
+			await writeLLMCache(backend, entry, 60);
+			expect(await readLLMCache(backend, 'abc')).toMatchObject({
+				key: 'abc',
+				provider: 'openrouter',
+				cost: entry.cost
+			});
+
+			await writeLLMCache(backend, entry, -1);
+			expect(await readLLMCache(backend, 'abc')).toBeNull();
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+});
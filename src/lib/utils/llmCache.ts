@@ -0,0 +1,349 @@
+/**
+ * llmCache.ts
+ * Response cache for LLM API calls
+ *
+ * Caches ChatCompletion responses keyed by a SHA-256 hash of the request
+ * (provider, model, messages, tools, tool_choice, response_format, temperature
+ * and max_tokens), so repeated analyses of the same company within the TTL do
+ * not hit the provider. Entries record the provider that served the response,
+ * which may be a fallback of the requested one.
+ *
+ * Backends:
+ * 1. file     - One JSON file per key under LLM_CACHE_DIR (default .cache/llm)
+ * 2. postgres - Rows in public.llm_response_cache; registered at server start in
+ *               hooks.server.ts since this module is shared with the CLI and browser
+ *
+ * The Postgres table is created once by a DBA:
+ *
+ *   CREATE TABLE public.llm_response_cache (
+ *     cache_key text PRIMARY KEY,
+ *     model text NOT NULL,
+ *     provider text NOT NULL,
+ *     response jsonb NOT NULL,
+ *     total_tokens integer NOT NULL,
+ *     cost_usd numeric NOT NULL,
+ *     created_at timestamptz NOT NULL DEFAULT now(),
+ *     expires_at timestamptz NOT NULL
+ *   );
+ *   CREATE INDEX llm_response_cache_expires_at ON public.llm_response_cache (expires_at);
+ *
+ * Tables created before entries recorded their provider need the column:
+ *
+ *   ALTER TABLE public.llm_response_cache ADD COLUMN provider text NOT NULL DEFAULT 'direct';
+ *
+ * Configuration: LLM_CACHE (off | file | postgres), LLM_CACHE_TTL_SECONDS
+ * (default 86400) and LLM_CACHE_DIR.
+ *
+ * Cache errors are logged and treated as misses; they never fail an LLM call.
+ *
+ * @link src/lib/utils/openaiApi.ts - callOpenAI reads and writes the cache
+ * @link src/hooks.server.ts - Registers the Postgres backend
+ */
+
+import type { ChatCompletion, ChatCompletionCreateParams } from 'openai';
+import type { ApiCost } from '$lib/types/openaiApi';
+import type { SQLInstance } from '$lib/database/sql.server';
+
+// Default time to live for cached responses (24 hours)
+const defaultTtlSeconds = 86400;
+
+// Default directory for the file backend, relative to the working directory
+const defaultCacheDir = '.cache/llm';
+
+/**
+ * Cache modes requested by callers
+ * - default: Serve hits, store misses
+ * - bypass: Skip the cache entirely
+ * - refresh: Skip reading, but store the fresh response
+ */
+export const llmCacheModes = ['default', 'bypass', 'refresh'] as const;
+export type LLMCacheMode = (typeof llmCacheModes)[number];
+
+/**
+ * Outcome of a cache lookup for one call
+ */
+export type LLMCacheStatus = 'hit' | 'miss' | 'bypass' | 'refresh' | 'disabled';
+
+/**
+ * Cache details reported in _meta.cache
+ */
+export interface LLMCacheInfo {
+	status: LLMCacheStatus;
+	backend: string | null;
+	key: string | null;
+	// When the served response was originally generated (hits only)
+	createdAt: string | null;
+	// Cost of the original call that a hit avoided
+	savedCostUSD: number;
+}
+
+/**
+ * Stored cache entry
+ */
+export interface LLMCacheEntry {
+	key: string;
+	model: string;
+	// Provider that served the response
+	provider: string;
+	response: ChatCompletion;
+	cost: ApiCost;
+	createdAt: string;
+	expiresAt: string;
+}
+
+/**
+ * Storage backend for cached responses
+ */
+export interface LLMCacheBackend {
+	name: string;
+	// Returns the entry, or null if absent or expired
+	get: (key: string) => Promise<LLMCacheEntry | null>;
+	set: (entry: LLMCacheEntry) => Promise<void>;
+}
+
+/**
+ * Request fields that determine the cache key
+ */
+export interface LLMCacheKeyInput {
+	// Requested provider; omitted by mock fixture keys, which replay any provider
+	provider?: string;
+	model: string;
+	messages: ChatCompletionCreateParams['messages'];
+	tools?: ChatCompletionCreateParams['tools'];
+	tool_choice?: ChatCompletionCreateParams['tool_choice'];
+	response_format?: ChatCompletionCreateParams['response_format'];
+	temperature?: number;
+	max_tokens?: number;
+}
+
+/**
+ * JSON.stringify with object keys sorted, so equal requests hash equally
+ */
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(',')}]`;
+	}
+	if (value && typeof value === 'object') {
+		return `{${Object.keys(value)
+			.sort()
+			.filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+			.map(
+				(key) =>
+					`${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+			)
+			.join(',')}}`;
+	}
+	return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Create the cache key for a request
+ *
+ * Uses Web Crypto so the module stays importable from browser code.
+ *
+ * @param input Provider, model, messages, tool schema, temperature and max_tokens of the request
+ * @returns Hex-encoded SHA-256 hash
+ */
+export async function createLLMCacheKey(input: LLMCacheKeyInput): Promise<string> {
+	const payload = stableStringify({
+		provider: input.provider ?? null,
+		model: input.model,
+		messages: input.messages,
+		tools: input.tools ?? null,
+		tool_choice: input.tool_choice ?? null,
+		response_format: input.response_format ?? null,
+		temperature: input.temperature ?? null,
+		max_tokens: input.max_tokens ?? null
+	});
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+	return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check whether an entry is past its expiry
+ */
+function isExpired(entry: Pick<LLMCacheEntry, 'expiresAt'>, now = Date.now()): boolean {
+	return Date.parse(entry.expiresAt) <= now;
+}
+
+/**
+ * File backend storing one JSON file per key
+ *
+ * @param dir Cache directory; created on first write
+ */
+export function createFileLLMCache(dir: string = defaultCacheDir): LLMCacheBackend {
+	const pathFor = async (key: string) => {
+		const { join } = await import('node:path');
+		return join(dir, `${key}.json`);
+	};
+
+	return {
+		name: 'file',
+		get: async (key) => {
+			const { readFile } = await import('node:fs/promises');
+			try {
+				const entry = JSON.parse(await readFile(await pathFor(key), 'utf8')) as LLMCacheEntry;
+				return isExpired(entry) ? null : entry;
+			} catch (error) {
+				if ((error as { code?: string }).code === 'ENOENT') return null;
+				throw error;
+			}
+		},
+		set: async (entry) => {
+			const { mkdir, writeFile } = await import('node:fs/promises');
+			await mkdir(dir, { recursive: true });
+			await writeFile(await pathFor(entry.key), JSON.stringify(entry), 'utf8');
+		}
+	};
+}
+
+/**
+ * Postgres backend storing entries in public.llm_response_cache
+ *
+ * @param sql SQL instance from $lib/database/sql.server
+ */
+export function createPostgresLLMCache(sql: SQLInstance): LLMCacheBackend {
+	return {
+		name: 'postgres',
+		get: async (key) => {
+			const rows = (await sql`
+				SELECT
+					cache_key AS "key",
+					model,
+					provider,
+					response,
+					total_tokens AS "total_tokens",
+					cost_usd::float AS "cost_usd",
+					created_at AS "created_at",
+					expires_at AS "expires_at"
+				FROM public.llm_response_cache
+				WHERE cache_key = ${key}
+				  AND expires_at > now()
+			`) as {
+				key: string;
+				model: string;
+				provider: string;
+				response: ChatCompletion | string;
+				total_tokens: number;
+				cost_usd: number;
+				created_at: Date | string;
+				expires_at: Date | string;
+			}[];
+
+			const row = rows[0];
+			if (!row) return null;
+
+			return {
+				key: row.key,
+				model: row.model,
+				provider: row.provider,
+				response:
+					typeof row.response === 'string'
+						? (JSON.parse(row.response) as ChatCompletion)
+						: row.response,
+				cost: { totalTokens: row.total_tokens, costUSD: row.cost_usd },
+				createdAt: new Date(row.created_at).toISOString(),
+				expiresAt: new Date(row.expires_at).toISOString()
+			};
+		},
+		set: async (entry) => {
+			await sql`
+				INSERT INTO public.llm_response_cache (
+					cache_key, model, provider, response, total_tokens, cost_usd, created_at, expires_at
+				) VALUES (
+					${entry.key},
+					${entry.model},
+					${entry.provider},
+					${JSON.stringify(entry.response)}::jsonb,
+					${entry.cost.totalTokens},
+					${entry.cost.costUSD},
+					${entry.createdAt},
+					${entry.expiresAt}
+				)
+				ON CONFLICT (cache_key) DO UPDATE SET
+					model = EXCLUDED.model,
+					provider = EXCLUDED.provider,
+					response = EXCLUDED.response,
+					total_tokens = EXCLUDED.total_tokens,
+					cost_usd = EXCLUDED.cost_usd,
+					created_at = EXCLUDED.created_at,
+					expires_at = EXCLUDED.expires_at
+			`;
+		}
+	};
+}
+
+// Backend registered by the server at startup (see setLLMCacheBackend)
+let registeredBackend: LLMCacheBackend | null = null;
+
+// File backend created on first use when LLM_CACHE=file
+let fileBackend: LLMCacheBackend | null = null;
+
+/**
+ * Register the cache backend used by callOpenAI
+ *
+ * @param backend Backend to use, or null to fall back to LLM_CACHE
+ */
+export function setLLMCacheBackend(backend: LLMCacheBackend | null): void {
+	registeredBackend = backend;
+}
+
+/**
+ * Get the active cache backend
+ *
+ * @returns Registered backend, the file backend when LLM_CACHE=file, or null when disabled
+ */
+export function getLLMCacheBackend(): LLMCacheBackend | null {
+	if (registeredBackend) return registeredBackend;
+
+	const setting = typeof process !== 'undefined' ? process.env?.LLM_CACHE : undefined;
+	if (setting !== 'file') return null;
+
+	fileBackend ??= createFileLLMCache(process.env.LLM_CACHE_DIR || defaultCacheDir);
+	return fileBackend;
+}
+
+/**
+ * Get the configured TTL in seconds
+ */
+export function getLLMCacheTtlSeconds(): number {
+	const configured = Number(
+		typeof process !== 'undefined' ? process.env?.LLM_CACHE_TTL_SECONDS : undefined
+	);
+	return Number.isFinite(configured) && configured > 0 ? configured : defaultTtlSeconds;
+}
+
+/**
+ * Read an entry, treating backend errors as misses
+ */
+export async function readLLMCache(
+	backend: LLMCacheBackend,
+	key: string
+): Promise<LLMCacheEntry | null> {
+	try {
+		return await backend.get(key);
+	} catch (error) {
+		console.warn(`[LLM] Cache read failed (${backend.name}), treating as miss:`, error);
+		return null;
+	}
+}
+
+/**
+ * Write an entry, logging backend errors instead of throwing
+ */
+export async function writeLLMCache(
+	backend: LLMCacheBackend,
+	entry: Omit<LLMCacheEntry, 'createdAt' | 'expiresAt'>,
+	ttlSeconds: number = getLLMCacheTtlSeconds()
+): Promise<void> {
+	const now = Date.now();
+	try {
+		await backend.set({
+			...entry,
+			createdAt: new Date(now).toISOString(),
+			expiresAt: new Date(now + ttlSeconds * 1000).toISOString()
+		});
+	} catch (error) {
+		console.warn(`[LLM] Cache write failed (${backend.name}):`, error);
+	}
+}
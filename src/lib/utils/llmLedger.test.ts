@@ -0,0 +1,124 @@
+import { describe, test, expect } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	LLMBudgetError,
+	checkLLMBudget,
+	createFileLLMLedger,
+	getLLMUsageSummary,
+	type LLMLedgerEntry
+} from './llmLedger';
+
+const now = new Date('2026-03-15T12:00:00Z');
+
+/**
+ * Ledger entry with defaults
+ */
+function createEntry(entry: Partial<LLMLedgerEntry>): LLMLedgerEntry {
+	return {
+		createdAt: now.toISOString(),
+		model: 'gpt-4o',
+		provider: 'direct',
+		inputTokens: 1000,
+		outputTokens: 500,
+		totalTokens: 1500,
+		costUSD: 1,
+		cacheStatus: 'miss',
+		route: '/api/rest/v1/company/competitive-analysis',
+		company: 'Stripe',
+		...entry
+	};
+}
+
+/**
+ * Run a test against a file ledger in a temporary directory
+ */
+async function withLedger(test: (file: string) => Promise<void>): Promise<void> {
+	const dir = await mkdtemp(join(tmpdir(), 'llm-ledger-'));
+	try {
+		await test(join(dir, 'ledger.jsonl'));
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+}
+
+describe('checkLLMBudget', () => {
+	const budgets = { perRequestUSD: 1, dailyUSD: 3, monthlyUSD: 10 };
+
+	test('rejects a request over the per-request ceiling with 402', async () => {
+		const error = await checkLLMBudget(1.2, budgets, null, now).catch((error) => error);
+
+		expect(error).toBeInstanceOf(LLMBudgetError);
+		expect(error).toMatchObject({ code: 'request_budget_exceeded', status: 402 });
+	});
+
+	test('rejects with 429 once the daily or monthly spend would exceed its ceiling', () =>
+		withLedger(async (file) => {
+			const backend = createFileLLMLedger(file);
+			await backend.record(createEntry({ createdAt: '2026-03-01T08:00:00Z', costUSD: 7 }));
+			await backend.record(createEntry({ costUSD: 2.4 }));
+
+			await expect(checkLLMBudget(0.5, budgets, backend, now)).resolves.toBeUndefined();
+
+			const daily = await checkLLMBudget(0.7, budgets, backend, now).catch((error) => error);
+			expect(daily).toMatchObject({
+				code: 'daily_budget_exceeded',
+				status: 429,
+				retryAfterSeconds: 12 * 3600
+			});
+
+			const monthly = await checkLLMBudget(
+				0.5,
+				{ ...budgets, monthlyUSD: 9.5 },
+				backend,
+				now
+			).catch((error) => error);
+			expect(monthly).toMatchObject({ code: 'monthly_budget_exceeded', status: 429 });
+		}));
+});
+
+describe('getLLMUsageSummary', () => {
+	test('adds up the day and month and groups the month by model and route', () =>
+		withLedger(async (file) => {
+			const backend = createFileLLMLedger(file);
+			await backend.record(createEntry({ createdAt: '2026-02-28T23:00:00Z', costUSD: 5 }));
+			await backend.record(
+				createEntry({ createdAt: '2026-03-02T10:00:00Z', model: 'gpt-4o-mini' })
+			);
+			await backend.record(createEntry({ costUSD: 2 }));
+			await backend.record(
+				createEntry({
+					costUSD: 0,
+					inputTokens: 0,
+					outputTokens: 0,
+					totalTokens: 0,
+					cacheStatus: 'hit',
+					route: null
+				})
+			);
+
+			const summary = await getLLMUsageSummary(
+				backend,
+				{ perRequestUSD: null, dailyUSD: 5, monthlyUSD: null },
+				now
+			);
+
+			expect(summary.today).toMatchObject({ calls: 2, cacheHits: 1, costUSD: 2, remainingUSD: 3 });
+			expect(summary.month).toMatchObject({
+				since: '2026-03-01T00:00:00.000Z',
+				calls: 3,
+				totalTokens: 3000,
+				costUSD: 3,
+				remainingUSD: null
+			});
+			expect(summary.byModel.map(({ key, costUSD }) => [key, costUSD])).toEqual([
+				['gpt-4o', 2],
+				['gpt-4o-mini', 1]
+			]);
+			expect(summary.byRoute.map((group) => group.key)).toEqual([
+				'/api/rest/v1/company/competitive-analysis',
+				'unknown'
+			]);
+		}));
+});
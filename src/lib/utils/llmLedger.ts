@@ -0,0 +1,523 @@
+/**
+ * llmLedger.ts
+ * Spend ledger and budget ceilings for LLM API calls
+ *
+ * Every call made through callOpenAI is recorded with its model, provider,
+ * token counts, cost (from llmModels.json), cache status and the route and
+ * company it was made for. Before a request is sent, its cost is estimated
+ * from the prompt size and max_tokens and checked against three ceilings:
+ * - LLM_BUDGET_REQUEST_USD: maximum estimated cost of one call (402)
+ * - LLM_BUDGET_DAILY_USD: maximum spend per UTC day (429 until midnight UTC)
+ * - LLM_BUDGET_MONTHLY_USD: maximum spend per UTC month (429 until the 1st)
+ * Unset or zero ceilings are not enforced. Daily and monthly ceilings need a
+ * ledger backend; concurrent calls are checked against the spend recorded so
+ * far, so a burst may exceed a ceiling by the calls in flight.
+ *
+ * Backends:
+ * 1. file     - One JSON line per call in LLM_LEDGER_FILE (default .cache/llm-ledger.jsonl)
+ * 2. postgres - Rows in public.llm_spend_ledger; registered at server start in
+ *               hooks.server.ts since this module is shared with the CLI and browser
+ *
+ * The Postgres table is created once by a DBA:
+ *
+ *   CREATE TABLE public.llm_spend_ledger (
+ *     id bigserial PRIMARY KEY,
+ *     created_at timestamptz NOT NULL DEFAULT now(),
+ *     model text NOT NULL,
+ *     provider text NOT NULL,
+ *     input_tokens integer NOT NULL,
+ *     output_tokens integer NOT NULL,
+ *     total_tokens integer NOT NULL,
+ *     cost_usd numeric NOT NULL,
+ *     cache_status text NOT NULL,
+ *     route text,
+ *     company text
+ *   );
+ *   CREATE INDEX llm_spend_ledger_created_at ON public.llm_spend_ledger (created_at);
+ *
+ * Configuration: LLM_LEDGER (off | file | postgres) and LLM_LEDGER_FILE.
+ *
+ * Ledger errors are logged and never fail an LLM call; a spend lookup that
+ * fails skips the daily and monthly checks for that call.
+ *
+ * @link src/lib/utils/openaiApi.ts - callOpenAI checks budgets and records calls
+ * @link src/routes/api/rest/v1/llm/usage/+server.ts - Usage summary endpoint
+ * @link src/hooks.server.ts - Registers the Postgres backend
+ */
+
+import type { SQLInstance } from '$lib/database/sql.server';
+import type { LLMCacheStatus } from './llmCache';
+
+// Default ledger file for the file backend, relative to the working directory
+const defaultLedgerFile = '.cache/llm-ledger.jsonl';
+
+/**
+ * Route and company a call is made for, recorded in the ledger
+ */
+export interface LLMCaller {
+	route?: string;
+	company?: string;
+}
+
+/**
+ * One recorded call
+ */
+export interface LLMLedgerEntry {
+	createdAt: string;
+	model: string;
+	provider: string;
+	inputTokens: number;
+	outputTokens: number;
+	totalTokens: number;
+	costUSD: number;
+	cacheStatus: LLMCacheStatus;
+	route: string | null;
+	company: string | null;
+}
+
+/**
+ * Storage backend for the ledger
+ */
+export interface LLMLedgerBackend {
+	name: string;
+	record: (entry: LLMLedgerEntry) => Promise<void>;
+	// Entries created at or after since, oldest first
+	getEntries: (since: Date) => Promise<LLMLedgerEntry[]>;
+	// Total cost of entries created at or after since
+	getSpendUSD: (since: Date) => Promise<number>;
+}
+
+/**
+ * Configured budget ceilings in USD; null when not enforced
+ */
+export interface LLMBudgets {
+	perRequestUSD: number | null;
+	dailyUSD: number | null;
+	monthlyUSD: number | null;
+}
+
+export type LLMBudgetCode =
+	| 'request_budget_exceeded'
+	| 'daily_budget_exceeded'
+	| 'monthly_budget_exceeded';
+
+/**
+ * Thrown by checkLLMBudget before a call that would exceed a ceiling
+ *
+ * status is 402 when a single call is too expensive and 429 when the daily or
+ * monthly budget is used up; retryAfterSeconds is the time until it resets.
+ */
+export class LLMBudgetError extends Error {
+	code: LLMBudgetCode;
+	status: 402 | 429;
+	limitUSD: number;
+	spentUSD: number;
+	estimatedUSD: number;
+	retryAfterSeconds: number | null;
+
+	constructor(
+		code: LLMBudgetCode,
+		limitUSD: number,
+		spentUSD: number,
+		estimatedUSD: number,
+		retryAfterSeconds: number | null = null
+	) {
+		super(
+			code === 'request_budget_exceeded'
+				? `Estimated LLM request cost $${estimatedUSD.toFixed(4)} exceeds the per-request budget of $${limitUSD.toFixed(2)}`
+				: `LLM ${code === 'daily_budget_exceeded' ? 'daily' : 'monthly'} budget of $${limitUSD.toFixed(2)} reached ($${spentUSD.toFixed(4)} spent, $${estimatedUSD.toFixed(4)} estimated for this request)`
+		);
+		this.name = 'LLMBudgetError';
+		this.code = code;
+		this.status = code === 'request_budget_exceeded' ? 402 : 429;
+		this.limitUSD = limitUSD;
+		this.spentUSD = spentUSD;
+		this.estimatedUSD = estimatedUSD;
+		this.retryAfterSeconds = retryAfterSeconds;
+	}
+}
+
+/**
+ * Spend totals of one period
+ */
+export interface LLMUsageTotals {
+	calls: number;
+	cacheHits: number;
+	inputTokens: number;
+	outputTokens: number;
+	totalTokens: number;
+	costUSD: number;
+}
+
+/**
+ * Spend totals grouped by model, provider, route or company
+ */
+export interface LLMUsageGroup extends LLMUsageTotals {
+	key: string;
+}
+
+/**
+ * Usage summary returned by GET /api/rest/v1/llm/usage
+ */
+export interface LLMUsageSummary {
+	ledger: string;
+	budgets: LLMBudgets;
+	today: LLMUsageTotals & { since: string; remainingUSD: number | null };
+	month: LLMUsageTotals & { since: string; remainingUSD: number | null };
+	// Breakdowns of the current month, most expensive first
+	byModel: LLMUsageGroup[];
+	byProvider: LLMUsageGroup[];
+	byRoute: LLMUsageGroup[];
+	byCompany: LLMUsageGroup[];
+}
+
+/**
+ * File backend appending one JSON line per call
+ *
+ * @param file Ledger file; its directory is created on first write
+ */
+export function createFileLLMLedger(file: string = defaultLedgerFile): LLMLedgerBackend {
+	const getEntries = async (since: Date): Promise<LLMLedgerEntry[]> => {
+		const { readFile } = await import('node:fs/promises');
+		let content: string;
+		try {
+			content = await readFile(file, 'utf8');
+		} catch (error) {
+			if ((error as { code?: string }).code === 'ENOENT') return [];
+			throw error;
+		}
+
+		const sinceTime = since.getTime();
+		return content
+			.split('\n')
+			.filter((line) => line.trim())
+			.map((line) => JSON.parse(line) as LLMLedgerEntry)
+			.filter((entry) => Date.parse(entry.createdAt) >= sinceTime);
+	};
+
+	return {
+		name: 'file',
+		record: async (entry) => {
+			const { appendFile, mkdir } = await import('node:fs/promises');
+			const { dirname } = await import('node:path');
+			await mkdir(dirname(file), { recursive: true });
+			await appendFile(file, `${JSON.stringify(entry)}\n`, 'utf8');
+		},
+		getEntries,
+		getSpendUSD: async (since) =>
+			(await getEntries(since)).reduce((sum, entry) => sum + entry.costUSD, 0)
+	};
+}
+
+/**
+ * Postgres backend storing calls in public.llm_spend_ledger
+ *
+ * @param sql SQL instance from $lib/database/sql.server
+ */
+export function createPostgresLLMLedger(sql: SQLInstance): LLMLedgerBackend {
+	return {
+		name: 'postgres',
+		record: async (entry) => {
+			await sql`
+				INSERT INTO public.llm_spend_ledger (
+					created_at, model, provider, input_tokens, output_tokens, total_tokens,
+					cost_usd, cache_status, route, company
+				) VALUES (
+					${entry.createdAt},
+					${entry.model},
+					${entry.provider},
+					${entry.inputTokens},
+					${entry.outputTokens},
+					${entry.totalTokens},
+					${entry.costUSD},
+					${entry.cacheStatus},
+					${entry.route},
+					${entry.company}
+				)
+			`;
+		},
+		getEntries: async (since) => {
+			const rows = (await sql`
+				SELECT
+					created_at AS "created_at",
+					model,
+					provider,
+					input_tokens AS "input_tokens",
+					output_tokens AS "output_tokens",
+					total_tokens AS "total_tokens",
+					cost_usd::float AS "cost_usd",
+					cache_status AS "cache_status",
+					route,
+					company
+				FROM public.llm_spend_ledger
+				WHERE created_at >= ${since.toISOString()}
+				ORDER BY created_at
+			`) as {
+				created_at: Date | string;
+				model: string;
+				provider: string;
+				input_tokens: number;
+				output_tokens: number;
+				total_tokens: number;
+				cost_usd: number;
+				cache_status: LLMCacheStatus;
+				route: string | null;
+				company: string | null;
+			}[];
+
+			return rows.map((row) => ({
+				createdAt: new Date(row.created_at).toISOString(),
+				model: row.model,
+				provider: row.provider,
+				inputTokens: row.input_tokens,
+				outputTokens: row.output_tokens,
+				totalTokens: row.total_tokens,
+				costUSD: row.cost_usd,
+				cacheStatus: row.cache_status,
+				route: row.route,
+				company: row.company
+			}));
+		},
+		getSpendUSD: async (since) => {
+			const rows = (await sql`
+				SELECT COALESCE(SUM(cost_usd), 0)::float AS "cost_usd"
+				FROM public.llm_spend_ledger
+				WHERE created_at >= ${since.toISOString()}
+			`) as { cost_usd: number }[];
+			return rows[0]?.cost_usd ?? 0;
+		}
+	};
+}
+
+// Backend registered by the server at startup (see setLLMLedgerBackend)
+let registeredBackend: LLMLedgerBackend | null = null;
+
+// File backend created on first use when LLM_LEDGER=file
+let fileBackend: LLMLedgerBackend | null = null;
+
+// Whether the missing ledger warning for daily/monthly budgets was logged
+let warnedMissingLedger = false;
+
+/**
+ * Read an environment variable where process exists (not in the browser)
+ */
+function getEnv(name: string): string | undefined {
+	return typeof process !== 'undefined' ? process.env?.[name] : undefined;
+}
+
+/**
+ * Register the ledger backend used by callOpenAI
+ *
+ * @param backend Backend to use, or null to fall back to LLM_LEDGER
+ */
+export function setLLMLedgerBackend(backend: LLMLedgerBackend | null): void {
+	registeredBackend = backend;
+}
+
+/**
+ * Get the active ledger backend
+ *
+ * @returns Registered backend, the file backend when LLM_LEDGER=file, or null when disabled
+ */
+export function getLLMLedgerBackend(): LLMLedgerBackend | null {
+	if (registeredBackend) return registeredBackend;
+	if (getEnv('LLM_LEDGER') !== 'file') return null;
+
+	fileBackend ??= createFileLLMLedger(getEnv('LLM_LEDGER_FILE') || defaultLedgerFile);
+	return fileBackend;
+}
+
+/**
+ * Parse a USD ceiling; unset, zero or invalid values disable it
+ */
+function parseBudget(value: string | undefined): number | null {
+	const budget = Number(value);
+	return value && Number.isFinite(budget) && budget > 0 ? budget : null;
+}
+
+/**
+ * Get the configured budget ceilings
+ */
+export function getLLMBudgets(): LLMBudgets {
+	return {
+		perRequestUSD: parseBudget(getEnv('LLM_BUDGET_REQUEST_USD')),
+		dailyUSD: parseBudget(getEnv('LLM_BUDGET_DAILY_USD')),
+		monthlyUSD: parseBudget(getEnv('LLM_BUDGET_MONTHLY_USD'))
+	};
+}
+
+/**
+ * Start and end of the UTC day and month containing now
+ */
+export function getBudgetPeriods(now: Date = new Date()): {
+	dayStart: Date;
+	dayEnd: Date;
+	monthStart: Date;
+	monthEnd: Date;
+} {
+	const year = now.getUTCFullYear();
+	const month = now.getUTCMonth();
+	const day = now.getUTCDate();
+	return {
+		dayStart: new Date(Date.UTC(year, month, day)),
+		dayEnd: new Date(Date.UTC(year, month, day + 1)),
+		monthStart: new Date(Date.UTC(year, month, 1)),
+		monthEnd: new Date(Date.UTC(year, month + 1, 1))
+	};
+}
+
+/**
+ * Check an estimated call cost against the budget ceilings
+ *
+ * @param estimatedUSD Estimated cost of the call
+ * @param budgets Ceilings to enforce
+ * @param backend Ledger with the spend so far; without one only the per-request ceiling applies
+ * @param now Current time, for the day and month periods
+ * @throws LLMBudgetError when the call would exceed a ceiling
+ */
+export async function checkLLMBudget(
+	estimatedUSD: number,
+	budgets: LLMBudgets = getLLMBudgets(),
+	backend: LLMLedgerBackend | null = getLLMLedgerBackend(),
+	now: Date = new Date()
+): Promise<void> {
+	if (budgets.perRequestUSD !== null && estimatedUSD > budgets.perRequestUSD) {
+		throw new LLMBudgetError('request_budget_exceeded', budgets.perRequestUSD, 0, estimatedUSD);
+	}
+	if (budgets.dailyUSD === null && budgets.monthlyUSD === null) return;
+
+	if (!backend) {
+		if (!warnedMissingLedger) {
+			console.warn(
+				'[LLM] Daily and monthly budgets need LLM_LEDGER=file or postgres; not enforced'
+			);
+			warnedMissingLedger = true;
+		}
+		return;
+	}
+
+	const periods = getBudgetPeriods(now);
+	const limits = [
+		{
+			code: 'daily_budget_exceeded',
+			limit: budgets.dailyUSD,
+			start: periods.dayStart,
+			end: periods.dayEnd
+		},
+		{
+			code: 'monthly_budget_exceeded',
+			limit: budgets.monthlyUSD,
+			start: periods.monthStart,
+			end: periods.monthEnd
+		}
+	] as const;
+
+	for (const { code, limit, start, end } of limits) {
+		if (limit === null) continue;
+
+		let spent: number;
+		try {
+			spent = await backend.getSpendUSD(start);
+		} catch (error) {
+			console.warn(`[LLM] Ledger read failed (${backend.name}), budget not checked:`, error);
+			return;
+		}
+
+		if (spent + estimatedUSD > limit) {
+			const retryAfterSeconds = Math.ceil((end.getTime() - now.getTime()) / 1000);
+			throw new LLMBudgetError(code, limit, spent, estimatedUSD, retryAfterSeconds);
+		}
+	}
+}
+
+/**
+ * Record a call, logging backend errors instead of throwing
+ */
+export async function recordLLMSpend(
+	backend: LLMLedgerBackend,
+	entry: Omit<LLMLedgerEntry, 'createdAt'>
+): Promise<void> {
+	try {
+		await backend.record({ createdAt: new Date().toISOString(), ...entry });
+	} catch (error) {
+		console.warn(`[LLM] Ledger write failed (${backend.name}):`, error);
+	}
+}
+
+/**
+ * Add up the calls of a list of entries
+ */
+export function sumLLMUsage(entries: LLMLedgerEntry[]): LLMUsageTotals {
+	return entries.reduce<LLMUsageTotals>(
+		(totals, entry) => ({
+			calls: totals.calls + 1,
+			cacheHits: totals.cacheHits + (entry.cacheStatus === 'hit' ? 1 : 0),
+			inputTokens: totals.inputTokens + entry.inputTokens,
+			outputTokens: totals.outputTokens + entry.outputTokens,
+			totalTokens: totals.totalTokens + entry.totalTokens,
+			costUSD: totals.costUSD + entry.costUSD
+		}),
+		{ calls: 0, cacheHits: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUSD: 0 }
+	);
+}
+
+/**
+ * Group entries by a key and add up each group, most expensive first
+ */
+function groupLLMUsage(
+	entries: LLMLedgerEntry[],
+	getKey: (entry: LLMLedgerEntry) => string | null
+): LLMUsageGroup[] {
+	const groups = new Map<string, LLMLedgerEntry[]>();
+	for (const entry of entries) {
+		const key = getKey(entry) ?? 'unknown';
+		groups.set(key, [...(groups.get(key) ?? []), entry]);
+	}
+	return [...groups]
+		.map(([key, group]) => ({ key, ...sumLLMUsage(group) }))
+		.sort((a, b) => b.costUSD - a.costUSD);
+}
+
+/**
+ * Summarize the spend of the current day and month
+ *
+ * @param backend Ledger to read
+ * @param budgets Ceilings to report remaining budget against
+ * @param now Current time, for the day and month periods
+ * @returns Totals, remaining budgets and monthly breakdowns
+ */
+export async function getLLMUsageSummary(
+	backend: LLMLedgerBackend,
+	budgets: LLMBudgets = getLLMBudgets(),
+	now: Date = new Date()
+): Promise<LLMUsageSummary> {
+	const { dayStart, monthStart } = getBudgetPeriods(now);
+	const monthEntries = await backend.getEntries(monthStart);
+	const todayEntries = monthEntries.filter(
+		(entry) => Date.parse(entry.createdAt) >= dayStart.getTime()
+	);
+
+	const today = sumLLMUsage(todayEntries);
+	const month = sumLLMUsage(monthEntries);
+	const remaining = (limit: number | null, spent: number) =>
+		limit === null ? null : Math.max(0, limit - spent);
+
+	return {
+		ledger: backend.name,
+		budgets,
+		today: {
+			since: dayStart.toISOString(),
+			...today,
+			remainingUSD: remaining(budgets.dailyUSD, today.costUSD)
+		},
+		month: {
+			since: monthStart.toISOString(),
+			...month,
+			remainingUSD: remaining(budgets.monthlyUSD, month.costUSD)
+		},
+		byModel: groupLLMUsage(monthEntries, (entry) => entry.model),
+		byProvider: groupLLMUsage(monthEntries, (entry) => entry.provider),
+		byRoute: groupLLMUsage(monthEntries, (entry) => entry.route),
+		byCompany: groupLLMUsage(monthEntries, (entry) => entry.company)
+	};
+}
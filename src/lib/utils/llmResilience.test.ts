@@ -0,0 +1,232 @@
+import { describe, test, expect } from 'vitest';
+import {
+	LLMProvidersUnavailableError,
+	classifyLLMError,
+	createLLMCircuitBreaker,
+	getBackoffDelayMs,
+	getRetryAfterMs,
+	withLLMResilience,
+	type LLMCircuitBreaker
+} from './llmResilience';
+import { LLMBudgetError } from './llmLedger';
+
+const policy = { maxRetries: 2, baseDelayMs: 100, maxDelayMs: 1000 };
+
+/**
+ * Error shaped like the OpenAI SDK's APIError
+ */
+function createApiError(status: number, fields: Record<string, unknown> = {}): Error {
+	return Object.assign(new Error(`${status} provider error`), { status, headers: {}, ...fields });
+}
+
+describe('classifyLLMError', () => {
+	test('retries transient errors, falls back on quota and auth errors and throws the rest', () => {
+		expect(classifyLLMError(createApiError(429))).toBe('retry');
+		expect(classifyLLMError(createApiError(503))).toBe('retry');
+		expect(classifyLLMError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(
+			'retry'
+		);
+		expect(
+			classifyLLMError(new Error('Connection error.', { cause: { code: 'ECONNREFUSED' } }))
+		).toBe('retry');
+		expect(classifyLLMError(createApiError(429, { code: 'insufficient_quota' }))).toBe('fallback');
+		expect(classifyLLMError(createApiError(401))).toBe('fallback');
+		expect(classifyLLMError(new Error('API key not found for provider: openrouter'))).toBe(
+			'fallback'
+		);
+		expect(classifyLLMError(createApiError(400))).toBe('fatal');
+		// A daily budget rejection is a 429 too, but retrying cannot help
+		expect(classifyLLMError(new LLMBudgetError('daily_budget_exceeded', 5, 5, 0.1))).toBe('fatal');
+	});
+});
+
+describe('getRetryAfterMs', () => {
+	test('reads retry-after-ms, seconds and HTTP dates', () => {
+		const now = Date.parse('2026-03-15T12:00:00Z');
+		expect(getRetryAfterMs({ headers: { 'retry-after-ms': '250' } }, now)).toBe(250);
+		expect(getRetryAfterMs({ headers: new Headers({ 'retry-after': '2' }) }, now)).toBe(2000);
+		expect(
+			getRetryAfterMs({ headers: { 'retry-after': 'Sun, 15 Mar 2026 12:00:05 GMT' } }, now)
+		).toBe(5000);
+		expect(getRetryAfterMs({ headers: {} }, now)).toBeNull();
+		expect(getRetryAfterMs(new Error('no headers'), now)).toBeNull();
+	});
+});
+
+describe('getBackoffDelayMs', () => {
+	test('grows exponentially up to maxDelayMs and honors Retry-After', () => {
+		const max = () => 0.999999;
+		expect(getBackoffDelayMs(0, policy, null, max)).toBe(100);
+		expect(getBackoffDelayMs(2, policy, null, max)).toBe(400);
+		expect(getBackoffDelayMs(5, policy, null, max)).toBe(1000);
+		expect(getBackoffDelayMs(0, policy, null, () => 0)).toBe(0);
+		expect(getBackoffDelayMs(0, policy, 600, () => 0)).toBe(600);
+		// Longer than maxDelayMs: give up on this provider
+		expect(getBackoffDelayMs(0, policy, 5000, max)).toBeNull();
+	});
+});
+
+describe('createLLMCircuitBreaker', () => {
+	test('opens after the threshold, then lets one trial request through after the cooldown', () => {
+		let now = 0;
+		const breaker = createLLMCircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 }, () => now);
+
+		breaker.recordFailure();
+		expect(breaker.canRequest()).toBe(true);
+		breaker.recordFailure();
+		expect(breaker.state()).toBe('open');
+		expect(breaker.canRequest()).toBe(false);
+
+		now = 1000;
+		expect(breaker.canRequest()).toBe(true);
+		expect(breaker.state()).toBe('half_open');
+
+		// A failed trial reopens the circuit at once
+		breaker.recordFailure();
+		expect(breaker.canRequest()).toBe(false);
+
+		now = 2000;
+		expect(breaker.canRequest()).toBe(true);
+		breaker.recordSuccess();
+		expect(breaker.state()).toBe('closed');
+	});
+
+	test('refuses concurrent requests while the trial is in flight', () => {
+		let now = 0;
+		const breaker = createLLMCircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 }, () => now);
+		breaker.recordFailure();
+
+		now = 1000;
+		expect([breaker.canRequest(), breaker.canRequest(), breaker.canRequest()]).toEqual([
+			true,
+			false,
+			false
+		]);
+
+		breaker.recordSuccess();
+		expect(breaker.canRequest()).toBe(true);
+	});
+});
+
+describe('withLLMResilience', () => {
+	/**
+	 * Fresh breakers per test, so failures do not leak between tests
+	 */
+	function createBreakers(): (provider: string) => LLMCircuitBreaker {
+		const breakers = new Map<string, LLMCircuitBreaker>();
+		return (provider) => {
+			const breaker =
+				breakers.get(provider) ??
+				createLLMCircuitBreaker({ failureThreshold: 5, cooldownMs: 60000 });
+			breakers.set(provider, breaker);
+			return breaker;
+		};
+	}
+
+	test('retries with backoff, then falls back to the next provider', async () => {
+		const delays: number[] = [];
+		const calls: string[] = [];
+
+		const { result, provider } = await withLLMResilience(
+			['direct', 'openrouter'],
+			async (name) => {
+				calls.push(name);
+				if (name === 'direct') {
+					throw createApiError(429, { headers: { 'retry-after': '0.2' } });
+				}
+				return 'ok';
+			},
+			{
+				policy,
+				getCircuitBreaker: createBreakers(),
+				sleep: async (ms) => {
+					delays.push(ms);
+				},
+				random: () => 0
+			}
+		);
+
+		expect(result).toBe('ok');
+		expect(calls).toEqual(['direct', 'direct', 'direct', 'openrouter']);
+		expect(delays).toEqual([200, 200]);
+		expect(provider).toMatchObject({ requested: 'direct', used: 'openrouter', fallback: true });
+		expect(provider.attempts.map(({ provider, status }) => `${provider}:${status}`)).toEqual([
+			'direct:failed',
+			'direct:failed',
+			'direct:failed',
+			'openrouter:succeeded'
+		]);
+	});
+
+	test('throws fatal errors without retrying', async () => {
+		let calls = 0;
+		const call = withLLMResilience(
+			['direct', 'openrouter'],
+			async () => {
+				calls += 1;
+				throw createApiError(400);
+			},
+			{ policy, getCircuitBreaker: createBreakers(), sleep: async () => {} }
+		);
+
+		await expect(call).rejects.toThrow('400 provider error');
+		expect(calls).toBe(1);
+	});
+
+	test('does not retry or fall back once streamed text was delivered', async () => {
+		let calls = 0;
+		const call = withLLMResilience(
+			['direct', 'openrouter'],
+			async () => {
+				calls += 1;
+				throw createApiError(503);
+			},
+			{
+				policy,
+				getCircuitBreaker: createBreakers(),
+				canRetry: () => false,
+				sleep: async () => {}
+			}
+		);
+
+		await expect(call).rejects.toThrow('503 provider error');
+		expect(calls).toBe(1);
+	});
+
+	test('skips providers with an open circuit', async () => {
+		const getCircuitBreaker = createBreakers();
+		for (let i = 0; i < 5; i++) getCircuitBreaker('direct').recordFailure();
+
+		const call = withLLMResilience(['direct'], async () => 'ok', {
+			policy,
+			getCircuitBreaker,
+			sleep: async () => {}
+		});
+
+		await expect(call).rejects.toBeInstanceOf(LLMProvidersUnavailableError);
+	});
+
+	test('settles a half-open trial that ends in a fatal error', async () => {
+		let now = 0;
+		const breaker = createLLMCircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 }, () => now);
+		const options = { policy, getCircuitBreaker: () => breaker, sleep: async () => {} };
+		breaker.recordFailure();
+		now = 1000;
+
+		await expect(
+			withLLMResilience(
+				['direct'],
+				async () => {
+					throw createApiError(400);
+				},
+				options
+			)
+		).rejects.toThrow('400 provider error');
+
+		// The next request becomes the trial, and its success closes the circuit
+		expect(breaker.state()).toBe('open');
+		const { result } = await withLLMResilience(['direct'], async () => 'ok', options);
+		expect(result).toBe('ok');
+		expect(breaker.state()).toBe('closed');
+	});
+});
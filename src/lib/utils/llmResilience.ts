@@ -0,0 +1,464 @@
+/**
+ * llmResilience.ts
+ * Retries, circuit breakers and provider fallback for LLM API calls
+ *
+ * callOpenAI sends each request through withLLMResilience, which tries the
+ * requested provider and then the fallback providers in order:
+ * 1. Transient errors (429 rate limits, 408, 409, 5xx, connection errors and
+ *    timeouts) are retried on the same provider with jittered exponential
+ *    backoff: a random delay up to baseDelayMs * 2^attempt, capped at
+ *    maxDelayMs. A Retry-After header sets the minimum delay; when it asks for
+ *    longer than maxDelayMs, the next provider is tried instead of waiting.
+ * 2. Errors that another provider may not have (insufficient_quota, 401, 403,
+ *    a missing API key) and transient errors that outlast the retries move on
+ *    to the next provider.
+ * 3. Errors of the request itself (other 4xx, budget rejections, aborts) are
+ *    thrown at once.
+ *
+ * Each provider has a circuit breaker shared by all requests of the process:
+ * after failureThreshold consecutive failures it opens and the provider is
+ * skipped for cooldownMs, then one trial request is let through (half open)
+ * while concurrent requests keep skipping it; its outcome closes or reopens
+ * the circuit. A trial that ends in a fatal error (e.g. a 400 or an abort)
+ * says nothing about the provider and lets the next request try again. When every provider is skipped,
+ * LLMProvidersUnavailableError (503) is thrown.
+ *
+ * The provider used and every attempt are returned as LLMProviderInfo and
+ * reported in _meta.provider of the analysis.
+ *
+ * Configuration:
+ * - LLM_FALLBACK_PROVIDERS: comma-separated providers tried after the requested one
+ *   (e.g. openrouter,local); unset disables fallback
+ * - LLM_RETRY_MAX (default 3), LLM_RETRY_BASE_DELAY_MS (default 500),
+ *   LLM_RETRY_MAX_DELAY_MS (default 30000)
+ * - LLM_CIRCUIT_FAILURE_THRESHOLD (default 5), LLM_CIRCUIT_COOLDOWN_MS (default 60000)
+ *
+ * Browser-safe: settings come from process.env where it exists, else the defaults.
+ *
+ * @link src/lib/utils/openaiApi.ts - callOpenAI
+ * @link src/routes/api/rest/v1/company/competitive-analysis/analysisErrors.ts - Error mapping
+ */
+
+import type { OpenAIError } from '$lib/types/openaiApi';
+import { LLMBudgetError } from './llmLedger';
+
+// Defaults of the retry policy and circuit breakers
+const defaultRetryPolicy: LLMRetryPolicy = { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 30000 };
+const defaultCircuitPolicy: LLMCircuitPolicy = { failureThreshold: 5, cooldownMs: 60000 };
+
+// Connection error names and codes of the OpenAI SDK and Node
+const connectionErrorNames = ['APIConnectionError', 'APIConnectionTimeoutError'];
+const connectionErrorCodes = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * Retry settings for one provider
+ */
+export interface LLMRetryPolicy {
+	// Retries after the first attempt; 0 disables retries
+	maxRetries: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+}
+
+/**
+ * Circuit breaker settings
+ */
+export interface LLMCircuitPolicy {
+	// Consecutive failures that open the circuit
+	failureThreshold: number;
+	// Time an open circuit skips the provider before a trial request
+	cooldownMs: number;
+}
+
+/**
+ * How a failed attempt is handled
+ * - retry: transient; retry the same provider, then fall back
+ * - fallback: try the next provider without retrying
+ * - fatal: throw; no provider would do better
+ */
+export type LLMErrorAction = 'retry' | 'fallback' | 'fatal';
+
+/**
+ * One attempt of a request
+ */
+export interface LLMAttemptInfo {
+	provider: string;
+	status: 'succeeded' | 'failed' | 'skipped';
+	error?: string;
+	// Wait before the next attempt on the same provider
+	delayMs?: number;
+}
+
+/**
+ * Provider a request was served by, reported in _meta.provider
+ */
+export interface LLMProviderInfo {
+	requested: string;
+	used: string;
+	// Set when the request was served by a fallback provider
+	fallback: boolean;
+	attempts: LLMAttemptInfo[];
+}
+
+/**
+ * Circuit breaker of one provider
+ */
+export interface LLMCircuitBreaker {
+	state(): 'closed' | 'open' | 'half_open';
+	// Whether a request may be sent now; the first request after the cooldown
+	// becomes the trial (half open) and later ones are refused until it settles
+	canRequest(): boolean;
+	recordSuccess(): void;
+	recordFailure(): void;
+	// Settle a request without an outcome (fatal errors); ends a trial in flight
+	release(): void;
+}
+
+/**
+ * Thrown when the circuits of all providers of a request are open
+ */
+export class LLMProvidersUnavailableError extends Error {
+	status: 503;
+	providers: string[];
+	retryAfterSeconds: number;
+
+	constructor(providers: string[], retryAfterSeconds: number) {
+		super(`LLM providers temporarily unavailable after repeated failures: ${providers.join(', ')}`);
+		this.name = 'LLMProvidersUnavailableError';
+		this.status = 503;
+		this.providers = providers;
+		this.retryAfterSeconds = retryAfterSeconds;
+	}
+}
+
+/**
+ * Read an environment variable (undefined in the browser)
+ */
+function getEnv(name: string): string | undefined {
+	return typeof process !== 'undefined' ? process.env?.[name] : undefined;
+}
+
+/**
+ * Parse a non-negative integer setting; unset or invalid values use the default
+ */
+function parseSetting(value: string | undefined, fallback: number): number {
+	const parsed = Number(value);
+	return value && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Get the configured retry policy
+ */
+export function getLLMRetryPolicy(): LLMRetryPolicy {
+	return {
+		maxRetries: parseSetting(getEnv('LLM_RETRY_MAX'), defaultRetryPolicy.maxRetries),
+		baseDelayMs: parseSetting(getEnv('LLM_RETRY_BASE_DELAY_MS'), defaultRetryPolicy.baseDelayMs),
+		maxDelayMs: parseSetting(getEnv('LLM_RETRY_MAX_DELAY_MS'), defaultRetryPolicy.maxDelayMs)
+	};
+}
+
+/**
+ * Get the configured circuit breaker policy
+ */
+export function getLLMCircuitPolicy(): LLMCircuitPolicy {
+	return {
+		failureThreshold: Math.max(
+			1,
+			parseSetting(getEnv('LLM_CIRCUIT_FAILURE_THRESHOLD'), defaultCircuitPolicy.failureThreshold)
+		),
+		cooldownMs: parseSetting(getEnv('LLM_CIRCUIT_COOLDOWN_MS'), defaultCircuitPolicy.cooldownMs)
+	};
+}
+
+/**
+ * Get the providers to try for a request, in order
+ *
+ * @param requested Provider of the request
+ * @param isKnown Filters out names that are not providers
+ * @returns The requested provider, then LLM_FALLBACK_PROVIDERS without duplicates
+ */
+export function getLLMProviderChain(
+	requested: string,
+	isKnown: (provider: string) => boolean = () => true
+): string[] {
+	const fallbacks = (getEnv('LLM_FALLBACK_PROVIDERS') ?? '')
+		.split(',')
+		.map((provider) => provider.trim())
+		.filter((provider) => provider && isKnown(provider));
+	return [...new Set([requested, ...fallbacks])];
+}
+
+/**
+ * Decide how a failed attempt is handled
+ *
+ * @param error Error thrown by the provider call
+ * @returns retry, fallback or fatal (see LLMErrorAction)
+ */
+export function classifyLLMError(error: unknown): LLMErrorAction {
+	if (error instanceof LLMBudgetError) return 'fatal';
+	if (!error || typeof error !== 'object') return 'fatal';
+
+	const { name, message, status, code, error: details } = error as Partial<OpenAIError>;
+	if (name === 'AbortError' || name === 'APIUserAbortError') return 'fatal';
+	if (code === 'insufficient_quota' || details?.code === 'insufficient_quota') return 'fallback';
+	if (details?.type === 'insufficient_quota') return 'fallback';
+
+	if (typeof status === 'number') {
+		if (status === 401 || status === 403) return 'fallback';
+		if (status === 408 || status === 409 || status === 429 || status >= 500) return 'retry';
+		return 'fatal';
+	}
+
+	// The SDK's connection errors keep the default name and the socket error in cause
+	const className = (error as { constructor?: { name?: string } }).constructor?.name ?? '';
+	const causeCode = (error as { cause?: { code?: string } }).cause?.code ?? '';
+	if (
+		connectionErrorNames.includes(name ?? '') ||
+		connectionErrorNames.includes(className) ||
+		connectionErrorCodes.includes(code ?? '') ||
+		connectionErrorCodes.includes(causeCode)
+	) {
+		return 'retry';
+	}
+	// Thrown by getApiKey when the provider has no key configured
+	if (message?.startsWith('API key not found')) return 'fallback';
+	return 'fatal';
+}
+
+/**
+ * Read the Retry-After of a provider error
+ *
+ * Supports retry-after-ms, retry-after in seconds and retry-after as an HTTP
+ * date, from plain header objects and Headers.
+ *
+ * @param error Error thrown by the provider call
+ * @param now Current time, for HTTP dates
+ * @returns Requested delay in milliseconds, or null
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | null {
+	const headers = (error as { headers?: unknown } | null)?.headers;
+	if (!headers || typeof headers !== 'object') return null;
+
+	const read = (name: string): string | null => {
+		const value =
+			typeof (headers as Headers).get === 'function'
+				? (headers as Headers).get(name)
+				: (headers as Record<string, unknown>)[name];
+		return typeof value === 'string' && value.trim() ? value.trim() : null;
+	};
+
+	const milliseconds = Number(read('retry-after-ms'));
+	if (read('retry-after-ms') && Number.isFinite(milliseconds)) return Math.max(0, milliseconds);
+
+	const retryAfter = read('retry-after');
+	if (!retryAfter) return null;
+	const seconds = Number(retryAfter);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(retryAfter);
+	return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Delay before a retry
+ *
+ * @param retry Number of the retry, from 0
+ * @param policy Retry policy
+ * @param retryAfterMs Delay requested by the provider, if any
+ * @param random Random number in [0, 1), for the jitter
+ * @returns Delay in milliseconds, or null when the provider asks for more than maxDelayMs
+ */
+export function getBackoffDelayMs(
+	retry: number,
+	policy: LLMRetryPolicy,
+	retryAfterMs: number | null = null,
+	random: () => number = Math.random
+): number | null {
+	if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) return null;
+
+	const jittered = Math.round(
+		random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry)
+	);
+	return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+/**
+ * Create a circuit breaker
+ *
+ * @param policy Failure threshold and cooldown
+ * @param now Clock, for tests
+ */
+export function createLLMCircuitBreaker(
+	policy: LLMCircuitPolicy = getLLMCircuitPolicy(),
+	now: () => number = Date.now
+): LLMCircuitBreaker {
+	let failures = 0;
+	let openedAt: number | null = null;
+	// The single request let through after the cooldown is still running
+	let trialInFlight = false;
+
+	return {
+		state() {
+			if (openedAt === null) return 'closed';
+			return trialInFlight ? 'half_open' : 'open';
+		},
+		canRequest() {
+			if (openedAt === null) return true;
+			if (trialInFlight || now() - openedAt < policy.cooldownMs) return false;
+			trialInFlight = true;
+			return true;
+		},
+		recordSuccess() {
+			failures = 0;
+			openedAt = null;
+			trialInFlight = false;
+		},
+		recordFailure() {
+			failures += 1;
+			if (trialInFlight || failures >= policy.failureThreshold) {
+				openedAt = now();
+				trialInFlight = false;
+			}
+		},
+		release() {
+			// The cooldown has passed, so the next request becomes the trial
+			trialInFlight = false;
+		}
+	};
+}
+
+// Circuit breakers of this process, by provider
+const circuitBreakers = new Map<string, LLMCircuitBreaker>();
+
+/**
+ * Get the circuit breaker of a provider, creating it on first use
+ */
+export function getLLMCircuitBreaker(provider: string): LLMCircuitBreaker {
+	let breaker = circuitBreakers.get(provider);
+	if (!breaker) {
+		breaker = createLLMCircuitBreaker();
+		circuitBreakers.set(provider, breaker);
+	}
+	return breaker;
+}
+
+/**
+ * Wait for a delay unless the signal aborts first
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		signal?.throwIfAborted();
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+/**
+ * Options of withLLMResilience
+ */
+export interface LLMResilienceOptions {
+	policy?: LLMRetryPolicy;
+	signal?: AbortSignal;
+	// Whether a failed attempt may be repeated (false once streamed text was delivered)
+	canRetry?: () => boolean;
+	getCircuitBreaker?: (provider: string) => LLMCircuitBreaker;
+	sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+	random?: () => number;
+	onAttempt?: (attempt: LLMAttemptInfo) => void;
+}
+
+/**
+ * Run a provider call with retries, circuit breakers and fallback
+ *
+ * @param providers Providers to try, in order; the first is the requested one
+ * @param call Sends the request to one provider
+ * @param options Retry policy, cancellation and test hooks
+ * @returns The result and the provider that served it
+ * @throws The last provider error when all providers fail, a fatal error at
+ *   once, or LLMProvidersUnavailableError when every circuit is open
+ */
+export async function withLLMResilience<T>(
+	providers: string[],
+	call: (provider: string) => Promise<T>,
+	options: LLMResilienceOptions = {}
+): Promise<{ result: T; provider: LLMProviderInfo }> {
+	const {
+		policy = getLLMRetryPolicy(),
+		signal,
+		canRetry = () => true,
+		getCircuitBreaker = getLLMCircuitBreaker,
+		random = Math.random,
+		onAttempt
+	} = options;
+	const wait = options.sleep ?? sleep;
+	const attempts: LLMAttemptInfo[] = [];
+	const record = (attempt: LLMAttemptInfo) => {
+		attempts.push(attempt);
+		onAttempt?.(attempt);
+	};
+
+	let lastError: unknown = null;
+	for (const provider of providers) {
+		const breaker = getCircuitBreaker(provider);
+
+		for (let retry = 0; retry <= policy.maxRetries; retry++) {
+			if (!breaker.canRequest()) {
+				record({ provider, status: 'skipped', error: 'circuit open' });
+				break;
+			}
+
+			try {
+				const result = await call(provider);
+				breaker.recordSuccess();
+				record({ provider, status: 'succeeded' });
+				return {
+					result,
+					provider: {
+						requested: providers[0],
+						used: provider,
+						fallback: provider !== providers[0],
+						attempts
+					}
+				};
+			} catch (error) {
+				const action = signal?.aborted ? 'fatal' : classifyLLMError(error);
+				const message = error instanceof Error ? error.message : String(error);
+				if (action === 'fatal') {
+					breaker.release();
+					throw error;
+				}
+
+				breaker.recordFailure();
+				lastError = error;
+
+				const delayMs =
+					action === 'retry' && retry < policy.maxRetries && canRetry()
+						? getBackoffDelayMs(retry, policy, getRetryAfterMs(error), random)
+						: null;
+				record({
+					provider,
+					status: 'failed',
+					error: message,
+					...(delayMs !== null && { delayMs })
+				});
+				if (delayMs === null) break;
+				await wait(delayMs, signal);
+			}
+		}
+
+		// Streamed text already went to the client; another provider would repeat it
+		if (!canRetry()) break;
+	}
+
+	if (lastError !== null) throw lastError;
+	throw new LLMProvidersUnavailableError(
+		providers,
+		Math.ceil(getLLMCircuitPolicy().cooldownMs / 1000)
+	);
+}
@@ -3,22 +3,40 @@
  * Streamlined LLM API utilities for making OpenAI-compatible API calls
  *
  * This module provides core functions for:
- * 1. Making API calls to OpenAI or OpenRouter
+ * 1. Making API calls to OpenAI, OpenRouter, Anthropic, local OpenAI-compatible
+ *    servers or the offline mock provider
  * 2. Parsing and validating JSON responses
  * 3. Structured schema-based requests
+ * 4. Response caching (see llmCache.ts)
+ * 5. Streaming responses for the direct and local providers
+ * 6. Spend recording and budget ceilings (see llmLedger.ts)
  */
 
 import OpenAI from 'openai';
 import type {
 	ChatCompletionMessageParam,
 	ChatCompletion,
+	ChatCompletionChunk,
 	ChatCompletionCreateParams
 } from 'openai';
-import type { LLMModels } from '$lib/types/openaiApi';
+import type { LLMModels, LLMProviderConfig, ModelConfig } from '$lib/types/openaiApi';
 import type { ApiCost } from '../types/openaiApi';
+import {
+	createLLMCacheKey,
+	getLLMCacheBackend,
+	readLLMCache,
+	writeLLMCache,
+	type LLMCacheInfo,
+	type LLMCacheMode
+} from './llmCache';
+import { checkLLMBudget, getLLMLedgerBackend, recordLLMSpend, type LLMCaller } from './llmLedger';
+import { getLLMProviderChain, withLLMResilience, type LLMProviderInfo } from './llmResilience';
 
 // Re-export useful types
 export type { CompletionUsage, OpenAIErrorDetails, OpenAIError } from '$lib/types/openaiApi';
+export type { LLMCacheInfo, LLMCacheMode } from './llmCache';
+export type { LLMCaller } from './llmLedger';
+export type { LLMProviderInfo } from './llmResilience';
 
 // Import OpenRouter-specific utilities
 import {
@@ -28,6 +46,21 @@ import {
 	processOpenRouterResponse
 } from '$data-tools/providers/openrouter';
 
+// Offline provider for tests and development (see data-tools/providers/mock.ts)
+import { mockProvider, createMockCompletion } from '$data-tools/providers/mock';
+
+// Anthropic Messages API adapter and OpenAI-compatible local servers (Ollama, llama.cpp)
+import {
+	anthropicProvider,
+	createAnthropicCompletion,
+	formatModelNameForAnthropic
+} from '$data-tools/providers/anthropic';
+import { localProvider, formatModelNameForLocal } from '$data-tools/providers/local';
+
+// Response validation with the Zod schema a tool's parameters were generated from
+import type { ZodTypeAny } from 'zod';
+import { formatZodIssues, stripOmittedNulls } from '$data-tools/sharedUtils/zodJsonSchema';
+
 // Basic model configuration with reasonable defaults
 const defaultModelConfig = {
 	max_tokens: 4000,
@@ -70,12 +103,207 @@ const providers = {
 		apiKeyEnvVar: 'OPENAI_API_KEY',
 		headers: {}
 	},
-	openrouter: OpenRouterProvider
+	openrouter: OpenRouterProvider,
+	anthropic: anthropicProvider,
+	local: localProvider,
+	mock: mockProvider
 } as const;
 
 // Valid provider names for type safety
 type ProviderName = keyof typeof providers;
 
+// Providers that stream through the OpenAI client. OpenRouter is excluded because
+// of its streaming issues (see providers/openrouter.ts); the others deliver the
+// whole response as a single delta.
+const streamingProviders: ProviderName[] = ['direct', 'local'];
+
+/**
+ * Resolves the API key for a provider from the explicit key, its environment
+ * variable or its default key
+ */
+function getApiKey(provider: LLMProviderConfig, apiKey?: string): string {
+	const key =
+		apiKey ||
+		(typeof process !== 'undefined' ? process.env[provider.apiKeyEnvVar] : undefined) ||
+		provider.defaultApiKey;
+
+	if (!key) {
+		throw new Error(`API key not found for provider ${provider.name}`);
+	}
+
+	return key;
+}
+
+/**
+ * Sends a chat completion request to the given provider
+ * - Anthropic is translated to the Messages API; mock never leaves the process
+ * - All other providers use the OpenAI client
+ */
+function createCompletion(
+	providerName: ProviderName,
+	params: ChatCompletionCreateParams,
+	apiKey?: string,
+	signal?: AbortSignal
+): Promise<ChatCompletion> {
+	switch (providerName) {
+		case 'mock':
+			return createMockCompletion(params, undefined, (recordParams) =>
+				getClient('direct', apiKey).chat.completions.create(recordParams, { signal })
+			);
+		case 'anthropic':
+			return createAnthropicCompletion(params, getApiKey(anthropicProvider, apiKey), signal);
+		default:
+			return getClient(providerName, apiKey).chat.completions.create(params, { signal });
+	}
+}
+
+/**
+ * Sends a streaming chat completion request and assembles the chunks into a ChatCompletion
+ * - Overrides the client's no-stream defaults for this request only
+ */
+async function streamCompletion(
+	providerName: ProviderName,
+	params: ChatCompletionCreateParams,
+	onDelta: (chunk: string) => void,
+	apiKey?: string,
+	signal?: AbortSignal
+): Promise<ChatCompletion> {
+	const stream = await getClient(providerName, apiKey).chat.completions.create(
+		{ ...params, stream: true, stream_options: { include_usage: true } },
+		{ signal, query: { stream: 'true' }, headers: { 'x-no-stream': 'false' } }
+	);
+	return collectChatCompletionStream(stream, onDelta);
+}
+
+/**
+ * Assembles streamed chunks into a ChatCompletion
+ * - onDelta receives each new piece of content or tool-call arguments as it arrives
+ * - Usage is zero when the server does not report it on the final chunk
+ *
+ * @param stream Chunks from a stream: true request
+ * @param onDelta Optional callback for incremental text
+ * @returns The complete response, as a non-streaming request would return it
+ */
+export async function collectChatCompletionStream(
+	stream: AsyncIterable<ChatCompletionChunk>,
+	onDelta?: (chunk: string) => void
+): Promise<ChatCompletion> {
+	let id = '';
+	let model = '';
+	let created = 0;
+	let content = '';
+	let finishReason: ChatCompletion['choices'][number]['finish_reason'] = 'stop';
+	let usage: ChatCompletion['usage'] = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+	const toolCalls: Array<{
+		id: string;
+		type: 'function';
+		function: { name: string; arguments: string };
+	}> = [];
+
+	for await (const chunk of stream) {
+		id ||= chunk.id;
+		model ||= chunk.model;
+		created ||= chunk.created;
+		if (chunk.usage) usage = chunk.usage;
+
+		const choice = chunk.choices[0];
+		if (!choice) continue;
+		if (choice.finish_reason) finishReason = choice.finish_reason;
+
+		if (choice.delta.content) {
+			content += choice.delta.content;
+			onDelta?.(choice.delta.content);
+		}
+
+		for (const toolCallDelta of choice.delta.tool_calls ?? []) {
+			const toolCall = (toolCalls[toolCallDelta.index] ??= {
+				id: '',
+				type: 'function',
+				function: { name: '', arguments: '' }
+			});
+			if (toolCallDelta.id) toolCall.id = toolCallDelta.id;
+			if (toolCallDelta.function?.name) toolCall.function.name = toolCallDelta.function.name;
+			if (toolCallDelta.function?.arguments) {
+				toolCall.function.arguments += toolCallDelta.function.arguments;
+				onDelta?.(toolCallDelta.function.arguments);
+			}
+		}
+	}
+
+	return {
+		id,
+		object: 'chat.completion',
+		created,
+		model,
+		choices: [
+			{
+				index: 0,
+				message: {
+					role: 'assistant',
+					content: content || null,
+					...(toolCalls.length > 0 && { tool_calls: toolCalls })
+				},
+				finish_reason: finishReason
+			}
+		],
+		usage
+	};
+}
+
+/**
+ * Gets the text a streaming request would have delivered: the first tool call's
+ * arguments, the legacy function call's arguments, or the message content
+ */
+function getResponseText(response: ChatCompletion): string {
+	const message = response.choices[0]?.message;
+	return (
+		message?.tool_calls?.[0]?.function.arguments ??
+		message?.function_call?.arguments ??
+		message?.content ??
+		''
+	);
+}
+
+/**
+ * Looks up pricing and limits for a model in llmModels.json
+ * - Local models are also looked up under an "ollama/" prefix and are free when unlisted
+ */
+function getModelConfig(providerName: ProviderName, modelName: string): ModelConfig {
+	if (llmModels[modelName]) return llmModels[modelName];
+	if (providerName === 'local') {
+		return (
+			llmModels[`ollama/${formatModelNameForLocal(modelName)}`] || {
+				...defaultModelConfig,
+				input_cost_per_token: 0,
+				output_cost_per_token: 0
+			}
+		);
+	}
+	return defaultModelConfig;
+}
+
+/**
+ * Cost of a call from the model's per-token prices
+ * - Free models (local servers) have zero per-token costs, so only fall back when unset
+ */
+function calculateCostUSD(modelConfig: ModelConfig, inputTokens: number, outputTokens: number) {
+	return (
+		inputTokens * (modelConfig.input_cost_per_token ?? defaultModelConfig.input_cost_per_token) +
+		outputTokens * (modelConfig.output_cost_per_token ?? defaultModelConfig.output_cost_per_token)
+	);
+}
+
+/**
+ * Worst-case cost of a request before it is sent: the estimated prompt tokens
+ * (messages and tool schemas) plus max_tokens of output
+ */
+function estimateRequestCostUSD(modelConfig: ModelConfig, params: ChatCompletionCreateParams) {
+	const promptTokens = estimateTokenCount(
+		JSON.stringify(params.messages) + (params.tools ? JSON.stringify(params.tools) : '')
+	);
+	return calculateCostUSD(modelConfig, promptTokens, params.max_tokens ?? 0);
+}
+
 /**
  * Creates an OpenAI client configured for the requested provider
  */
@@ -85,17 +313,16 @@ function getClient(providerName: string = 'direct', apiKey?: string): OpenAI {
 		Object.keys(providers).includes(providerName) ? providerName : 'direct'
 	) as ProviderName;
 
-	const provider = providers[validProviderName];
-	const key =
-		apiKey || (typeof process !== 'undefined' ? process.env[provider.apiKeyEnvVar] : undefined);
-
-	if (!key) {
-		throw new Error(`API key not found for provider ${providerName}`);
-	}
+	const provider: LLMProviderConfig = providers[validProviderName];
+	const key = getApiKey(provider, apiKey);
+	const baseUrlOverride =
+		provider.baseUrlEnvVar && typeof process !== 'undefined'
+			? process.env[provider.baseUrlEnvVar]
+			: undefined;
 
 	return new OpenAI({
 		apiKey: key,
-		baseURL: provider.baseUrl,
+		baseURL: baseUrlOverride || provider.baseUrl,
 		defaultHeaders: {
 			...(provider.headers || {}),
 			'x-no-stream': 'true',
@@ -104,7 +331,8 @@ function getClient(providerName: string = 'direct', apiKey?: string): OpenAI {
 		defaultQuery: {
 			stream: 'false'
 		},
-		maxRetries: 2,
+		// Retries and fallback are handled by callOpenAI (see llmResilience.ts)
+		maxRetries: 0,
 		timeout: 120000,
 		dangerouslyAllowBrowser: false
 	});
@@ -236,8 +464,158 @@ export function getAvailableModels(): string[] {
 	return Object.keys(llmModels);
 }
 
+/**
+ * Get the max_input_tokens of a model from llmModels.json (defaults when unlisted)
+ */
+export function getModelInputTokenLimit(
+	modelName: string,
+	providerName: string = 'direct'
+): number {
+	const validProviderName = (
+		Object.keys(providers).includes(providerName) ? providerName : 'direct'
+	) as ProviderName;
+	return getModelConfig(validProviderName, modelName).max_input_tokens;
+}
+
+/**
+ * Rough token count of a text (about 4 characters per token for English)
+ */
+export function estimateTokenCount(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Cache status for a call that went to the provider
+ */
+function getCacheMissStatus(mode: LLMCacheMode, cacheEnabled: boolean): LLMCacheInfo['status'] {
+	if (mode === 'bypass') return 'bypass';
+	if (!cacheEnabled) return 'disabled';
+	return mode === 'refresh' ? 'refresh' : 'miss';
+}
+
+/**
+ * Checks that a name is one of the configured providers
+ */
+function isProviderName(name: string): name is ProviderName {
+	return Object.keys(providers).includes(name);
+}
+
+/**
+ * Sends one request to one provider, as an attempt of callOpenAI
+ * - Applies the provider's model naming and request format
+ * - Adds the tool schema to the prompt when OpenRouter is a fallback for a
+ *   tool-calling request (callOpenAIWithSchema adds it when OpenRouter is requested)
+ * - Checks the request against the budget ceilings with the provider's prices
+ */
+async function sendCompletion(
+	providerName: ProviderName,
+	modelName: string,
+	params: Parameters<typeof callOpenAI>[0],
+	options: {
+		max_tokens: number;
+		apiKey?: string;
+		debug: boolean;
+		signal?: AbortSignal;
+		onDelta?: (chunk: string) => void;
+		schemaInMessages: boolean;
+	}
+): Promise<{ response: ChatCompletion; modelConfig: ModelConfig }> {
+	const { max_tokens, apiKey, debug, signal, onDelta } = options;
+
+	// Create a working copy of params
+	let requestParams = { ...params };
+
+	// Apply provider-specific transformations
+	let finalModel = modelName;
+	if (providerName === 'openrouter') {
+		finalModel = formatModelNameForOpenRouter(modelName);
+
+		const tool = requestParams.tools?.[0];
+		const messages =
+			tool && !options.schemaInMessages
+				? enhanceMessageWithSchema(
+						requestParams.messages,
+						(tool.function.parameters ?? {}) as Record<string, unknown>
+					)
+				: requestParams.messages;
+
+		// Apply OpenRouter-specific transformations
+		requestParams = prepareOpenRouterRequest({ ...requestParams, messages, model: finalModel });
+	} else if (providerName === 'anthropic') {
+		finalModel = formatModelNameForAnthropic(modelName);
+	} else if (providerName === 'local') {
+		finalModel = formatModelNameForLocal(modelName);
+	}
+
+	// Prepare final parameters
+	const finalParams: ChatCompletionCreateParams = {
+		model: finalModel,
+		messages: requestParams.messages,
+		...(requestParams.tools && { tools: requestParams.tools }),
+		...(requestParams.tool_choice && { tool_choice: requestParams.tool_choice }),
+		...(requestParams.temperature && { temperature: requestParams.temperature }),
+		max_tokens: requestParams.max_tokens || max_tokens,
+		response_format: requestParams.response_format || { type: 'json_object' },
+		stream: false
+	};
+
+	// Log request in debug mode
+	debugLog(
+		`Calling ${providerName} API with model ${finalModel}`,
+		{
+			...finalParams,
+			messages: finalParams.messages.map((m) => ({
+				role: m.role,
+				content:
+					typeof m.content === 'string'
+						? `${m.content.substring(0, 100)}${m.content.length > 100 ? '...' : ''}`
+						: m.content
+			}))
+		},
+		debug
+	);
+
+	// Reject requests over a budget ceiling before they are sent
+	const modelConfig = getModelConfig(providerName, modelName);
+	await checkLLMBudget(estimateRequestCostUSD(modelConfig, finalParams));
+
+	// Make the API request
+	signal?.throwIfAborted();
+	const streaming = onDelta !== undefined && streamingProviders.includes(providerName);
+	const result = streaming
+		? await streamCompletion(providerName, finalParams, onDelta, apiKey, signal)
+		: await createCompletion(providerName, finalParams, apiKey, signal);
+	if (onDelta && !streaming) onDelta(getResponseText(result));
+
+	// Process response for OpenRouter compatibility if needed
+	return {
+		response: providerName === 'openrouter' ? processOpenRouterResponse(result) : result,
+		modelConfig
+	};
+}
+
 /**
  * Core API call function that works with both OpenAI and OpenRouter
+ *
+ * Responses are cached when a cache backend is configured (LLM_CACHE). A cache
+ * hit returns the stored response without calling the provider and reports a
+ * cost of zero; the avoided cost is returned in cache.savedCostUSD.
+ *
+ * Every call, including cache hits, is recorded in the spend ledger when one is
+ * configured (LLM_LEDGER), with the route and company from caller. Requests are
+ * checked against the budget ceilings before they are sent and rejected with an
+ * LLMBudgetError (status 402 or 429) when they would exceed one.
+ *
+ * Transient provider errors are retried with backoff, and failing providers
+ * fall back to LLM_FALLBACK_PROVIDERS (see llmResilience.ts). The provider that
+ * served the response and every attempt are returned in provider.
+ *
+ * With onDelta, the direct and local providers stream the response and report
+ * each new piece of tool-call arguments or content as it arrives. Other
+ * providers and cache hits report the whole text as a single delta. The
+ * returned response is the same in both cases. Aborting signal cancels the
+ * provider request. A streamed response that fails after text was delivered
+ * is not retried, since the text would be delivered twice.
  */
 export async function callOpenAI(
 	params: {
@@ -250,14 +628,20 @@ export async function callOpenAI(
 		max_tokens?: number;
 	},
 	options: {
-		provider?: string; // 'direct' or 'openrouter'
+		provider?: string; // 'direct', 'openrouter', 'anthropic', 'local' or 'mock'
 		apiKey?: string;
 		debug?: boolean;
 		max_tokens?: number;
+		cache?: LLMCacheMode; // 'default', 'bypass' or 'refresh'
+		signal?: AbortSignal; // Cancels the provider request
+		onDelta?: (chunk: string) => void; // Streams tool-call arguments or content
+		caller?: LLMCaller; // Route and company recorded in the spend ledger
 	} = {}
 ): Promise<{
 	response: ChatCompletion;
 	cost: { totalTokens: number; costUSD: number };
+	provider: LLMProviderInfo;
+	cache: LLMCacheInfo;
 }> {
 	const {
 		provider = typeof process !== 'undefined' && process.env?.LLM_PROVIDER
@@ -265,87 +649,112 @@ export async function callOpenAI(
 			: 'direct',
 		apiKey,
 		debug = typeof process !== 'undefined' && process.env?.DEBUG === 'true',
-		max_tokens = 4000
+		max_tokens = 4000,
+		cache = 'default',
+		signal,
+		onDelta,
+		caller = {}
 	} = options;
 
 	// Validate the provider is one we support
-	const validProvider = Object.keys(providers).includes(provider) ? provider : 'direct';
+	const validProvider = (
+		Object.keys(providers).includes(provider) ? provider : 'direct'
+	) as ProviderName;
 
 	try {
-		// Create client for specified provider
-		const client = getClient(validProvider, apiKey);
-
 		// Get default model if not provided
 		const defaultModel =
 			typeof process !== 'undefined' && process.env?.LLM_MODEL
 				? process.env.LLM_MODEL
 				: 'chatgpt-4o-latest';
 		const modelName = params.model || defaultModel;
+		const ledgerBackend = getLLMLedgerBackend();
+		const ledgerCaller = { route: caller.route ?? null, company: caller.company ?? null };
 
-		// Create a working copy of params
-		let requestParams = { ...params };
-
-		// Apply provider-specific transformations
-		let finalModel = modelName;
-		if (validProvider === 'openrouter') {
-			finalModel = formatModelNameForOpenRouter(modelName);
-
-			// Create a params object with a defined model for OpenRouter
-			const openRouterParams = {
-				...requestParams,
-				model: finalModel
-			};
+		// Serve from cache before creating a client, so hits work without an API key
+		const cacheBackend = cache === 'bypass' ? null : getLLMCacheBackend();
+		const cacheKey = cacheBackend
+			? await createLLMCacheKey({
+					provider: validProvider,
+					model: modelName,
+					messages: params.messages,
+					tools: params.tools,
+					tool_choice: params.tool_choice,
+					response_format: params.response_format,
+					temperature: params.temperature,
+					max_tokens: params.max_tokens || max_tokens
+				})
+			: null;
 
-			// Apply OpenRouter-specific transformations
-			requestParams = prepareOpenRouterRequest(openRouterParams);
+		if (cacheBackend && cacheKey && cache === 'default') {
+			const cached = await readLLMCache(cacheBackend, cacheKey);
+			if (cached) {
+				debugLog(`Cache hit (${cacheBackend.name}) for model ${modelName}`, undefined, debug);
+				if (ledgerBackend) {
+					await recordLLMSpend(ledgerBackend, {
+						model: modelName,
+						provider: cached.provider,
+						inputTokens: 0,
+						outputTokens: 0,
+						totalTokens: 0,
+						costUSD: 0,
+						cacheStatus: 'hit',
+						...ledgerCaller
+					});
+				}
+				onDelta?.(getResponseText(cached.response));
+				return {
+					response: cached.response,
+					cost: { totalTokens: 0, costUSD: 0 },
+					provider: {
+						requested: validProvider,
+						used: cached.provider,
+						fallback: cached.provider !== validProvider,
+						attempts: []
+					},
+					cache: {
+						status: 'hit',
+						backend: cacheBackend.name,
+						key: cacheKey,
+						createdAt: cached.createdAt,
+						savedCostUSD: cached.cost.costUSD
+					}
+				};
+			}
 		}
 
-		// Prepare final parameters
-		const finalParams: ChatCompletionCreateParams = {
-			model: finalModel,
-			messages: requestParams.messages,
-			...(requestParams.tools && { tools: requestParams.tools }),
-			...(requestParams.tool_choice && { tool_choice: requestParams.tool_choice }),
-			...(requestParams.temperature && { temperature: requestParams.temperature }),
-			max_tokens: requestParams.max_tokens || max_tokens,
-			response_format: requestParams.response_format || { type: 'json_object' },
-			stream: false
-		};
-
-		// Log request in debug mode
-		debugLog(
-			`Calling ${validProvider} API with model ${finalModel}`,
-			{
-				...finalParams,
-				messages: finalParams.messages.map((m) => ({
-					role: m.role,
-					content:
-						typeof m.content === 'string'
-							? `${m.content.substring(0, 100)}${m.content.length > 100 ? '...' : ''}`
-							: m.content
-				}))
-			},
-			debug
+		// Try the requested provider, then the fallback providers (see llmResilience.ts)
+		let delivered = false;
+		const deliver =
+			onDelta &&
+			((chunk: string) => {
+				delivered = true;
+				onDelta(chunk);
+			});
+		const { result: completion, provider: providerInfo } = await withLLMResilience(
+			getLLMProviderChain(validProvider, isProviderName),
+			(providerName) =>
+				sendCompletion(providerName as ProviderName, modelName, params, {
+					max_tokens,
+					// An explicit key belongs to the requested provider
+					apiKey: providerName === validProvider ? apiKey : undefined,
+					debug,
+					signal,
+					onDelta: deliver,
+					schemaInMessages: validProvider === 'openrouter'
+				}),
+			{ signal, canRetry: () => !delivered }
 		);
-
-		// Make the API request
-		const result = await client.chat.completions.create(finalParams);
-
-		// Process response for OpenRouter compatibility if needed
-		const processedResponse =
-			validProvider === 'openrouter' ? processOpenRouterResponse(result) : result;
+		const { response: processedResponse, modelConfig } = completion;
+		const usedProvider = providerInfo.used;
 
 		// Calculate cost based on model information
-		const modelConfig = llmModels[modelName] || defaultModelConfig;
 		const usage = processedResponse.usage;
 		const totalTokens = usage?.total_tokens || 0;
 		const inputTokens = usage?.prompt_tokens || 0;
 		const outputTokens = usage?.completion_tokens || 0;
-
-		const costUSD =
-			inputTokens * (modelConfig.input_cost_per_token || defaultModelConfig.input_cost_per_token) +
-			outputTokens *
-				(modelConfig.output_cost_per_token || defaultModelConfig.output_cost_per_token);
+		const costUSD = calculateCostUSD(modelConfig, inputTokens, outputTokens);
+		const cacheStatus = getCacheMissStatus(cache, cacheBackend !== null);
 
 		// Log response and cost
 		debugLog(
@@ -354,9 +763,42 @@ export async function callOpenAI(
 			debug
 		);
 
+		// Record the spend; failed writes are logged and ignored
+		if (ledgerBackend) {
+			await recordLLMSpend(ledgerBackend, {
+				model: modelName,
+				provider: usedProvider,
+				inputTokens,
+				outputTokens,
+				totalTokens,
+				costUSD,
+				cacheStatus,
+				...ledgerCaller
+			});
+		}
+
+		// Store the response; failed writes are logged and ignored
+		if (cacheBackend && cacheKey) {
+			await writeLLMCache(cacheBackend, {
+				key: cacheKey,
+				model: modelName,
+				provider: usedProvider,
+				response: processedResponse,
+				cost: { totalTokens, costUSD }
+			});
+		}
+
 		return {
 			response: processedResponse,
-			cost: { totalTokens, costUSD }
+			cost: { totalTokens, costUSD },
+			provider: providerInfo,
+			cache: {
+				status: cacheStatus,
+				backend: cacheBackend?.name ?? null,
+				key: cacheKey,
+				createdAt: null,
+				savedCostUSD: 0
+			}
 		};
 	} catch (error: unknown) {
 		// Basic error handling
@@ -379,7 +821,7 @@ export async function callOpenAI(
  * @param schema Schema to inject
  * @returns Enhanced messages with schema
  */
-function enhanceMessageWithSchema(
+export function enhanceMessageWithSchema(
 	messages: ChatCompletionMessageParam[],
 	schema: Record<string, unknown>
 ): ChatCompletionMessageParam[] {
@@ -407,16 +849,26 @@ function enhanceMessageWithSchema(
 
 /**
  * Function to call OpenAI with a JSON schema for structured responses
+ *
+ * With responseSchema (the Zod schema the parameters were generated from), the
+ * response is validated with safeParse and the parsed data is returned. With
+ * strict, the tool is sent in OpenAI strict mode and nulls for omitted optional
+ * fields are removed first. A response that fails validation is returned as
+ * parsed from the LLM, with the issues logged, so the repair step can fix it.
  */
 export async function callOpenAIWithSchema<T>({
 	messages,
 	schema,
 	functionName,
+	responseSchema,
+	strict = false,
 	options = {}
 }: {
 	messages: ChatCompletionMessageParam[];
 	schema: Record<string, unknown>;
 	functionName: string;
+	responseSchema?: ZodTypeAny;
+	strict?: boolean;
 	options?: {
 		model?: string;
 		provider?: string;
@@ -425,10 +877,16 @@ export async function callOpenAIWithSchema<T>({
 		debug?: boolean;
 		skipValidation?: boolean;
 		validateFn?: (data: unknown) => { isValid: boolean; errors?: string[] };
+		cache?: LLMCacheMode;
+		signal?: AbortSignal;
+		onDelta?: (chunk: string) => void;
+		caller?: LLMCaller;
 	};
 }): Promise<{
 	data: T;
 	cost: { totalTokens: number; costUSD: number };
+	provider: LLMProviderInfo;
+	cache: LLMCacheInfo;
 }> {
 	const {
 		model = typeof process !== 'undefined' && process.env?.LLM_MODEL
@@ -441,7 +899,11 @@ export async function callOpenAIWithSchema<T>({
 		temperature = 0,
 		debug = typeof process !== 'undefined' && process.env?.DEBUG === 'true',
 		skipValidation = false,
-		validateFn
+		validateFn,
+		cache,
+		signal,
+		onDelta,
+		caller
 	} = options;
 
 	// Validate the provider is one we support
@@ -454,7 +916,8 @@ export async function callOpenAIWithSchema<T>({
 			function: {
 				name: functionName,
 				description: `Generate structured data for ${functionName}`,
-				parameters: schema
+				parameters: schema,
+				...(strict && { strict })
 			}
 		};
 
@@ -480,14 +943,42 @@ export async function callOpenAIWithSchema<T>({
 		};
 
 		// Make the API call
-		const { response, cost } = await callOpenAI(extendedParams, {
+		const {
+			response,
+			cost,
+			provider: providerInfo,
+			cache: cacheInfo
+		} = await callOpenAI(extendedParams, {
 			provider: validProvider,
 			apiKey,
-			debug
+			debug,
+			cache,
+			signal,
+			onDelta,
+			caller
 		});
 
 		// Extract JSON from response
-		const parsedData = extractJSONFromLLMResponse(response, debug);
+		let parsedData = extractJSONFromLLMResponse(response, debug);
+
+		// Strict mode sends null for omitted optional fields
+		if (responseSchema && strict && parsedData) {
+			parsedData = stripOmittedNulls(responseSchema, parsedData);
+		}
+
+		// Validate with the Zod schema the tool parameters were generated from
+		if (responseSchema && !skipValidation && parsedData) {
+			const result = responseSchema.safeParse(parsedData);
+			if (result.success) {
+				parsedData = result.data;
+			} else {
+				debugLog(
+					`Schema validation issues in ${functionName}: ${formatZodIssues(result.error).join(', ')}`,
+					undefined,
+					debug
+				);
+			}
+		}
 
 		// Apply validation if needed
 		if (validateFn && !skipValidation && parsedData) {
@@ -501,7 +992,7 @@ export async function callOpenAIWithSchema<T>({
 			}
 		}
 
-		return { data: parsedData as T, cost };
+		return { data: parsedData as T, cost, provider: providerInfo, cache: cacheInfo };
 	} catch (error) {
 		console.error(`Error in callOpenAIWithSchema:`, error);
 		throw error;
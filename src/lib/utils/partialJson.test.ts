@@ -0,0 +1,38 @@
+import { describe, test, expect } from 'vitest';
+import { parsePartialJSON } from './partialJson';
+
+const document = JSON.stringify({
+	entity: {
+		name_brand: 'Stripe',
+		products: [
+			{ name_brand: 'Payments', competitors: [{ name_brand: 'Adyen' }, { name_brand: 'PayPal' }] },
+			{ name_brand: 'Billing', active: true, share: 12.5 }
+		]
+	}
+});
+
+describe('parsePartialJSON', () => {
+	test('parses every prefix of a document without throwing', () => {
+		for (let length = 0; length <= document.length; length++) {
+			expect(() => parsePartialJSON(document.slice(0, length))).not.toThrow();
+		}
+		expect(parsePartialJSON(document)).toEqual(JSON.parse(document));
+	});
+
+	test('closes open strings and containers and drops incomplete members', () => {
+		expect(parsePartialJSON('{"entity": {"name_brand": "Str')).toEqual({
+			entity: { name_brand: 'Str' }
+		});
+		expect(parsePartialJSON('{"products": [{"name_brand": "Payments"}, {"name_')).toEqual({
+			products: [{ name_brand: 'Payments' }, {}]
+		});
+		expect(parsePartialJSON('{"a": 1, "b": tr')).toEqual({ a: 1 });
+		expect(parsePartialJSON('{"a": "line\\')).toEqual({ a: 'line' });
+		expect(parsePartialJSON('```json\n[1, 2')).toEqual([1, 2]);
+	});
+
+	test('returns undefined before an object or array starts', () => {
+		expect(parsePartialJSON('')).toBeUndefined();
+		expect(parsePartialJSON('Here is the analysis')).toBeUndefined();
+	});
+});
@@ -0,0 +1,123 @@
+/**
+ * partialJson.ts
+ * Tolerant parser for incomplete JSON from streamed LLM responses
+ *
+ * Streamed tool-call arguments are only valid JSON once the last chunk has
+ * arrived. This parser returns the largest complete prefix of the document so
+ * the UI can render products and competitors while the response is still
+ * being generated:
+ * - open strings are closed, so names appear as they are typed
+ * - dangling keys, colons, commas and partial literals are dropped
+ * - open objects and arrays are closed
+ *
+ * Browser-safe; no dependencies.
+ *
+ * @link src/lib/utils/analysisStream.ts - Streaming events that carry the chunks
+ * @link src/routes/newcompanylookup/+page.svelte - Incremental rendering
+ */
+
+/**
+ * A position where the text can be cut and still form valid JSON once the
+ * open containers are closed
+ */
+interface CutPoint {
+	index: number;
+	closers: string;
+}
+
+/**
+ * Get the closing brackets for a stack of open containers
+ */
+function getClosers(stack: string[]): string {
+	return stack
+		.map((open) => (open === '{' ? '}' : ']'))
+		.reverse()
+		.join('');
+}
+
+/**
+ * Parse JSON, returning undefined instead of throwing
+ */
+function tryParse(text: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Parse a possibly incomplete JSON document
+ *
+ * Text before the first { or [ (such as a markdown code fence) is ignored.
+ * Numbers at the very end may still be growing (12 may become 1200).
+ *
+ * @param text JSON text received so far
+ * @returns The parsed value of the largest complete prefix, or undefined if
+ *   no object or array has started yet
+ */
+export function parsePartialJSON(text: string): unknown {
+	const start = text.search(/[{[]/);
+	if (start < 0) return undefined;
+	const input = text.slice(start);
+
+	const stack: string[] = [];
+	const cutPoints: CutPoint[] = [];
+	let inString = false;
+	let escaped = false;
+
+	for (let index = 0; index < input.length; index++) {
+		const char = input[index];
+
+		if (inString) {
+			if (escaped) {
+				escaped = false;
+			} else if (char === '\\') {
+				escaped = true;
+			} else if (char === '"') {
+				inString = false;
+				cutPoints.push({ index: index + 1, closers: getClosers(stack) });
+			}
+			continue;
+		}
+
+		switch (char) {
+			case '"':
+				inString = true;
+				break;
+			case '{':
+			case '[':
+				stack.push(char);
+				cutPoints.push({ index: index + 1, closers: getClosers(stack) });
+				break;
+			case '}':
+			case ']':
+				stack.pop();
+				cutPoints.push({ index: index + 1, closers: getClosers(stack) });
+				if (stack.length === 0) return tryParse(input.slice(0, index + 1));
+				break;
+			case ',':
+				cutPoints.push({ index, closers: getClosers(stack) });
+				break;
+		}
+	}
+
+	// First try the whole text: an open string is closed, a trailing number or literal kept
+	let tail = input;
+	if (inString) {
+		// Drop an incomplete escape sequence before closing the string
+		tail = escaped ? input.slice(0, -1) : input.replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+		tail += '"';
+	}
+	const whole = tryParse(tail + getClosers(stack));
+	if (whole !== undefined) return whole;
+
+	// Otherwise fall back to the latest cut that parses (a cut after a key does not)
+	for (let i = cutPoints.length - 1; i >= 0; i--) {
+		const { index, closers } = cutPoints[i];
+		const value = tryParse(input.slice(0, index) + closers);
+		if (value !== undefined) return value;
+	}
+
+	return undefined;
+}
@@ -0,0 +1,37 @@
+import { describe, test, expect } from 'vitest';
+import { canonicalizeUrl } from './urlCanonical.server';
+
+describe('canonicalizeUrl', () => {
+	test('treats scheme, www, trailing slash, query and fragment variants as equal', () => {
+		const variants = [
+			'https://www.stripe.com/',
+			'stripe.com',
+			'HTTP://Stripe.com?ref=x',
+			'http://stripe.com/#top'
+		];
+		for (const variant of variants) {
+			expect(canonicalizeUrl(variant)?.url).toBe('stripe.com');
+		}
+	});
+
+	test('keeps the path and extracts the registrable domain', () => {
+		expect(canonicalizeUrl('https://dashboard.stripe.co.uk/login/')).toMatchObject({
+			url: 'dashboard.stripe.co.uk/login',
+			host: 'dashboard.stripe.co.uk',
+			domain: 'stripe.co.uk',
+			path: '/login'
+		});
+	});
+
+	test('converts internationalized domains to punycode and keeps the Unicode form', () => {
+		expect(canonicalizeUrl('https://www.münchen.de')).toMatchObject({
+			host: 'xn--mnchen-3ya.de',
+			unicodeHost: 'münchen.de'
+		});
+	});
+
+	test('rejects empty and non-http input', () => {
+		expect(canonicalizeUrl('')).toBeNull();
+		expect(canonicalizeUrl('ftp://example.com')).toBeNull();
+	});
+});
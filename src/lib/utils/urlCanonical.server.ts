@@ -0,0 +1,92 @@
+/**
+ * SERVER-SIDE URL CANONICALIZATION
+ *
+ * Normalizes user-supplied URLs so that variants of the same address
+ * (`https://www.stripe.com/`, `stripe.com`, `HTTP://Stripe.com?ref=x`) compare equal,
+ * and extracts the host and registrable domain used for looser matching.
+ *
+ * Canonical form: lower-case ASCII (punycode) host without a leading "www." and
+ * without a port, followed by the path without trailing slashes. Scheme, query
+ * string and fragment are dropped.
+ *
+ * The .server.ts extension is used because this file needs to be imported outside the server directory.
+ *
+ * Related modules:
+ * @link src/lib/server/db/queries/url.ts - SQL-side equivalent used for lookups
+ * @link src/routes/api/rest/v1/research/url/+server.ts - URL lookup endpoint
+ */
+
+import { domainToUnicode } from 'node:url';
+import { getDomain } from 'tldts';
+
+/**
+ * URL matching modes, from strictest to loosest
+ */
+export const urlMatchModes = ['exact', 'host', 'domain'] as const;
+export type UrlMatchMode = (typeof urlMatchModes)[number];
+
+/**
+ * Canonical representation of a URL
+ */
+export interface CanonicalUrl {
+	// Host and path, e.g. "stripe.com/en"
+	url: string;
+	// ASCII host without "www.", e.g. "dashboard.stripe.com"
+	host: string;
+	// Registrable domain (eTLD+1), e.g. "stripe.com"; the host itself for IPs and localhost
+	domain: string;
+	// Unicode forms of host and domain for internationalized domain names
+	unicodeHost: string;
+	unicodeDomain: string;
+	// Path without trailing slashes; empty string for the root
+	path: string;
+}
+
+/**
+ * Strip a leading "www." (or "www2." etc.) label
+ */
+function stripWww(host: string): string {
+	return host.replace(/^www\d*\./, '');
+}
+
+/**
+ * Canonicalize a URL or bare domain
+ *
+ * @param input URL as typed or captured by a client, with or without scheme
+ * @returns Canonical URL parts, or null if the input is not a usable http(s) URL
+ *
+ * @example
+ * canonicalizeUrl('https://www.Stripe.com/en/?ref=x')
+ * // { url: 'stripe.com/en', host: 'stripe.com', domain: 'stripe.com', path: '/en', ... }
+ */
+export function canonicalizeUrl(input: string): CanonicalUrl | null {
+	const trimmed = input.trim();
+	if (!trimmed) return null;
+
+	const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+
+	let parsed: URL;
+	try {
+		parsed = new URL(withScheme);
+	} catch {
+		return null;
+	}
+
+	if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+	// URL already lower-cases the hostname and converts IDNs to punycode
+	const host = stripWww(parsed.hostname.replace(/\.$/, ''));
+	if (!host) return null;
+
+	const domain = getDomain(host, { allowPrivateDomains: false }) ?? host;
+	const path = parsed.pathname.replace(/\/+$/, '');
+
+	return {
+		url: `${host}${path}`,
+		host,
+		domain,
+		unicodeHost: domainToUnicode(host) || host,
+		unicodeDomain: domainToUnicode(domain) || domain,
+		path
+	};
+}
@@ -10,23 +10,29 @@
  * Request format:
  * GET /api/rest/v1/company/competitive-analysis?name={companyName}&param2={value}
  *
+ * A server-sent events variant with the same parameters streams progress and
+ * partial results: GET /api/rest/v1/company/competitive-analysis/stream
+ *
  * @link src/lib/server/db/research/schema/index.ts - Central schema definitions
  * @link data-tools/sharedUtils/dataProcessing.ts - Data validation, repair and transformation functions
  * @link data-tools/openai.ts - LLM processing functions - Single source of truth for OpenAI processing
+ * @link src/routes/api/rest/v1/research/sharedObjects/entityResolution.ts - Product and competitor resolution
+ * @link src/routes/api/rest/v1/company/competitive-analysis/stream/+server.ts - Streaming variant
+ * @link src/routes/api/rest/v1/company/competitive-analysis/analysisParams.ts - Parameter parsing and validation
  */
 
 import type { RequestEvent } from '@sveltejs/kit';
 import { apiHandler, errorResponse, successResponse } from '$lib/server/api/utils';
 import { processCompanyAnalysis } from '$data-tools/openai';
 import type { AnalysisData } from '$lib/schemas/research';
+import { resolveAnalysisEntities } from '../../research/sharedObjects/entityResolution';
+import { buildAnalysisContext } from '../../research/sharedObjects/analysisContext';
 import {
 	convertLiteralNewlines as convertNewlines,
 	customStringify as stringifyWithNewlines
 } from '$lib/utils/prettifyJson.js';
-import {
-	type OpenAIErrorDetails,
-	type OpenAIError as OpenAIAPIError
-} from '$lib/utils/openaiApi.js';
+import { toAnalysisError } from './analysisErrors';
+import { parseAnalysisParams } from './analysisParams';
 
 /**
  * Main API handler for competitive analysis requests
@@ -44,47 +50,77 @@ import {
  *   - transformedOpenAI: Default, fully processed for UI
  * @param {string} validation - Optional - 'on' (default) or 'off'
  * @param {string} debug - Optional - 'on' or 'off' (default)
- * @param {string} approach - Optional - 'single' (default) or 'multi' step
+ * @param {string} approach - Optional - 'single' (default), 'multi' step (basic info, one call
+ *   per product, then company metrics; per-call cost in _meta.steps) or 'consensus' (single-step
+ *   analysis by each model in LLM_CONSENSUS_MODELS; products and competitors are merged by name
+ *   with the proposing models and agreement in `consensus`, data_confidence is derived from the
+ *   agreement, and per-model cost is in _meta.steps)
+ * @param {string} resolve - Optional - 'on' (default) or 'off'; links repaired and transformed
+ *   products and competitors to existing res_entity records (id, slug, resolution)
+ * @param {string} context - Optional - 'on' (default) or 'off'; when the name resolves to a
+ *   res_entity company, adds its text, details, URLs and type tags to the prompts (sources
+ *   reported in _meta.context)
+ * @param {string} cache - Optional - LLM response cache mode (status reported in _meta.cache):
+ *   - default: Serve cached responses within LLM_CACHE_TTL_SECONDS
+ *   - bypass: Neither read nor write the cache
+ *   - refresh: Call the provider and overwrite the cached response
+ * @param {string} promptVersion - Optional - Prompt template version (e.g. v2) from
+ *   data-tools/prompts/templates; templates without it use their default. The versions used are
+ *   reported in _meta.prompt
  *
  * @returns {Response} JSON response with company analysis data
  */
 export async function GET(event: RequestEvent) {
 	const { url } = event;
-	const companyName = url.searchParams.get('name');
-	const sourceType = url.searchParams.get('sourceType') || 'transformedOpenAI';
-	const enableDebug = url.searchParams.get('debug') === 'on';
-	const validation = url.searchParams.get('validation') !== 'off'; // Default ON unless explicit OFF
-	const strategy = url.searchParams.get('approach') || 'single';
-
-	// Validate company name
-	if (!companyName) {
-		return errorResponse(
-			'Company name is required',
-			400,
-			undefined,
-			'/api/rest/v1/company/competitive-analysis?name=Apple',
-			event
-		);
+	const { params, error } = await parseAnalysisParams(url);
+	if (error) {
+		return errorResponse(error.error, error.status, error.details, error.example, event);
 	}
 
+	const {
+		companyName,
+		sourceType,
+		debug: enableDebug,
+		validation,
+		strategy,
+		resolve,
+		context: useContext,
+		cacheMode,
+		promptVersion
+	} = params;
+
 	console.log(
-		`[API] Request: ${companyName} (sourceType: ${sourceType}, debug: ${enableDebug ? 'on' : 'off'}, validation: ${validation ? 'on' : 'off'}, strategy: ${strategy})`
+		`[API] Request: ${companyName} (sourceType: ${sourceType}, debug: ${enableDebug ? 'on' : 'off'}, validation: ${validation ? 'on' : 'off'}, strategy: ${strategy}, cache: ${cacheMode}, context: ${useContext ? 'on' : 'off'}, promptVersion: ${promptVersion ?? 'default'})`
 	);
 
 	// Standard handler using centralized processing
 	return apiHandler(async () => {
 		try {
+			// Ground the prompts in what we already know about the company
+			const context = useContext
+				? await buildAnalysisContext(companyName, { provider: process.env.LLM_PROVIDER })
+				: null;
+
 			// Common options for all paths - pass through to the centralized processCompanyAnalysis
 			const options = {
 				debug: enableDebug,
 				skipValidation: !validation,
 				provider: process.env.LLM_PROVIDER,
 				sourceType, // Pass this through to centralized function
-				strategy: strategy as 'single' | 'multi'
+				strategy,
+				cache: cacheMode,
+				context,
+				route: url.pathname,
+				promptVersion
 			};
 
 			// Call the centralized company analysis function which handles all source types
-			const analysisData = await processCompanyAnalysis(companyName, options);
+			let analysisData = await processCompanyAnalysis(companyName, options);
+
+			// Link generated products and competitors to existing entities once the data is repaired
+			if (resolve && (sourceType === 'repairedOpenAI' || sourceType === 'transformedOpenAI')) {
+				analysisData = await resolveAnalysisEntities(analysisData);
+			}
 
 			// Log cost info
 			if (analysisData._meta?.cost) {
@@ -113,33 +149,8 @@ export async function GET(event: RequestEvent) {
 function handleApiError(error: unknown, companyName: string, event: RequestEvent) {
 	console.error(`[API] Error analyzing ${companyName}:`, error);
 
-	// Standard error response logic
-	const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-	const isValidationError = errorMessage.includes('Invalid analysis data');
-
-	// OpenAI error detection
-	const openaiError = error as Partial<OpenAIAPIError>;
-	if (
-		openaiError.status === 429 ||
-		openaiError.code === 'insufficient_quota' ||
-		(openaiError.error as OpenAIErrorDetails)?.type === 'insufficient_quota'
-	) {
-		return errorResponse(
-			'OpenAI API quota exceeded',
-			429,
-			'API quota limit reached. Please check billing details or try again later.',
-			undefined,
-			event
-		);
-	}
-
-	return errorResponse(
-		isValidationError ? 'Validation failed' : 'Failed to analyze company',
-		isValidationError ? 400 : 500,
-		errorMessage,
-		undefined,
-		event
-	);
+	const { error: message, status, details } = toAnalysisError(error);
+	return errorResponse(message, status, details, undefined, event);
 }
 
 /**
@@ -0,0 +1,74 @@
+/**
+ * Competitive Analysis Error Mapping
+ *
+ * Maps errors from the LLM pipeline to an API error message, status and
+ * details. Shared by the JSON endpoint, which returns them with errorResponse,
+ * and the streaming endpoint, which sends them as an error event.
+ *
+ * @link src/routes/api/rest/v1/company/competitive-analysis/+server.ts - JSON endpoint
+ * @link src/routes/api/rest/v1/company/competitive-analysis/stream/+server.ts - Streaming endpoint
+ */
+
+import type { OpenAIErrorDetails, OpenAIError as OpenAIAPIError } from '$lib/utils/openaiApi.js';
+import { LLMBudgetError } from '$lib/utils/llmLedger';
+import { LLMProvidersUnavailableError } from '$lib/utils/llmResilience';
+
+/**
+ * API error derived from a pipeline error
+ */
+export interface AnalysisError {
+	error: string;
+	status: number;
+	details: string;
+}
+
+/**
+ * Map a pipeline error to an API error
+ * - Budget ceilings keep their status: 402 per request, 429 daily or monthly
+ * - Open circuits on every provider become 503
+ * - Provider quota and rate limit errors become 429
+ * - Validation failures become 400, anything else 500
+ */
+export function toAnalysisError(error: unknown): AnalysisError {
+	if (error instanceof LLMBudgetError) {
+		return {
+			error: 'LLM budget exceeded',
+			status: error.status,
+			details:
+				error.retryAfterSeconds === null
+					? error.message
+					: `${error.message}. The budget resets in ${Math.ceil(error.retryAfterSeconds / 60)} minutes.`
+		};
+	}
+
+	if (error instanceof LLMProvidersUnavailableError) {
+		return {
+			error: 'LLM providers unavailable',
+			status: error.status,
+			details: `${error.message}. Try again in ${error.retryAfterSeconds} seconds.`
+		};
+	}
+
+	const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+	const isValidationError = errorMessage.includes('Invalid analysis data');
+
+	// OpenAI error detection
+	const openaiError = error as Partial<OpenAIAPIError>;
+	if (
+		openaiError.status === 429 ||
+		openaiError.code === 'insufficient_quota' ||
+		(openaiError.error as OpenAIErrorDetails)?.type === 'insufficient_quota'
+	) {
+		return {
+			error: 'OpenAI API quota exceeded',
+			status: 429,
+			details: 'API quota limit reached. Please check billing details or try again later.'
+		};
+	}
+
+	return {
+		error: isValidationError ? 'Validation failed' : 'Failed to analyze company',
+		status: isValidationError ? 400 : 500,
+		details: errorMessage
+	};
+}
@@ -0,0 +1,110 @@
+/**
+ * Competitive Analysis Query Parameters
+ *
+ * Parses and validates the query parameters of the competitive analysis
+ * endpoints. Shared by the JSON endpoint and the streaming endpoint so both
+ * accept and reject the same requests; invalid parameters are returned as an
+ * error for the route to send with errorResponse.
+ *
+ * @link src/routes/api/rest/v1/company/competitive-analysis/+server.ts - JSON endpoint and parameter docs
+ * @link src/routes/api/rest/v1/company/competitive-analysis/stream/+server.ts - Streaming endpoint
+ */
+
+import { llmCacheModes, type LLMCacheMode } from '$lib/utils/llmCache';
+import { analysisPromptNames, hasPromptVersion } from '$data-tools/prompts/promptRegistry';
+import { getConsensusModels, minConsensusModels } from '$data-tools/sharedUtils/consensus';
+import type { AnalysisError } from './analysisErrors';
+
+/**
+ * Validated parameters of an analysis request
+ */
+export interface AnalysisParams {
+	companyName: string;
+	sourceType: string;
+	debug: boolean;
+	validation: boolean;
+	strategy: 'single' | 'multi' | 'consensus';
+	resolve: boolean;
+	context: boolean;
+	cacheMode: LLMCacheMode;
+	promptVersion: string | undefined;
+}
+
+/**
+ * Rejected parameter, with an example request that would be accepted
+ */
+export interface AnalysisParamsError extends AnalysisError {
+	example: string;
+}
+
+/**
+ * Parse and validate the query parameters of an analysis request
+ *
+ * Rejects a missing name, an unknown cache mode, the consensus approach
+ * without enough LLM_CONSENSUS_MODELS and a prompt version no template of the
+ * approach has.
+ *
+ * @param url Request URL; its path is used in the examples of errors
+ * @returns The parameters, or the error to respond with
+ */
+export async function parseAnalysisParams(
+	url: URL
+): Promise<{ params: AnalysisParams; error: null } | { params: null; error: AnalysisParamsError }> {
+	const { searchParams, pathname } = url;
+	const companyName = searchParams.get('name');
+	const strategy = searchParams.get('approach') || 'single';
+	const cacheMode = searchParams.get('cache') || 'default';
+	const promptVersion = searchParams.get('promptVersion') || undefined;
+
+	const reject = (error: string, details: string, example: string) => ({
+		params: null,
+		error: { error, status: 400, details, example: `${pathname}?${example}` }
+	});
+
+	if (!companyName) {
+		return reject('Company name is required', 'Pass the company to analyze as name', 'name=Apple');
+	}
+
+	const name = `name=${encodeURIComponent(companyName)}`;
+
+	if (!llmCacheModes.includes(cacheMode as LLMCacheMode)) {
+		return reject(
+			`Invalid cache mode "${cacheMode}"`,
+			`Use one of: ${llmCacheModes.join(', ')}`,
+			`${name}&cache=refresh`
+		);
+	}
+
+	if (strategy === 'consensus' && getConsensusModels().length < minConsensusModels) {
+		return reject(
+			'Consensus approach is not configured',
+			`Set LLM_CONSENSUS_MODELS to at least ${minConsensusModels} comma-separated models`,
+			`${name}&approach=single`
+		);
+	}
+
+	const promptNames = analysisPromptNames[strategy === 'multi' ? 'multi' : 'single'];
+	if (promptVersion && !(await hasPromptVersion(promptNames, promptVersion))) {
+		return reject(
+			`Unknown prompt version "${promptVersion}"`,
+			`No template of the ${strategy} approach has this version (${promptNames.join(', ')} in data-tools/prompts/templates)`,
+			`${name}&promptVersion=v1`
+		);
+	}
+
+	return {
+		params: {
+			companyName,
+			sourceType: searchParams.get('sourceType') || 'transformedOpenAI',
+			debug: searchParams.get('debug') === 'on',
+			// Default ON unless explicit OFF
+			validation: searchParams.get('validation') !== 'off',
+			strategy: strategy as AnalysisParams['strategy'],
+			resolve: searchParams.get('resolve') !== 'off',
+			context: searchParams.get('context') !== 'off',
+			cacheMode: cacheMode as LLMCacheMode,
+			promptVersion
+		},
+		error: null
+	};
+}
@@ -0,0 +1,283 @@
+/**
+ * Competitive Analysis Commit Endpoint
+ *
+ * Persists the company-level details of an LLM competitive analysis to
+ * research.res_entity_detail. This is the only write path in the API and is
+ * opt-in: it is disabled unless ANALYSIS_COMMIT_ENABLED=true.
+ *
+ * Request format:
+ * POST /api/rest/v1/company/competitive-analysis/commit
+ *
+ * @link src/lib/server/db/queries/entity_detail_write.ts - Upsert queries
+ * @link data-tools/sharedUtils/dataProcessing.ts - mapAnalysisToEntityDetails
+ * @link src/routes/api/rest/v1/company/competitive-analysis/+server.ts - Analysis endpoint
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import { z } from 'zod';
+import { apiHandler, errorResponse, isValidUuid, successResponse } from '$lib/server/api/utils';
+import db from '$lib/server/db';
+import { entityQueries } from '$lib/database/sql.server';
+import type {
+	AnalysisProvenance,
+	EntityDetailWriteRecord
+} from '$lib/server/db/queries/entity_detail_write';
+import {
+	dataConfidenceEnum,
+	sourceTypeEnum,
+	typeResearchDetailEnum,
+	type AnalysisData,
+	type Entity,
+	type EntityDetail
+} from '$lib/schemas/research';
+import { mapAnalysisToEntityDetails, validate } from '$data-tools/sharedUtils/dataProcessing';
+
+const exampleBody =
+	'{ "analysis": { "entity": { "id": null, "name_brand": "Stripe", "details": [] } }, "provenance": { "model": "chatgpt-4o-latest", "prompt_version": "v1" } }';
+
+/**
+ * Request body
+ */
+const commitRequestSchema = z.object({
+	// Analysis as returned by the competitive-analysis endpoint
+	analysis: z.record(z.unknown()),
+	// Optional explicit target; otherwise the entity is resolved by name
+	entity_id: z.string().optional(),
+	slug: z.string().optional(),
+	provenance: z
+		.object({
+			model: z.string().min(1).optional(),
+			provider: z.string().min(1).optional(),
+			prompt_version: z.string().min(1).optional(),
+			analyzed_at: z.string().datetime().optional()
+		})
+		.optional()
+		.default({})
+});
+
+/**
+ * A detail from the analysis that cannot be persisted, with the reason
+ */
+interface RejectedDetail {
+	index: number;
+	reason: string;
+}
+
+/**
+ * API endpoint to persist an analysis to res_entity_detail
+ *
+ * The analyzed company is resolved to a res_entity row by entity_id, slug, or an
+ * exact (case-insensitive) brand/legal name match. Its details are upserted on
+ * (entity_id, type_research_detail, as_of_date) in a single transaction:
+ * - rows with data_confidence = 'verified' are never overwritten
+ * - the LLM cannot claim 'verified' itself; such values are stored as 'high'
+ * - details with unknown enum values or no value are rejected, not coerced
+ * - product and competitor details are not written, since they describe other entities
+ *
+ * Provenance (creator, model, provider, prompt version, cost, tokens and
+ * timestamp) is stored as JSON in each row's notes column. The creator is the
+ * provider that served the analysis (_meta.provider.used), or the requested
+ * provider for analyses without it.
+ *
+ * @route POST /api/rest/v1/company/competitive-analysis/commit
+ * @body analysis - Analysis data ({ entity, _meta })
+ * @body entity_id - Optional UUID of the res_entity row to write to
+ * @body slug - Optional slug of the res_entity row to write to
+ * @body provenance - Optional { model, provider, prompt_version, analyzed_at }; defaults to
+ *                    LLM_MODEL / LLM_PROVIDER, 'unversioned' and the current time
+ * @returns Resolved entity, provenance and per-detail results (inserted, updated, skipped_verified)
+ *
+ * @example
+ * POST /api/rest/v1/company/competitive-analysis/commit
+ * { "slug": "stripe", "analysis": { ... }, "provenance": { "model": "chatgpt-4o-latest", "prompt_version": "v1" } }
+ */
+export const POST = apiHandler(async (event: RequestEvent) => {
+	if (process.env.ANALYSIS_COMMIT_ENABLED !== 'true') {
+		return errorResponse(
+			'Analysis commits are disabled',
+			403,
+			'Set ANALYSIS_COMMIT_ENABLED=true to allow writing analyses to the database.',
+			undefined,
+			event
+		);
+	}
+
+	let body: unknown;
+	try {
+		body = await event.request.json();
+	} catch {
+		return errorResponse('Invalid JSON body', 400, undefined, exampleBody, event);
+	}
+
+	const parsed = commitRequestSchema.safeParse(body);
+	if (!parsed.success) {
+		return errorResponse(
+			'Invalid request body',
+			400,
+			parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+			exampleBody,
+			event
+		);
+	}
+
+	const structure = validate.basicStructure(parsed.data.analysis);
+	if (!structure.isValid) {
+		return errorResponse(
+			'Invalid analysis data',
+			400,
+			structure.errors?.join('; '),
+			exampleBody,
+			event
+		);
+	}
+	const analysis = parsed.data.analysis as unknown as AnalysisData;
+
+	// Resolve the analyzed company to a res_entity row
+	let entity: Entity | null = null;
+	if (parsed.data.entity_id) {
+		if (!isValidUuid(parsed.data.entity_id)) {
+			return errorResponse('Invalid entity_id UUID format', 400, undefined, undefined, event);
+		}
+		entity = await db.entity.getById(parsed.data.entity_id);
+	} else if (parsed.data.slug) {
+		entity = await db.entity.getBySlug(parsed.data.slug);
+	} else {
+		const matches = await db.entity.getByExactName(analysis.entity.name_brand ?? '');
+		if (matches.length > 1) {
+			return errorResponse(
+				`Multiple entities named "${analysis.entity.name_brand}"`,
+				409,
+				`Pass entity_id or slug. Candidate IDs: ${matches.map((match) => match.id).join(', ')}`,
+				undefined,
+				event
+			);
+		}
+		entity = matches[0] ?? null;
+	}
+
+	if (!entity?.id) {
+		return errorResponse(
+			'Entity not found',
+			404,
+			'The analyzed company must already exist in res_entity; pass entity_id or slug to target it explicitly.',
+			undefined,
+			event
+		);
+	}
+
+	const entityId = entity.id;
+	const { accepted, rejected } = partitionDetails(analysis.entity.details ?? []);
+	const records = mapAnalysisToEntityDetails(
+		{ ...analysis, entity: { ...analysis.entity, details: accepted } },
+		entityId,
+		{ includeProducts: false }
+	).map(toWriteRecord);
+
+	const requestedProvider = parsed.data.provenance.provider || process.env.LLM_PROVIDER || null;
+	const provenance: AnalysisProvenance = {
+		// The provider that served the analysis, which differs from the requested one after a fallback
+		creator: analysis._meta?.provider?.used ?? requestedProvider ?? 'direct',
+		model: parsed.data.provenance.model || process.env.LLM_MODEL || 'unknown',
+		provider: requestedProvider,
+		promptVersion: parsed.data.provenance.prompt_version || 'unversioned',
+		costUSD: analysis._meta?.cost?.costUSD ?? null,
+		totalTokens: analysis._meta?.cost?.totalTokens ?? null,
+		analyzedAt: parsed.data.provenance.analyzed_at || new Date().toISOString()
+	};
+
+	const results =
+		records.length > 0
+			? await entityQueries.transaction((tx) =>
+					db.entityDetailWrite.upsertDetails(tx, entityId, records, provenance)
+				)
+			: [];
+
+	return successResponse(
+		{
+			entity: {
+				id: entity.id,
+				name: entity.name_brand || (entity.name_legal ?? 'Unknown'),
+				slug: entity.slug
+			},
+			provenance,
+			counts: {
+				inserted: results.filter((result) => result.status === 'inserted').length,
+				updated: results.filter((result) => result.status === 'updated').length,
+				skippedVerified: results.filter((result) => result.status === 'skipped_verified').length,
+				rejected: rejected.length,
+				productDetailsNotWritten: countProductDetails(analysis)
+			},
+			results,
+			rejected
+		},
+		event
+	);
+});
+
+/**
+ * Split entity details into ones that can be persisted and ones that cannot
+ *
+ * mapAnalysisToEntityDetails falls back to default enum values for unknown input,
+ * which is fine for display but would store mislabeled data, so invalid details
+ * are rejected here first.
+ */
+function partitionDetails(details: EntityDetail[]): {
+	accepted: EntityDetail[];
+	rejected: RejectedDetail[];
+} {
+	const accepted: EntityDetail[] = [];
+	const rejected: RejectedDetail[] = [];
+
+	details.forEach((detail, index) => {
+		if (!typeResearchDetailEnum.safeParse(detail.type_research_detail).success) {
+			rejected.push({
+				index,
+				reason: `Unknown type_research_detail "${detail.type_research_detail}"`
+			});
+		} else if (!dataConfidenceEnum.safeParse(detail.data_confidence).success) {
+			rejected.push({ index, reason: `Unknown data_confidence "${detail.data_confidence}"` });
+		} else if (!sourceTypeEnum.safeParse(detail.source_type).success) {
+			rejected.push({ index, reason: `Unknown source_type "${detail.source_type}"` });
+		} else if (detail.as_of_date && Number.isNaN(Date.parse(detail.as_of_date))) {
+			rejected.push({ index, reason: `Invalid as_of_date "${detail.as_of_date}"` });
+		} else if (typeof detail.discrete_value !== 'number' && !detail.text_value) {
+			rejected.push({ index, reason: 'No discrete_value or text_value' });
+		} else {
+			accepted.push(detail);
+		}
+	});
+
+	return { accepted, rejected };
+}
+
+/**
+ * Narrow a mapped record to the write shape, capping LLM confidence below 'verified'
+ */
+function toWriteRecord(record: Record<string, unknown>): EntityDetailWriteRecord {
+	const writeRecord = record as unknown as EntityDetailWriteRecord;
+	return {
+		type_research_detail: writeRecord.type_research_detail,
+		data_confidence:
+			writeRecord.data_confidence === 'verified' ? 'high' : writeRecord.data_confidence,
+		source_type: writeRecord.source_type,
+		as_of_date: writeRecord.as_of_date,
+		discrete_value: writeRecord.discrete_value,
+		text_value: writeRecord.text_value
+	};
+}
+
+/**
+ * Count product and competitor details, which this endpoint does not persist
+ */
+function countProductDetails(analysis: AnalysisData): number {
+	return (analysis.entity.products ?? []).reduce(
+		(total, product) =>
+			total +
+			(product.details?.length ?? 0) +
+			(product.competitors ?? []).reduce(
+				(sum, competitor) => sum + (competitor.details?.length ?? 0),
+				0
+			),
+		0
+	);
+}
@@ -0,0 +1,142 @@
+/**
+ * Company Competitive Analysis Streaming Endpoint
+ *
+ * Server-sent events variant of the competitive analysis endpoint. It runs the
+ * same pipeline but reports progress per step and streams the LLM response as
+ * it is generated, so the UI can render products and competitors before the
+ * analysis is complete.
+ *
+ * Request format:
+ * GET /api/rest/v1/company/competitive-analysis/stream?name={companyName}&param2={value}
+ *
+ * @link src/routes/api/rest/v1/company/competitive-analysis/+server.ts - JSON endpoint and parameters
+ * @link src/routes/api/rest/v1/company/competitive-analysis/analysisParams.ts - Parameter parsing and validation
+ * @link src/lib/utils/analysisStream.ts - Event names and payloads
+ * @link data-tools/openai.ts - LLM processing functions
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import { apiHandler, errorResponse } from '$lib/server/api/utils';
+import { processCompanyAnalysis } from '$data-tools/openai';
+import type { AnalysisData } from '$lib/schemas/research';
+import { resolveAnalysisEntities } from '../../../research/sharedObjects/entityResolution';
+import { buildAnalysisContext } from '../../../research/sharedObjects/analysisContext';
+import {
+	formatServerSentEvent,
+	type AnalysisStreamEventName,
+	type AnalysisStreamEvents
+} from '$lib/utils/analysisStream';
+import { toAnalysisError } from '../analysisErrors';
+import { parseAnalysisParams } from '../analysisParams';
+
+/**
+ * API endpoint streaming a competitive analysis as server-sent events
+ *
+ * Accepts the parameters of the JSON endpoint (name, sourceType, validation,
+ * debug, approach, resolve, context, cache, promptVersion). Invalid parameters are rejected with a
+ * regular JSON error before the stream starts; pipeline errors are sent as an
+ * error event. rawOpenAI results are sent as data without the debug wrapper.
+ *
+ * Events: progress, delta, result, error (see analysisStream.ts).
+ *
+ * Closing the connection aborts the in-flight LLM request.
+ *
+ * @route GET /api/rest/v1/company/competitive-analysis/stream
+ * @returns {Response} text/event-stream response
+ */
+export async function GET(event: RequestEvent) {
+	const { url } = event;
+	const { params, error } = await parseAnalysisParams(url);
+	if (error) {
+		return errorResponse(error.error, error.status, error.details, error.example, event);
+	}
+
+	const {
+		companyName,
+		sourceType,
+		debug: enableDebug,
+		validation,
+		strategy,
+		resolve,
+		context: useContext,
+		cacheMode,
+		promptVersion
+	} = params;
+
+	console.log(
+		`[API] Stream request: ${companyName} (sourceType: ${sourceType}, strategy: ${strategy}, cache: ${cacheMode}, promptVersion: ${promptVersion ?? 'default'})`
+	);
+
+	return apiHandler(async () => {
+		// Aborted when the client disconnects, which cancels the LLM request
+		const abortController = new AbortController();
+		event.request?.signal?.addEventListener('abort', () => abortController.abort(), {
+			once: true
+		});
+		const encoder = new TextEncoder();
+		let closed = false;
+
+		const stream = new ReadableStream<Uint8Array>({
+			async start(controller) {
+				const send = <E extends AnalysisStreamEventName>(
+					name: E,
+					data: AnalysisStreamEvents[E]
+				) => {
+					if (!closed) controller.enqueue(encoder.encode(formatServerSentEvent(name, data)));
+				};
+
+				try {
+					const context = useContext
+						? await buildAnalysisContext(companyName, { provider: process.env.LLM_PROVIDER })
+						: null;
+
+					let analysisData: AnalysisData = await processCompanyAnalysis(companyName, {
+						debug: enableDebug,
+						skipValidation: !validation,
+						provider: process.env.LLM_PROVIDER,
+						sourceType,
+						strategy,
+						cache: cacheMode,
+						context,
+						route: url.pathname,
+						promptVersion,
+						signal: abortController.signal,
+						onProgress: (progress) => send('progress', progress),
+						onDelta: (step, chunk) => send('delta', { step, chunk })
+					});
+
+					if (resolve && (sourceType === 'repairedOpenAI' || sourceType === 'transformedOpenAI')) {
+						analysisData = await resolveAnalysisEntities(analysisData);
+					}
+
+					send('result', analysisData);
+				} catch (error) {
+					if (abortController.signal.aborted) {
+						console.log(`[API] Stream for ${companyName} cancelled by client`);
+					} else {
+						console.error(`[API] Error streaming analysis of ${companyName}:`, error);
+						send('error', toAnalysisError(error));
+					}
+				} finally {
+					if (!closed) {
+						closed = true;
+						controller.close();
+					}
+				}
+			},
+			cancel() {
+				closed = true;
+				abortController.abort();
+			}
+		});
+
+		return new Response(stream, {
+			headers: {
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache',
+				// Disable response buffering in nginx
+				'X-Accel-Buffering': 'no'
+			}
+		});
+	})(event);
+}
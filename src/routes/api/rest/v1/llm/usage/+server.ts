@@ -0,0 +1,35 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { apiHandler, errorResponse, successResponse } from '$lib/server/api/utils';
+import { getLLMLedgerBackend, getLLMUsageSummary } from '$lib/utils/llmLedger';
+
+/**
+ * LLM spend summary from the spend ledger
+ *
+ * Reports the spend of the current UTC day and month against the configured
+ * budget ceilings (LLM_BUDGET_REQUEST_USD, LLM_BUDGET_DAILY_USD,
+ * LLM_BUDGET_MONTHLY_USD), and the month's spend by model, provider, route and
+ * company. Cache hits are counted as calls with zero cost.
+ *
+ * @route GET /api/rest/v1/llm/usage
+ * @query pretty - Set to "false" to disable pretty-formatted JSON (enabled by default)
+ * @returns Usage summary; 503 when no ledger is configured (LLM_LEDGER=off)
+ *
+ * @example
+ * GET /api/rest/v1/llm/usage
+ *
+ * @link src/lib/utils/llmLedger.ts - Ledger backends and budget ceilings
+ */
+export const GET = apiHandler(async (event: RequestEvent) => {
+	const backend = getLLMLedgerBackend();
+	if (!backend) {
+		return errorResponse(
+			'LLM spend ledger is not configured',
+			503,
+			'Set LLM_LEDGER to file or postgres to record LLM calls',
+			undefined,
+			event
+		);
+	}
+
+	return successResponse(await getLLMUsageSummary(backend), event, { 'Cache-Control': 'no-store' });
+});
@@ -0,0 +1,265 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import {
+	apiHandler,
+	decodeCursor,
+	encodeCursor,
+	errorResponse,
+	successResponse
+} from '$lib/server/api/utils';
+import db from '$lib/server/db';
+import {
+	entityListSorts,
+	type EntityListCursor,
+	type EntityListFilters,
+	type EntityListRow,
+	type EntityListSort
+} from '$lib/server/db/queries/entity';
+import { entityTypes, statusOperating } from '$lib/schemas/research';
+
+// Page size bounds match paginationParamsSchema in $lib/schemas/base/common.schema.ts
+const defaultLimit = 20;
+const maxLimit = 100;
+
+/**
+ * Company summary returned by the listing endpoint
+ */
+interface CompanyListItem extends Omit<EntityListRow, 'sort_key'> {
+	// Friendly aliases matching the single company endpoint
+	name: string;
+	logoUrl?: string | null;
+	foundedYear?: number | null;
+}
+
+/**
+ * Cursor payload; sort and direction are embedded so a cursor cannot be replayed
+ * against a differently ordered listing
+ */
+interface ListingCursor extends EntityListCursor {
+	sort: EntityListSort;
+	direction: 'asc' | 'desc';
+	[key: string]: unknown;
+}
+
+/**
+ * Parse an optional boolean query parameter
+ * @returns true/false, null when absent, or undefined when invalid
+ */
+function parseBooleanParam(value: string | null): boolean | null | undefined {
+	if (value === null || value === '') return null;
+	if (value === 'true') return true;
+	if (value === 'false') return false;
+	return undefined;
+}
+
+/**
+ * Parse an optional integer query parameter
+ * @returns the integer, null when absent, or undefined when invalid
+ */
+function parseIntegerParam(value: string | null): number | null | undefined {
+	if (value === null || value === '') return null;
+	return /^-?\d+$/.test(value) ? Number(value) : undefined;
+}
+
+/**
+ * API endpoint to list companies from the research database
+ *
+ * Supports filtering, sorting and cursor-based pagination. The cursor is an opaque
+ * token returned as `pagination.nextCursor`; pass it back as `cursor` to fetch the
+ * next page. The total number of matching rows is returned in the X-Total-Count header.
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_entity (main), res_entity_type_join, res_type_ref
+ * @link src/lib/server/db/queries/entity.ts - listFiltered/countFiltered queries
+ * @link src/routes/companies/+page.svelte - Companies index page using this endpoint
+ *
+ * @route GET /api/rest/v1/research/companies
+ * @query limit - Page size (1-100, default 20)
+ * @query cursor - Opaque cursor from a previous page
+ * @query type - Entity type_record (default "Company")
+ * @query status_operating - Operating status (e.g. "Active")
+ * @query featured - "true" or "false"
+ * @query verified - "true" or "false"
+ * @query founded_min - Earliest founding year (inclusive)
+ * @query founded_max - Latest founding year (inclusive)
+ * @query tag - Type tag slug from res_type_ref
+ * @query sort - One of name, founded, updated, created (default name)
+ * @query order - "asc" or "desc" (default asc for name/founded, desc otherwise)
+ * @query pretty - Set to "false" to disable pretty-formatted JSON (enabled by default)
+ * @returns Page of companies with pagination information
+ *
+ * @example
+ * // First page of active, verified companies founded since 2010
+ * GET /api/rest/v1/research/companies?status_operating=Active&verified=true&founded_min=2010
+ *
+ * // Companies tagged with a type slug, most recently updated first
+ * GET /api/rest/v1/research/companies?tag=fintech&sort=updated
+ *
+ * // Next page
+ * GET /api/rest/v1/research/companies?cursor=eyJzb3J0S2V5Ijoi...
+ */
+export const GET = apiHandler(async (event: RequestEvent) => {
+	const { searchParams } = event.url;
+
+	// Page size
+	const limitParam = parseIntegerParam(searchParams.get('limit'));
+	const limit = limitParam === null ? defaultLimit : limitParam;
+	if (limit === undefined || limit < 1 || limit > maxLimit) {
+		return errorResponse(
+			`Invalid limit. Must be an integer between 1 and ${maxLimit}.`,
+			400,
+			undefined,
+			'/api/rest/v1/research/companies?limit=20',
+			event
+		);
+	}
+
+	// Sorting
+	const sort = (searchParams.get('sort') || 'name') as EntityListSort;
+	if (!entityListSorts.includes(sort)) {
+		return errorResponse(
+			`Invalid sort. Must be one of: ${entityListSorts.join(', ')}`,
+			400,
+			undefined,
+			'/api/rest/v1/research/companies?sort=founded&order=desc',
+			event
+		);
+	}
+
+	const order =
+		searchParams.get('order') || (sort === 'name' || sort === 'founded' ? 'asc' : 'desc');
+	if (order !== 'asc' && order !== 'desc') {
+		return errorResponse(
+			'Invalid order. Must be "asc" or "desc"',
+			400,
+			undefined,
+			undefined,
+			event
+		);
+	}
+
+	// Filters
+	const typeRecord = searchParams.get('type') || 'Company';
+	if (!(entityTypes as readonly string[]).includes(typeRecord)) {
+		return errorResponse(
+			`Invalid type. Must be one of: ${entityTypes.join(', ')}`,
+			400,
+			undefined,
+			undefined,
+			event
+		);
+	}
+
+	const status = searchParams.get('status_operating');
+	if (status && !(statusOperating as readonly string[]).includes(status)) {
+		return errorResponse(
+			`Invalid status_operating. Must be one of: ${statusOperating.join(', ')}`,
+			400,
+			undefined,
+			undefined,
+			event
+		);
+	}
+
+	const featured = parseBooleanParam(searchParams.get('featured'));
+	const verified = parseBooleanParam(searchParams.get('verified'));
+	if (featured === undefined || verified === undefined) {
+		return errorResponse(
+			'Invalid boolean filter. featured and verified must be "true" or "false"',
+			400,
+			undefined,
+			undefined,
+			event
+		);
+	}
+
+	const foundedMin = parseIntegerParam(searchParams.get('founded_min'));
+	const foundedMax = parseIntegerParam(searchParams.get('founded_max'));
+	if (foundedMin === undefined || foundedMax === undefined) {
+		return errorResponse(
+			'Invalid founding year. founded_min and founded_max must be integers',
+			400,
+			undefined,
+			'/api/rest/v1/research/companies?founded_min=2000&founded_max=2010',
+			event
+		);
+	}
+
+	const filters: EntityListFilters = {
+		typeRecord,
+		statusOperating: status || null,
+		statusFeatured: featured,
+		statusVerified: verified,
+		foundedMin,
+		foundedMax,
+		typeTagSlug: searchParams.get('tag') || null
+	};
+
+	// Cursor
+	const cursorParam = searchParams.get('cursor');
+	let cursor: ListingCursor | null = null;
+	if (cursorParam) {
+		cursor = decodeCursor<ListingCursor>(cursorParam);
+		if (
+			!cursor ||
+			typeof cursor.sortKey !== 'string' ||
+			typeof cursor.id !== 'string' ||
+			cursor.sort !== sort ||
+			cursor.direction !== order
+		) {
+			return errorResponse(
+				'Invalid cursor',
+				400,
+				'Cursors are only valid for the sort and order they were issued with',
+				undefined,
+				event
+			);
+		}
+	}
+
+	// Fetch one extra row to determine whether another page exists
+	const [rows, total] = await Promise.all([
+		db.entity.listFiltered(filters, sort, order, limit + 1, cursor),
+		db.entity.countFiltered(filters)
+	]);
+
+	const hasMore = rows.length > limit;
+	const pageRows = hasMore ? rows.slice(0, limit) : rows;
+	const lastRow = pageRows[pageRows.length - 1];
+
+	const items: CompanyListItem[] = pageRows.map((row) => {
+		// Drop the internal keyset sort key from the public payload
+		// eslint-disable-next-line @typescript-eslint/no-unused-vars
+		const { sort_key: _sortKey, ...entity } = row;
+		return {
+			...entity,
+			name: entity.name_brand || (entity.name_legal ?? 'Unknown'),
+			logoUrl: entity.file_logo_square,
+			foundedYear: entity.date_year_established
+		};
+	});
+
+	const nextCursor =
+		hasMore && lastRow
+			? encodeCursor({
+					sortKey: lastRow.sort_key,
+					id: lastRow.id as string,
+					sort,
+					direction: order
+				} satisfies ListingCursor)
+			: null;
+
+	return successResponse(
+		{
+			items,
+			pagination: {
+				limit,
+				total,
+				hasMore,
+				nextCursor
+			}
+		},
+		event,
+		{ 'X-Total-Count': String(total) }
+	);
+});
@@ -0,0 +1,173 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { z } from 'zod';
+import { apiHandler, errorResponse, isValidUuid, successResponse } from '$lib/server/api/utils';
+import db from '$lib/server/db';
+import type { Entity } from '$lib/schemas/research';
+
+import { getEntitiesTypeData } from '../sharedObjects/typeTagRef';
+import { getCompaniesRelatedUrls } from '../sharedObjects/url';
+import { getEntitiesTextData } from '../sharedObjects/text';
+import {
+	buildCompanyResponse,
+	groupByEntityId,
+	type CompanyResponse
+} from '../company/objects/companyResponse';
+
+// Maximum number of ids + slugs per request
+const maxBatchSize = 100;
+
+/**
+ * Request body; at least one of ids or slugs is required
+ */
+const batchGetRequestSchema = z
+	.object({
+		ids: z.array(z.string()).optional().default([]),
+		slugs: z.array(z.string()).optional().default([])
+	})
+	.refine((body) => body.ids.length + body.slugs.length > 0, {
+		message: 'Provide at least one id or slug'
+	})
+	.refine((body) => body.ids.length + body.slugs.length <= maxBatchSize, {
+		message: `At most ${maxBatchSize} ids and slugs combined per request`
+	});
+
+/**
+ * Per-input result: the company, or the reason it could not be returned
+ */
+type BatchGetResult = { status: 200; data: CompanyResponse } | { status: 400 | 404; error: string };
+
+/**
+ * API endpoint to fetch many companies in one request
+ *
+ * Accepts ids and/or slugs and returns one result per input, keyed by the input
+ * value. Each found company has exactly the same shape as the single company
+ * endpoint; inputs that are malformed or unknown get a per-item error instead of
+ * failing the whole request.
+ *
+ * Related data is loaded with set-based queries (`entity_id = ANY(...)`), so the
+ * number of database round trips is constant regardless of batch size.
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_entity (main), res_entity_type_join, res_type_ref, res_web_url_new, res_text_new, res_unique_id,
+ *         res_entity_relationship
+ * @link src/routes/api/rest/v1/research/company/+server.ts Single company endpoint
+ * @link src/routes/api/rest/v1/research/company/objects/companyResponse.ts Shared response shape
+ *
+ * @route POST /api/rest/v1/research/companies:batchGet
+ * @body ids - Array of company UUIDs
+ * @body slugs - Array of company slugs
+ * @query pretty - Set to "false" to disable pretty-formatted JSON (enabled by default)
+ * @returns Results keyed by input under `ids` and `slugs`, plus found/notFound counts
+ *
+ * @example
+ * POST /api/rest/v1/research/companies:batchGet
+ * { "ids": ["123e4567-e89b-12d3-a456-426614174000"], "slugs": ["stripe", "acme-corporation"] }
+ */
+export const POST = apiHandler(async (event: RequestEvent) => {
+	let body: unknown;
+	try {
+		body = await event.request.json();
+	} catch {
+		return errorResponse(
+			'Invalid JSON body',
+			400,
+			undefined,
+			'{ "ids": ["123e4567-e89b-12d3-a456-426614174000"], "slugs": ["acme-corporation"] }',
+			event
+		);
+	}
+
+	const parsed = batchGetRequestSchema.safeParse(body);
+	if (!parsed.success) {
+		return errorResponse(
+			'Invalid request body',
+			400,
+			parsed.error.issues.map((issue) => issue.message).join('; '),
+			'{ "ids": ["123e4567-e89b-12d3-a456-426614174000"], "slugs": ["acme-corporation"] }',
+			event
+		);
+	}
+
+	const { ids, slugs } = parsed.data;
+	const validIds = ids.filter(isValidUuid);
+
+	// Resolve entities by id and slug in two set-based queries
+	const [entitiesById, entitiesBySlug] = await Promise.all([
+		db.entity.getByIds(validIds),
+		db.entity.getBySlugs(slugs)
+	]);
+
+	const entityMap = new Map<string, Entity>();
+	for (const entity of [...entitiesById, ...entitiesBySlug]) {
+		entityMap.set(entity.id as string, entity);
+	}
+	const entityIds = [...entityMap.keys()];
+
+	// Load related data for every found entity at once
+	const [relatedUrls, typeData, textData, identifiers, relationships] = await Promise.all([
+		getCompaniesRelatedUrls(entityIds),
+		getEntitiesTypeData(entityIds),
+		getEntitiesTextData(entityIds),
+		db.identifier.getByEntityIds(entityIds),
+		db.relationship.getByEntityIds(entityIds)
+	]);
+
+	const urlsByEntity = groupByEntityId(relatedUrls);
+	const typesByEntity = groupByEntityId(typeData);
+	const textsByEntity = groupByEntityId(textData);
+	const identifiersByEntity = groupByEntityId(identifiers);
+	const relationshipsByEntity = groupByEntityId(relationships);
+
+	// Build each company response once, even if requested by both id and slug
+	const responses = new Map<string, CompanyResponse>();
+	for (const [entityId, entity] of entityMap) {
+		responses.set(
+			entityId,
+			buildCompanyResponse(entity, {
+				relatedUrls: urlsByEntity.get(entityId) ?? [],
+				typeData: typesByEntity.get(entityId) ?? [],
+				textData: textsByEntity.get(entityId) ?? [],
+				identifiers: identifiersByEntity.get(entityId) ?? [],
+				relationships: relationshipsByEntity.get(entityId) ?? []
+			})
+		);
+	}
+
+	const slugToId = new Map(entitiesBySlug.map((entity) => [entity.slug, entity.id as string]));
+
+	const idResults: Record<string, BatchGetResult> = {};
+	for (const id of ids) {
+		const response = isValidUuid(id) ? responses.get(id.toLowerCase()) : undefined;
+		idResults[id] = !isValidUuid(id)
+			? { status: 400, error: 'Invalid UUID format' }
+			: response
+				? { status: 200, data: response }
+				: { status: 404, error: 'Company not found' };
+	}
+
+	const slugResults: Record<string, BatchGetResult> = {};
+	for (const slug of slugs) {
+		const entityId = slugToId.get(slug);
+		const response = entityId ? responses.get(entityId) : undefined;
+		slugResults[slug] = response
+			? { status: 200, data: response }
+			: { status: 404, error: 'Company not found' };
+	}
+
+	const allResults = [...Object.values(idResults), ...Object.values(slugResults)];
+	const found = allResults.filter((result) => result.status === 200).length;
+
+	return successResponse(
+		{
+			ids: idResults,
+			slugs: slugResults,
+			counts: {
+				requested: allResults.length,
+				found,
+				notFound: allResults.length - found
+			}
+		},
+		event
+	);
+});
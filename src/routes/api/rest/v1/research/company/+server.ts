@@ -7,27 +7,16 @@ import {
 	successResponse
 } from '$lib/server/api/utils';
 import db from '$lib/server/db';
-import type { CompanyEntity, EntityText } from '$lib/schemas/research';
-import type { EntityWebUrl } from '$lib/schemas/research';
-import type { EntityTypeTagsByCategory } from '$lib/server/db/queries/type_ref';
+import {
+	identifierLookupParams,
+	type IdentifierLookupParam
+} from '$lib/server/db/queries/identifier';
 
 // Import company object processors - use existing shared ones
-import { getEntityTypeData, categorizeEntityTypes } from '../sharedObjects/typeTagRef';
+import { getEntityTypeData } from '../sharedObjects/typeTagRef';
 import { getCompanyRelatedUrls } from '../sharedObjects/url';
 import { getEntityTextData } from '../sharedObjects/text';
-
-// Define response interface using specific CompanyEntity type from schema
-interface CompanyResponse extends CompanyEntity {
-	// Additional friendly properties for API response
-	name: string;
-	logoUrl?: string | null;
-	faviconUrl?: string | null;
-	foundedYear?: number | null;
-	// Related data
-	relatedUrls: EntityWebUrl[];
-	typeTags: EntityTypeTagsByCategory;
-	texts: Record<string, EntityText[]>;
-}
+import { buildCompanyResponse } from './objects/companyResponse';
 
 /**
  * API endpoint to fetch company data from the research database
@@ -43,12 +32,11 @@ interface CompanyResponse extends CompanyEntity {
  *
  * @database PostgreSQL
  * @schema research
- * @tables res_entity (main), res_entity_type_join, res_type_ref, res_web_url_new, res_text_new
+ * @tables res_entity (main), res_entity_type_join, res_type_ref, res_web_url_new, res_text_new, res_unique_id, res_entity_relationship
  * @link src/routes/api/rest/v1/research/sharedObjects/typeTagRef.ts Shared type tag reference functionality
  * @link src/routes/api/rest/v1/research/sharedObjects/url.ts Shared URL functionality
  * @link src/routes/api/rest/v1/research/sharedObjects/text.ts Shared text functionality
- * @link src/routes/api/rest/v1/research/company/objects/companyTypeTag.ts Company-specific type tag processing
- * @link src/routes/api/rest/v1/research/company/objects/companyText.ts Company-specific text processing
+ * @link src/routes/api/rest/v1/research/company/objects/companyResponse.ts Response shape shared with the batch endpoint
  * @link src/routes/companies/[slug]/components/CompanyHeader/CompanyExternalLinks.svelte UI component example using this data
  *
  * ARCHITECTURE NOTES:
@@ -61,8 +49,13 @@ interface CompanyResponse extends CompanyEntity {
  * @route GET /api/rest/v1/research/company
  * @query id - UUID of the company to retrieve
  * @query slug - URL slug of the company to retrieve
+ * @query ticker - Ticker symbol (e.g. AAPL)
+ * @query cik - SEC CIK number, with or without zero padding
+ * @query duns - D-U-N-S number
+ * @query ein - US EIN, with or without the hyphen
+ * @query bloomberg - Bloomberg ID
  * @query pretty - Set to "false" to disable pretty-formatted JSON (enabled by default)
- * @returns Company data JSON object with related URLs, type information, and text data nested
+ * @returns Company data JSON object with related URLs, type information, text data, identifiers, acquirers and subsidiaries nested
  *
  * @example
  * // Fetch by ID
@@ -71,6 +64,10 @@ interface CompanyResponse extends CompanyEntity {
  * // Fetch by slug
  * GET /api/rest/v1/research/company?slug=acme-corporation
  *
+ * // Fetch by external identifier
+ * GET /api/rest/v1/research/company?ticker=AAPL
+ * GET /api/rest/v1/research/company?cik=0000320193
+ *
  * // Debug mode
  * GET /api/rest/v1/research/company?debug=true
  *
@@ -82,12 +79,17 @@ export const GET = apiHandler(async (event: RequestEvent) => {
 	const id = url.searchParams.get('id');
 	const slug = url.searchParams.get('slug');
 
-	if (!id && !slug) {
+	// External identifier lookup (first matching parameter wins)
+	const identifierParam = (Object.keys(identifierLookupParams) as IdentifierLookupParam[]).find(
+		(param) => url.searchParams.get(param)
+	);
+
+	if (!id && !slug && !identifierParam) {
 		return errorResponse(
-			'Missing required parameter. Please provide either id (36-character UUID) or slug (URL slug) as a query parameter.',
+			`Missing required parameter. Please provide id (36-character UUID), slug (URL slug) or an external identifier (${Object.keys(identifierLookupParams).join(', ')}) as a query parameter.`,
 			400,
 			undefined,
-			'/api/rest/v1/research/company?id=123e4567-e89b-12d3-a456-426614174000 or /api/rest/v1/research/company?slug=acme-corporation',
+			'/api/rest/v1/research/company?id=123e4567-e89b-12d3-a456-426614174000 or /api/rest/v1/research/company?slug=acme-corporation or /api/rest/v1/research/company?ticker=AAPL',
 			event
 		);
 	}
@@ -97,10 +99,35 @@ export const GET = apiHandler(async (event: RequestEvent) => {
 		return errorResponse('Invalid UUID format', 400, undefined, undefined, event);
 	}
 
+	// Resolve an external identifier to an entity ID
+	let resolvedId = id;
+	if (!id && !slug && identifierParam) {
+		const identifierValue = url.searchParams.get(identifierParam) as string;
+		const entityIds = await db.identifier.findEntityIds(
+			identifierLookupParams[identifierParam],
+			identifierValue
+		);
+
+		if (entityIds.length > 1) {
+			return errorResponse(
+				`Identifier ${identifierParam}=${identifierValue} matches more than one company`,
+				409,
+				`Candidate IDs: ${entityIds.join(', ')}`,
+				undefined,
+				event
+			);
+		}
+
+		resolvedId = entityIds[0] ?? null;
+		if (!resolvedId) {
+			return notFoundError('Company', event);
+		}
+	}
+
 	// Get base company data - using our entity queries with proper null checking
 	const dbCompany =
-		id && id.length > 0
-			? await db.entity.getById(id)
+		resolvedId && resolvedId.length > 0
+			? await db.entity.getById(resolvedId)
 			: slug && slug.length > 0
 				? await db.entity.getBySlug(slug)
 				: null;
@@ -113,42 +140,22 @@ export const GET = apiHandler(async (event: RequestEvent) => {
 
 	// Execute related queries in parallel for optimal performance
 	// This reduces total response time by running all queries simultaneously
-	const [relatedUrls, typeData, textData] = await Promise.all([
+	const [relatedUrls, typeData, textData, identifiers, relationships] = await Promise.all([
 		getCompanyRelatedUrls(companyId as string), // Type assertion
 		getEntityTypeData(companyId as string), // Type assertion
-		getEntityTextData(companyId as string) // Type assertion
+		getEntityTextData(companyId as string), // Type assertion
+		db.identifier.getByEntityId(companyId as string),
+		db.relationship.getByEntityId(companyId as string)
 	]);
 
-	// Transform data into categorized structures
-	// These are efficient O(n) operations with a single pass through the data
-	const typeTagsByCategory = categorizeEntityTypes(typeData);
-
-	// Create a texts by type object
-	const textsByType: Record<string, EntityText[]> = {};
-	textData.forEach((text) => {
-		const type = text.text_type || 'other';
-		if (!textsByType[type]) {
-			textsByType[type] = [];
-		}
-		textsByType[type].push(text);
-	});
-
 	// Start with the company entity and add friendly alias properties
-	const responseData: CompanyResponse = {
-		// Using spread to include all original properties from dbCompany
-		...dbCompany,
-
-		// Add friendly property names for common fields
-		name: dbCompany.name_brand || (dbCompany.name_legal ?? 'Unknown'),
-		logoUrl: dbCompany.file_logo_square,
-		faviconUrl: dbCompany.file_logo_favicon_square,
-		foundedYear: dbCompany.date_year_established,
-
-		// Add related data
+	const responseData = buildCompanyResponse(dbCompany, {
 		relatedUrls,
-		typeTags: typeTagsByCategory,
-		texts: textsByType
-	};
+		typeData,
+		textData,
+		identifiers,
+		relationships
+	});
 
 	// Return success response
 	return successResponse(responseData, event);
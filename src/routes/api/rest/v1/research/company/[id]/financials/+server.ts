@@ -0,0 +1,57 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import {
+	apiHandler,
+	errorResponse,
+	isValidUuid,
+	notFoundError,
+	successResponse
+} from '$lib/server/api/utils';
+import db from '$lib/server/db';
+import { aggregateFinancialMetrics } from '../../../sharedObjects/financialMetrics';
+
+/**
+ * API endpoint to fetch a company's financial metrics
+ *
+ * Aggregates the company's res_entity_detail rows into the latest value per detail
+ * type, year-over-year growth and per-period series (annual, quarterly, monthly,
+ * ttm, custom). Each figure includes its data_confidence and source_type. Detail
+ * types without numeric values are omitted rather than filled in.
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_entity_detail (main), res_entity
+ * @link src/routes/api/rest/v1/research/sharedObjects/financialMetrics.ts - Aggregation
+ * @link src/routes/companies/[slug]/components/Financials/Financials.svelte - Financials tab
+ *
+ * @route GET /api/rest/v1/research/company/{id}/financials
+ * @param id - UUID of the company
+ * @query pretty - Set to "false" to disable pretty-formatted JSON (enabled by default)
+ * @returns Financial metrics with provenance; an empty metrics list when no details exist
+ *
+ * @example
+ * GET /api/rest/v1/research/company/123e4567-e89b-12d3-a456-426614174000/financials
+ */
+export const GET = apiHandler(async (event: RequestEvent) => {
+	const id = event.params.id as string;
+
+	if (!isValidUuid(id)) {
+		return errorResponse('Invalid UUID format', 400, undefined, undefined, event);
+	}
+
+	const [company, details] = await Promise.all([
+		db.entity.getById(id),
+		db.entityDetail.getByEntityId(id)
+	]);
+
+	if (!company) {
+		return notFoundError('Company', event);
+	}
+
+	return successResponse(
+		{
+			companyId: id,
+			...aggregateFinancialMetrics(details)
+		},
+		event
+	);
+});
@@ -0,0 +1,125 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import {
+	apiHandler,
+	errorResponse,
+	isValidUuid,
+	notFoundError,
+	successResponse
+} from '$lib/server/api/utils';
+import db from '$lib/server/db';
+import { relationshipTypes, type RelationshipType } from '$lib/schemas/research';
+import { buildRelationshipGraph } from '../../../sharedObjects/relationship';
+
+const defaultDepth = 2;
+const maxDepth = 4;
+const defaultMaxNodes = 150;
+const maxNodesLimit = 500;
+
+/**
+ * API endpoint to fetch a company's relationship network as a graph
+ *
+ * Walks res_entity_relationship breadth-first from the company up to `depth` hops,
+ * collecting competitors, acquirers, divisions, category members and merger
+ * partners. Visited entities are not expanded again, so cycles terminate, and the
+ * walk stops adding nodes once `max_nodes` is reached (`truncated: true`).
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_entity_relationship (main), res_entity
+ * @link src/routes/api/rest/v1/research/sharedObjects/relationship.ts - Graph walk
+ * @link src/routes/companies/[slug]/components/Network/Network.svelte - Graph UI
+ *
+ * @route GET /api/rest/v1/research/company/{id}/network
+ * @param id - UUID of the root company
+ * @query depth - Number of hops to walk (1-4, default 2)
+ * @query types - Comma-separated relationship types (default all)
+ * @query max_nodes - Maximum number of nodes (1-500, default 150)
+ * @query pretty - Set to "false" to disable pretty-formatted JSON (enabled by default)
+ * @returns Graph with nodes (entities with depth) and edges (entity1 → entity2 with relationship type)
+ *
+ * @example
+ * // Competitors of competitors
+ * GET /api/rest/v1/research/company/123e4567-e89b-12d3-a456-426614174000/network?depth=2&types=Competitor
+ *
+ * // Corporate family
+ * GET /api/rest/v1/research/company/123e4567-e89b-12d3-a456-426614174000/network?types=Acquirer-Acquiree,Company-Division
+ */
+export const GET = apiHandler(async (event: RequestEvent) => {
+	const id = event.params.id as string;
+	const { searchParams } = event.url;
+
+	if (!isValidUuid(id)) {
+		return errorResponse('Invalid UUID format', 400, undefined, undefined, event);
+	}
+
+	const depth = searchParams.has('depth') ? Number(searchParams.get('depth')) : defaultDepth;
+	if (!Number.isInteger(depth) || depth < 1 || depth > maxDepth) {
+		return errorResponse(
+			`Invalid depth. Must be an integer between 1 and ${maxDepth}.`,
+			400,
+			undefined,
+			`/api/rest/v1/research/company/${id}/network?depth=2`,
+			event
+		);
+	}
+
+	const maxNodes = searchParams.has('max_nodes')
+		? Number(searchParams.get('max_nodes'))
+		: defaultMaxNodes;
+	if (!Number.isInteger(maxNodes) || maxNodes < 1 || maxNodes > maxNodesLimit) {
+		return errorResponse(
+			`Invalid max_nodes. Must be an integer between 1 and ${maxNodesLimit}.`,
+			400,
+			undefined,
+			undefined,
+			event
+		);
+	}
+
+	const types = (searchParams.get('types') || '')
+		.split(',')
+		.map((type) => type.trim())
+		.filter(Boolean);
+	const invalidTypes = types.filter(
+		(type) => !(relationshipTypes as readonly string[]).includes(type)
+	);
+	if (invalidTypes.length > 0) {
+		return errorResponse(
+			`Invalid types: ${invalidTypes.join(', ')}. Must be one of: ${relationshipTypes.join(', ')}`,
+			400,
+			undefined,
+			`/api/rest/v1/research/company/${id}/network?types=Competitor,Acquirer-Acquiree`,
+			event
+		);
+	}
+
+	const company = await db.entity.getById(id);
+	if (!company) {
+		return notFoundError('Company', event);
+	}
+
+	const graph = await buildRelationshipGraph(
+		{
+			id,
+			name: company.name_brand || (company.name_legal ?? 'Unknown'),
+			slug: company.slug ?? null,
+			logoUrl: company.file_logo_square ?? null,
+			type_record: company.type_record ?? null,
+			depth: 0
+		},
+		{
+			depth,
+			maxNodes,
+			relationshipTypes: types.length > 0 ? (types as RelationshipType[]) : null
+		}
+	);
+
+	return successResponse(
+		{
+			rootId: id,
+			depth,
+			...graph
+		},
+		event
+	);
+});
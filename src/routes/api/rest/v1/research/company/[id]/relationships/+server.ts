@@ -0,0 +1,87 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import {
+	apiHandler,
+	errorResponse,
+	isValidUuid,
+	notFoundError,
+	successResponse
+} from '$lib/server/api/utils';
+import db from '$lib/server/db';
+import { relationshipTypes, type RelationshipType } from '$lib/schemas/research';
+import { toRelatedEntity } from '../../../sharedObjects/relationship';
+
+/**
+ * API endpoint to fetch a company's relationships
+ *
+ * Returns the counterpart entity of every relationship the company takes part in,
+ * with the direction seen from the company and the role the counterpart plays
+ * (competitor, acquirer, acquiree, parent, division, category, member, merger_partner).
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_entity_relationship (main), res_entity
+ * @link src/lib/server/db/queries/relationship.ts - Relationship queries and role mapping
+ * @link src/routes/api/rest/v1/research/sharedObjects/relationship.ts - Response shaping
+ *
+ * @route GET /api/rest/v1/research/company/{id}/relationships
+ * @param id - UUID of the company
+ * @query type - Optional relationship type (Competitor, Category-Member, Merger-Acquisition,
+ *               Acquirer-Acquiree, Company-Division)
+ * @query include_historical - "true" to include relationships that are no longer current
+ * @query pretty - Set to "false" to disable pretty-formatted JSON (enabled by default)
+ * @returns Related entities with relationship type, direction and role
+ *
+ * @example
+ * // All current relationships
+ * GET /api/rest/v1/research/company/123e4567-e89b-12d3-a456-426614174000/relationships
+ *
+ * // Acquisitions in both directions, including historical ones
+ * GET /api/rest/v1/research/company/123e4567-e89b-12d3-a456-426614174000/relationships?type=Acquirer-Acquiree&include_historical=true
+ */
+export const GET = apiHandler(async (event: RequestEvent) => {
+	const id = event.params.id as string;
+
+	if (!isValidUuid(id)) {
+		return errorResponse('Invalid UUID format', 400, undefined, undefined, event);
+	}
+
+	const type = event.url.searchParams.get('type');
+	if (type && !(relationshipTypes as readonly string[]).includes(type)) {
+		return errorResponse(
+			`Invalid type. Must be one of: ${relationshipTypes.join(', ')}`,
+			400,
+			undefined,
+			`/api/rest/v1/research/company/${id}/relationships?type=Competitor`,
+			event
+		);
+	}
+
+	const includeHistorical = event.url.searchParams.get('include_historical') === 'true';
+
+	const [company, rows] = await Promise.all([
+		db.entity.getById(id),
+		db.relationship.getByEntityId(id, {
+			relationshipTypes: type ? [type as RelationshipType] : null,
+			includeHistorical
+		})
+	]);
+
+	if (!company) {
+		return notFoundError('Company', event);
+	}
+
+	const relationships = rows.map(toRelatedEntity);
+
+	return successResponse(
+		{
+			company: {
+				id: company.id,
+				name: company.name_brand || (company.name_legal ?? 'Unknown'),
+				slug: company.slug
+			},
+			count: relationships.length,
+			relationships
+		},
+		event
+	);
+});
@@ -0,0 +1,95 @@
+import { describe, test, expect, vi } from 'vitest';
+import type { RequestEvent } from '@sveltejs/kit';
+import { GET } from '../+server';
+import { POST } from '../../companies[x+3a]batchGet/+server';
+
+const companyId = '123e4567-e89b-12d3-a456-426614174000';
+
+const company = {
+	id: companyId,
+	slug: 'stripe',
+	name_brand: 'Stripe',
+	name_legal: 'Stripe, Inc.',
+	type_record: 'Company',
+	file_logo_square: null,
+	file_logo_favicon_square: null,
+	date_year_established: 2010
+};
+const url = {
+	id: 1,
+	entity_id: companyId,
+	url_type: 'website',
+	url: 'https://stripe.com',
+	updated_at: null,
+	created_at: null
+};
+const typeTag = {
+	type_id: 7,
+	type_category: 'industry',
+	type_name: 'Fintech',
+	slug: 'fintech',
+	type_color_id: null,
+	is_primary: true,
+	type_data_source: null
+};
+const text = { id: 3, entity_id: companyId, text_type: 'description', text: 'Payments.' };
+const identifier = { entity_id: companyId, id_type: 'ticker', unique_id: 'STRP' };
+
+// Single-company queries return rows without entity_id where the batch queries add it
+vi.mock('$lib/server/db', async () => {
+	const { typeRefQueries } = await vi.importActual<
+		typeof import('$lib/server/db/queries/type_ref')
+	>('$lib/server/db/queries/type_ref');
+	return {
+		default: {
+			entity: {
+				getById: async () => company,
+				getByIds: async () => [company],
+				getBySlugs: async () => []
+			},
+			url: {
+				getCompanyRelatedUrls: async () => [url],
+				getRelatedUrlsByEntityIds: async () => [url]
+			},
+			typeRef: {
+				getEntityTypeData: async () => [typeTag],
+				getEntityTypeDataByEntityIds: async () => [{ entity_id: companyId, ...typeTag }],
+				categorizeEntityTypes: typeRefQueries.categorizeEntityTypes
+			},
+			text: {
+				getEntityTextData: async () => [text],
+				getEntityTextDataByEntityIds: async () => [text]
+			},
+			identifier: {
+				getByEntityId: async () => [identifier],
+				getByEntityIds: async () => [identifier]
+			},
+			relationship: {
+				getByEntityId: async () => [],
+				getByEntityIds: async () => []
+			}
+		}
+	};
+});
+
+describe('company response', () => {
+	test('is the same from the single company and batch endpoints', async () => {
+		const single = await GET({
+			url: new URL(`http://localhost/api/rest/v1/research/company?id=${companyId}`)
+		} as RequestEvent);
+		const batch = await POST({
+			url: new URL('http://localhost/api/rest/v1/research/companies:batchGet'),
+			request: new Request('http://localhost/api/rest/v1/research/companies:batchGet', {
+				method: 'POST',
+				body: JSON.stringify({ ids: [companyId] })
+			})
+		} as RequestEvent);
+
+		const singleData = (await single.json()).data;
+		const batchItem = (await batch.json()).data.ids[companyId];
+
+		expect(batchItem.status).toBe(200);
+		expect(singleData.typeTags).toEqual({ industry: [typeTag] });
+		expect(batchItem.data).toEqual(singleData);
+	});
+});
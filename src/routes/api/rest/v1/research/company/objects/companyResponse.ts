@@ -0,0 +1,136 @@
+/**
+ * Company Response
+ *
+ * Builds the CompanyResponse payload shared by the single company endpoint and
+ * the batch endpoint, so both return exactly the same shape.
+ *
+ * @link ../+server.ts Single company endpoint
+ * @link ../../companies[x+3a]batchGet/+server.ts Batch company endpoint
+ */
+
+import type {
+	CompanyEntity,
+	Entity,
+	EntityIdentifier,
+	EntityText,
+	EntityWebUrl
+} from '$lib/schemas/research';
+import type { EntityTypeTag, EntityTypeTagsByCategory } from '$lib/server/db/queries/type_ref';
+import type { EntityRelationshipRow } from '$lib/server/db/queries/relationship';
+import { categorizeEntityTypes } from '../../sharedObjects/typeTagRef';
+import { getCorporateStructure, type RelatedEntity } from '../../sharedObjects/relationship';
+
+// Define response interface using specific CompanyEntity type from schema
+export interface CompanyResponse extends CompanyEntity {
+	// Additional friendly properties for API response
+	name: string;
+	logoUrl?: string | null;
+	faviconUrl?: string | null;
+	foundedYear?: number | null;
+	// Related data
+	relatedUrls: EntityWebUrl[];
+	typeTags: EntityTypeTagsByCategory;
+	texts: Record<string, EntityText[]>;
+	identifiers: EntityIdentifier[];
+	// Corporate structure from res_entity_relationship
+	acquirers: RelatedEntity[];
+	subsidiaries: RelatedEntity[];
+}
+
+/**
+ * Related rows for one company, as returned by the shared object queries
+ */
+export interface CompanyRelatedData {
+	relatedUrls: EntityWebUrl[];
+	typeData: EntityTypeTag[];
+	textData: EntityText[];
+	identifiers: EntityIdentifier[];
+	relationships: EntityRelationshipRow[];
+}
+
+/**
+ * Assemble the company response from the entity and its related rows
+ *
+ * @param company Entity row from res_entity
+ * @param related Related URLs, type tags, texts, identifiers and relationships
+ * @returns Company response with friendly aliases and categorized related data
+ */
+export function buildCompanyResponse(
+	company: Entity,
+	related: CompanyRelatedData
+): CompanyResponse {
+	// Transform data into categorized structures
+	// These are efficient O(n) operations with a single pass through the data
+	// Batch rows also carry entity_id; keep only the tag fields of the single company rows
+	const typeTagsByCategory = categorizeEntityTypes(
+		related.typeData.map(
+			({
+				type_id,
+				type_category,
+				type_name,
+				slug,
+				type_color_id,
+				is_primary,
+				type_data_source
+			}) => ({
+				type_id,
+				type_category,
+				type_name,
+				slug,
+				type_color_id,
+				is_primary,
+				type_data_source
+			})
+		)
+	);
+
+	// Create a texts by type object
+	const textsByType: Record<string, EntityText[]> = {};
+	related.textData.forEach((text) => {
+		const type = text.text_type || 'other';
+		if (!textsByType[type]) {
+			textsByType[type] = [];
+		}
+		textsByType[type].push(text);
+	});
+
+	return {
+		// Using spread to include all original properties from the entity
+		...(company as CompanyEntity),
+
+		// Add friendly property names for common fields
+		name: company.name_brand || (company.name_legal ?? 'Unknown'),
+		logoUrl: company.file_logo_square,
+		faviconUrl: company.file_logo_favicon_square,
+		foundedYear: company.date_year_established,
+
+		// Add related data
+		relatedUrls: related.relatedUrls,
+		typeTags: typeTagsByCategory,
+		texts: textsByType,
+		identifiers: related.identifiers.map(({ id_type, unique_id }) => ({ id_type, unique_id })),
+		...getCorporateStructure(related.relationships)
+	};
+}
+
+/**
+ * Group rows by their entity_id
+ *
+ * @param rows Rows from a set-based query
+ * @returns Map of entity ID to that entity's rows
+ */
+export function groupByEntityId<T extends { entity_id?: string | null }>(
+	rows: T[]
+): Map<string, T[]> {
+	const grouped = new Map<string, T[]>();
+	for (const row of rows) {
+		if (!row.entity_id) continue;
+		const group = grouped.get(row.entity_id);
+		if (group) {
+			group.push(row);
+		} else {
+			grouped.set(row.entity_id, [row]);
+		}
+	}
+	return grouped;
+}
@@ -0,0 +1,147 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import {
+	apiHandler,
+	errorResponse,
+	missingParamError,
+	successResponse
+} from '$lib/server/api/utils';
+import db from '$lib/server/db';
+import type { EntitySearchResult } from '$lib/server/db/queries/search';
+import { entityTypes } from '$lib/schemas/research';
+
+const defaultLimit = 20;
+const maxLimit = 50;
+const minQueryLength = 2;
+
+/**
+ * Ranked search result returned by the endpoint
+ */
+interface SearchResultItem {
+	id: string;
+	slug: string | null;
+	name: string;
+	name_legal?: string | null;
+	logoUrl?: string | null;
+	foundedYear?: number | null;
+	type_record?: string | null;
+	status_operating?: string | null;
+	score: number;
+	// Which parts of the record matched the query
+	matchedOn: ('name' | 'fuzzy' | 'text')[];
+	// HTML snippets with matches wrapped in <mark>; source text is HTML-escaped
+	highlights: {
+		name: string | null;
+		text: string | null;
+		textType: string | null;
+	};
+}
+
+/**
+ * Map a ranked search row to the public response shape
+ */
+function toSearchResultItem(row: EntitySearchResult): SearchResultItem {
+	const matchedOn: SearchResultItem['matchedOn'] = [];
+	if (row.name_rank > 0) matchedOn.push('name');
+	if (row.name_rank === 0 && row.name_similarity > 0) matchedOn.push('fuzzy');
+	if (row.text_rank > 0) matchedOn.push('text');
+
+	return {
+		id: row.id as string,
+		slug: row.slug ?? null,
+		name: row.name_brand || (row.name_legal ?? 'Unknown'),
+		name_legal: row.name_legal,
+		logoUrl: row.file_logo_square,
+		foundedYear: row.date_year_established,
+		type_record: row.type_record,
+		status_operating: row.status_operating,
+		score: row.score,
+		matchedOn,
+		highlights: {
+			name: row.name_highlight,
+			text: row.text_highlight,
+			textType: row.text_type
+		}
+	};
+}
+
+/**
+ * API endpoint for ranked company search
+ *
+ * Combines PostgreSQL full-text search (prefix matching on names, English stemming
+ * on descriptions and scraped website text) with pg_trgm trigram similarity on
+ * names, so typos and partial brand names still find the right company.
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_entity (main), res_text_new
+ * @link src/lib/server/db/queries/search.ts - Ranked search query and required indexes
+ *
+ * @route GET /api/rest/v1/research/search
+ * @query q - Search text (at least 2 characters)
+ * @query limit - Maximum number of results (1-50, default 20)
+ * @query type - Optional entity type_record filter (e.g. "Company")
+ * @query pretty - Set to "false" to disable pretty-formatted JSON (enabled by default)
+ * @returns Results ordered by relevance score, with highlighted snippets
+ *
+ * @example
+ * // Typo-tolerant name search
+ * GET /api/rest/v1/research/search?q=micorsoft
+ *
+ * // Partial brand name, companies only
+ * GET /api/rest/v1/research/search?q=strip&type=Company&limit=5
+ *
+ * // Match on description text
+ * GET /api/rest/v1/research/search?q=payment%20infrastructure
+ */
+export const GET = apiHandler(async (event: RequestEvent) => {
+	const { searchParams } = event.url;
+	const query = searchParams.get('q')?.trim() ?? '';
+
+	if (!query) {
+		return missingParamError('q', '/api/rest/v1/research/search?q=stripe', event);
+	}
+
+	if (query.length < minQueryLength) {
+		return errorResponse(
+			`Search query must be at least ${minQueryLength} characters`,
+			400,
+			undefined,
+			'/api/rest/v1/research/search?q=stripe',
+			event
+		);
+	}
+
+	const limitParam = searchParams.get('limit');
+	const limit = limitParam ? Number(limitParam) : defaultLimit;
+	if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+		return errorResponse(
+			`Invalid limit. Must be an integer between 1 and ${maxLimit}.`,
+			400,
+			undefined,
+			'/api/rest/v1/research/search?q=stripe&limit=10',
+			event
+		);
+	}
+
+	const typeRecord = searchParams.get('type');
+	if (typeRecord && !(entityTypes as readonly string[]).includes(typeRecord)) {
+		return errorResponse(
+			`Invalid type. Must be one of: ${entityTypes.join(', ')}`,
+			400,
+			undefined,
+			undefined,
+			event
+		);
+	}
+
+	const rows = await db.search.search(query, { limit, typeRecord: typeRecord || null });
+
+	return successResponse(
+		{
+			query,
+			count: rows.length,
+			results: rows.map(toSearchResultItem)
+		},
+		event
+	);
+});
@@ -0,0 +1,77 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { apiHandler, errorResponse, successResponse } from '$lib/server/api/utils';
+import db from '$lib/server/db';
+
+const defaultLimit = 8;
+const maxLimit = 20;
+
+/**
+ * Typeahead suggestion returned by the endpoint
+ */
+interface SearchSuggestion {
+	id: string;
+	name: string;
+	slug: string;
+	// Raw logo path; resolve with getImageUrl on the client
+	logoUrl: string | null;
+	primaryType: {
+		name: string;
+		slug: string;
+	} | null;
+}
+
+/**
+ * API endpoint for typeahead company suggestions
+ *
+ * A lightweight, name-only variant of the ranked search endpoint intended to be
+ * called on (debounced) keystrokes. Queries shorter than two characters return an
+ * empty list rather than an error so clients can call it unconditionally.
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_entity (main), res_entity_type_join, res_type_ref
+ * @link src/lib/server/db/queries/search.ts - suggest query
+ * @link src/lib/components/CompanySearch.svelte - Header search box using this endpoint
+ *
+ * @route GET /api/rest/v1/research/search/suggest
+ * @query q - Partial company name
+ * @query limit - Maximum number of suggestions (1-20, default 8)
+ * @query pretty - Set to "false" to disable pretty-formatted JSON (enabled by default)
+ * @returns Suggestions with name, slug, logo path and primary type tag
+ *
+ * @example
+ * GET /api/rest/v1/research/search/suggest?q=stri
+ */
+export const GET = apiHandler(async (event: RequestEvent) => {
+	const { searchParams } = event.url;
+	const query = searchParams.get('q')?.trim() ?? '';
+
+	const limitParam = searchParams.get('limit');
+	const limit = limitParam ? Number(limitParam) : defaultLimit;
+	if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+		return errorResponse(
+			`Invalid limit. Must be an integer between 1 and ${maxLimit}.`,
+			400,
+			undefined,
+			'/api/rest/v1/research/search/suggest?q=stri&limit=5',
+			event
+		);
+	}
+
+	const rows = query.length >= 2 ? await db.search.suggest(query, limit) : [];
+
+	const suggestions: SearchSuggestion[] = rows.map((row) => ({
+		id: row.id,
+		name: row.name,
+		slug: row.slug as string,
+		logoUrl: row.file_logo_square,
+		primaryType:
+			row.primary_type_name && row.primary_type_slug
+				? { name: row.primary_type_name, slug: row.primary_type_slug }
+				: null
+	}));
+
+	return successResponse({ query, suggestions }, event, {
+		'Cache-Control': 'public, max-age=60'
+	});
+});
@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'vitest';
+import { formatAnalysisContext, getContextTokenBudget } from './analysisContext';
+
+const entity = { id: '00000000-0000-0000-0000-000000000001', name: 'Stripe' };
+
+describe('getContextTokenBudget', () => {
+	test('uses a share of the input window up to the cap', () => {
+		expect(getContextTokenBudget(200000, 4000)).toBe(4000);
+		expect(getContextTokenBudget(8000, 4000)).toBe(400);
+	});
+});
+
+describe('formatAnalysisContext', () => {
+	test('adds sections in order and reports their sources', () => {
+		const context = formatAnalysisContext(
+			entity,
+			[
+				{ source: 'type_tag', count: 1, text: '- Industry: Fintech' },
+				{ source: 'url', count: 0, text: '' },
+				{ source: 'description_medium', count: 1, text: 'Stripe builds payment infrastructure.' }
+			],
+			1000
+		);
+
+		expect(context?.prompt).toContain('## Categories\n- Industry: Fintech');
+		expect(context?.prompt).toContain('## Description\nStripe builds payment infrastructure.');
+		expect(context?.meta.sources.map((source) => source.source)).toEqual([
+			'type_tag',
+			'description_medium'
+		]);
+		expect(context?.meta.sources.every((source) => !source.truncated)).toBe(true);
+	});
+
+	test('truncates to the budget and drops sections that no longer fit', () => {
+		const context = formatAnalysisContext(
+			entity,
+			[
+				{ source: 'description_medium', count: 1, text: 'payments '.repeat(500) },
+				{ source: 'scraped_website', count: 1, text: 'Website text' }
+			],
+			300
+		);
+
+		expect(context?.meta.tokens).toBeLessThanOrEqual(300);
+		expect(context?.meta.sources).toEqual([
+			expect.objectContaining({ source: 'description_medium', truncated: true })
+		]);
+	});
+
+	test('returns null without data', () => {
+		expect(formatAnalysisContext(entity, [{ source: 'url', count: 0, text: '' }], 1000)).toBe(null);
+	});
+});
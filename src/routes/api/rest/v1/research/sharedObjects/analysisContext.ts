@@ -0,0 +1,241 @@
+/**
+ * Analysis Context
+ *
+ * Grounds LLM analysis prompts in our own research data. When the analyzed
+ * name resolves to a res_entity company, its type tags, known URLs, existing
+ * res_entity_detail values and description_medium/scraped_website text are
+ * formatted into a prompt section, so the model answers about the right company
+ * instead of a similarly named one.
+ *
+ * Sources are added in order of value per token (structured data first, then
+ * the description, then scraped website text) until the token budget is used;
+ * the last section that fits only partly is truncated. The budget is a share
+ * of the model's max_input_tokens from llmModels.json, capped by
+ * LLM_CONTEXT_MAX_TOKENS.
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_entity, res_text_new, res_entity_detail, res_web_url_new, res_type_ref
+ * @link src/routes/api/rest/v1/research/sharedObjects/entityResolution.ts - Name matching
+ * @link data-tools/openai.ts - Prompts the context is added to
+ * @link src/routes/api/rest/v1/company/competitive-analysis/+server.ts - Analysis endpoint
+ */
+
+import db from '$lib/server/db';
+import type {
+	AnalysisContextSource,
+	AnalysisPromptContext,
+	EntityDetail,
+	EntityText,
+	EntityWebUrl
+} from '$lib/schemas/research';
+import type { EntityTypeTag } from '$lib/server/db/queries/type_ref';
+import { estimateTokenCount, getModelInputTokenLimit } from '$lib/utils/openaiApi';
+import { normalizeEntityName } from '$lib/utils/entityName';
+import { scoreResolutionCandidates } from './entityResolution';
+
+// Share of the model's input window used for context
+const contextBudgetRatio = 0.05;
+
+// Default cap on context tokens (LLM_CONTEXT_MAX_TOKENS)
+const defaultMaxContextTokens = 4000;
+
+// Sections that would get fewer tokens than this are left out rather than truncated
+const minSectionTokens = 50;
+
+/**
+ * Headings of the context sections, in prompt order
+ */
+const sectionHeadings = {
+	type_tag: 'Categories',
+	url: 'Known URLs',
+	entity_detail: 'Recorded metrics',
+	description_medium: 'Description',
+	scraped_website: 'Website text'
+} as const;
+
+export type AnalysisContextSourceName = keyof typeof sectionHeadings;
+
+/**
+ * Formatted data of one source
+ */
+export interface AnalysisContextSection {
+	source: AnalysisContextSourceName;
+	// Number of rows the text was built from
+	count: number;
+	text: string;
+}
+
+/**
+ * Token budget for the context of a model
+ *
+ * @param maxInputTokens The model's max_input_tokens
+ * @param maxContextTokens Upper bound regardless of the model
+ * @returns Context budget in tokens
+ */
+export function getContextTokenBudget(
+	maxInputTokens: number,
+	maxContextTokens: number = Number(process.env.LLM_CONTEXT_MAX_TOKENS) || defaultMaxContextTokens
+): number {
+	return Math.max(0, Math.min(Math.floor(maxInputTokens * contextBudgetRatio), maxContextTokens));
+}
+
+/**
+ * Cut text to about maxTokens, at a word boundary where possible
+ */
+function truncateToTokens(text: string, maxTokens: number): string {
+	const maxLength = maxTokens * 4 - 1;
+	if (text.length <= maxLength) return text;
+
+	const cut = text.slice(0, maxLength);
+	const lastSpace = cut.lastIndexOf(' ');
+	return `${lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/**
+ * Format context sections into a prompt under a token budget
+ *
+ * @param entity The resolved res_entity
+ * @param sections Sections in prompt order; empty sections are skipped
+ * @param budgetTokens Maximum estimated tokens of the prompt
+ * @returns Prompt and metadata, or null when no section fits
+ */
+export function formatAnalysisContext(
+	entity: { id: string; name: string },
+	sections: AnalysisContextSection[],
+	budgetTokens: number
+): AnalysisPromptContext | null {
+	const header = `Information about ${entity.name} from our research database. Use it to identify the company and prefer it over your own knowledge where they conflict; fill in anything it does not cover.`;
+	let remaining = budgetTokens - estimateTokenCount(header);
+	const parts = [header];
+	const sources: AnalysisContextSource[] = [];
+
+	for (const section of sections) {
+		const body = section.text.trim();
+		if (!body) continue;
+
+		// Sections are separated by a blank line
+		const heading = `\n\n## ${sectionHeadings[section.source]}\n`;
+		const available = remaining - estimateTokenCount(heading);
+		if (available < minSectionTokens) break;
+
+		const text = truncateToTokens(body, available);
+		const part = heading + text;
+		const tokens = estimateTokenCount(part);
+		parts.push(part);
+		sources.push({
+			source: section.source,
+			count: section.count,
+			tokens,
+			truncated: text !== body
+		});
+		remaining -= tokens;
+	}
+
+	if (sources.length === 0) return null;
+
+	const prompt = parts.join('');
+	return {
+		prompt,
+		meta: {
+			entity_id: entity.id,
+			entity_name: entity.name,
+			budget_tokens: budgetTokens,
+			tokens: estimateTokenCount(prompt),
+			sources
+		}
+	};
+}
+
+/**
+ * Format a detail value with its date and confidence
+ */
+function formatDetail(detail: EntityDetail): string {
+	const value = detail.discrete_value ?? detail.text_value;
+	const asOf = detail.as_of_date ? ` (as of ${String(detail.as_of_date).slice(0, 10)})` : '';
+	return `- ${detail.type_research_detail}: ${value}${asOf}, ${detail.data_confidence} confidence`;
+}
+
+/**
+ * Build the sections of an entity in prompt order
+ */
+function toContextSections(data: {
+	typeTags: EntityTypeTag[];
+	urls: EntityWebUrl[];
+	details: EntityDetail[];
+	descriptions: EntityText[];
+	websiteTexts: EntityText[];
+}): AnalysisContextSection[] {
+	const details = data.details.filter(
+		(detail) => detail.discrete_value != null || !!detail.text_value
+	);
+	const description = data.descriptions.find((text) => !!text.text?.trim());
+	const websiteText = data.websiteTexts.find((text) => !!text.text?.trim());
+
+	return [
+		{
+			source: 'type_tag',
+			count: data.typeTags.length,
+			text: data.typeTags.map((tag) => `- ${tag.type_category}: ${tag.type_name}`).join('\n')
+		},
+		{
+			source: 'url',
+			count: data.urls.length,
+			text: data.urls.map((url) => `- ${url.url_type}: ${url.url}`).join('\n')
+		},
+		{ source: 'entity_detail', count: details.length, text: details.map(formatDetail).join('\n') },
+		{ source: 'description_medium', count: description ? 1 : 0, text: description?.text ?? '' },
+		{ source: 'scraped_website', count: websiteText ? 1 : 0, text: websiteText?.text ?? '' }
+	];
+}
+
+/**
+ * Build the prompt context for an analysis from the database
+ *
+ * Only names that resolve unambiguously to a company are grounded: a wrong
+ * match would steer the model to the wrong company. Context is best effort;
+ * on a database error the analysis runs without it.
+ *
+ * @param companyName Name being analyzed
+ * @param options Model and provider of the analysis, for the token budget
+ * @returns Prompt context, or null when the name does not resolve or there is no data
+ */
+export async function buildAnalysisContext(
+	companyName: string,
+	options: { model?: string; provider?: string } = {}
+): Promise<AnalysisPromptContext | null> {
+	const name = companyName.trim();
+	if (!name) return null;
+
+	try {
+		const nameCandidates = await db.entityResolution.findNameCandidates([
+			{ raw: name, normalized: normalizeEntityName(name) }
+		]);
+		const resolution = scoreResolutionCandidates(name, nameCandidates, [], 'Company');
+		const match = resolution.candidates[0];
+		if (resolution.status !== 'matched' || !match) {
+			console.log(`[AnalysisContext] ${name} is ${resolution.status}; no context added`);
+			return null;
+		}
+
+		const [typeTags, urls, details, descriptions, websiteTexts] = await Promise.all([
+			db.typeRef.getEntityTypeData(match.id),
+			db.url.getCompanyRelatedUrls(match.id),
+			db.entityDetail.getByEntityId(match.id),
+			db.text.getByTextType(match.id, 'description_medium'),
+			db.text.getByTextType(match.id, 'scraped_website')
+		]);
+
+		const model = options.model || process.env.LLM_MODEL || 'chatgpt-4o-latest';
+		const budgetTokens = getContextTokenBudget(getModelInputTokenLimit(model, options.provider));
+
+		return formatAnalysisContext(
+			{ id: match.id, name: match.name },
+			toContextSections({ typeTags, urls, details, descriptions, websiteTexts }),
+			budgetTokens
+		);
+	} catch (error) {
+		console.error(`[AnalysisContext] Failed to build context for ${name}:`, error);
+		return null;
+	}
+}
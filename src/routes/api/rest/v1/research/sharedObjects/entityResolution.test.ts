@@ -0,0 +1,71 @@
+import { describe, test, expect } from 'vitest';
+import type { Entity } from '$lib/schemas/research';
+import type { EntityNameCandidate } from '$lib/server/db/queries/entity_resolution';
+import { scoreResolutionCandidates } from './entityResolution';
+
+function candidate(overrides: Partial<EntityNameCandidate>): EntityNameCandidate {
+	return {
+		input_index: 0,
+		id: '00000000-0000-0000-0000-000000000001',
+		slug: 'stripe',
+		name_brand: 'Stripe',
+		name_legal: null,
+		type_record: 'Company',
+		name_similarity: 1,
+		...overrides
+	};
+}
+
+describe('scoreResolutionCandidates', () => {
+	test('matches exact and normalized names', () => {
+		expect(scoreResolutionCandidates('stripe', [candidate({})], [])).toMatchObject({
+			status: 'matched',
+			score: 1,
+			match_type: 'exact',
+			needs_review: false
+		});
+		expect(
+			scoreResolutionCandidates('Stripe', [candidate({ name_brand: 'Stripe, Inc.' })], [])
+		).toMatchObject({ status: 'matched', score: 0.95, match_type: 'normalized' });
+	});
+
+	test('flags fuzzy matches for review and ignores weak ones', () => {
+		expect(
+			scoreResolutionCandidates('Stripe Payments', [candidate({ name_similarity: 0.7 })], [])
+		).toMatchObject({ status: 'matched', match_type: 'fuzzy', needs_review: true });
+		expect(
+			scoreResolutionCandidates('Stripe Payments', [candidate({ name_similarity: 0.4 })], [])
+		).toMatchObject({ status: 'unmatched', match_type: null });
+	});
+
+	test('marks close candidates as ambiguous', () => {
+		const resolution = scoreResolutionCandidates(
+			'Mercury',
+			[
+				candidate({ id: 'a', slug: 'mercury-bank', name_brand: 'Mercury' }),
+				candidate({ id: 'b', slug: 'mercury-insurance', name_brand: 'Mercury' })
+			],
+			[]
+		);
+		expect(resolution.status).toBe('ambiguous');
+		expect(resolution.needs_review).toBe(true);
+		expect(resolution.candidates.map((match) => match.id)).toEqual(['a', 'b']);
+	});
+
+	test('uses domain matches and prefers the expected type', () => {
+		const domainEntity = {
+			id: 'c',
+			slug: 'stripe-co',
+			name_brand: 'Stripe Co',
+			type_record: 'Company'
+		} as Entity;
+		const resolution = scoreResolutionCandidates(
+			'Stripe Checkout',
+			[candidate({ id: 'd', name_brand: 'Stripe Checkout', type_record: 'Product' })],
+			[domainEntity],
+			'Product'
+		);
+		expect(resolution).toMatchObject({ status: 'matched', match_type: 'exact' });
+		expect(resolution.candidates[1]).toMatchObject({ id: 'c', match_type: 'domain', score: 0.8 });
+	});
+});
@@ -0,0 +1,298 @@
+/**
+ * Entity Resolution
+ *
+ * Links products and competitors generated by the LLM analysis to existing
+ * res_entity rows. LLM output always has `id: null`; this step matches each
+ * name against res_entity brand and legal names (exact, with legal suffixes
+ * such as "Inc." or "GmbH" removed, and trigram-fuzzy) and against the
+ * registrable domain of any URLs the analysis provides, then attaches the
+ * id/slug of unambiguous matches together with the match score.
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_entity, res_web_url_new
+ * @link src/lib/server/db/queries/entity_resolution.ts - Name candidate query
+ * @link src/routes/api/rest/v1/company/competitive-analysis/+server.ts - Analysis endpoint
+ */
+
+import db from '$lib/server/db';
+import type { EntityNameCandidate } from '$lib/server/db/queries/entity_resolution';
+import { canonicalizeUrl } from '$lib/utils/urlCanonical.server';
+import { normalizeEntityName } from '$lib/utils/entityName';
+import type {
+	AnalysisData,
+	Entity,
+	EntityResolution,
+	EntityResolutionCandidate,
+	EntityUrl
+} from '$lib/schemas/research';
+
+// Scores per match type; fuzzy scores are the trigram similarity, capped
+const matchScores = {
+	exact: 1,
+	normalized: 0.95,
+	domain: 0.9,
+	fuzzyCap: 0.85
+};
+
+// Lowest trigram similarity considered a fuzzy match
+const minFuzzySimilarity = 0.5;
+
+// Lowest score for which id/slug are attached
+const minMatchScore = 0.6;
+
+// Top two candidates closer than this are ambiguous
+const ambiguityMargin = 0.05;
+
+// Deducted when the candidate's type_record differs from the expected one
+const typeMismatchPenalty = 0.1;
+
+// Candidates returned per resolution for review
+const maxCandidates = 5;
+
+/**
+ * Entity from the analysis to resolve
+ */
+interface ResolutionTarget {
+	name: string;
+	urls: EntityUrl[];
+	// type_record the entity is expected to have, or null if any type fits
+	expectedType: string | null;
+}
+
+/**
+ * Score name and domain candidates for one entity and decide the outcome
+ *
+ * A candidate matched in several ways keeps its best score. The result is
+ * ambiguous when the top two candidates score within ambiguityMargin of each
+ * other, and unmatched when the best score is below minMatchScore. Fuzzy
+ * matches are accepted but flagged for review.
+ *
+ * @param name Name generated by the LLM
+ * @param nameCandidates Rows from entityResolutionQueries.findNameCandidates for this name
+ * @param domainEntities Entities owning a URL on the same registrable domain
+ * @param expectedType type_record the entity should have, or null if any type fits
+ * @returns Resolution with candidates ordered by score
+ */
+export function scoreResolutionCandidates(
+	name: string,
+	nameCandidates: EntityNameCandidate[],
+	domainEntities: Entity[],
+	expectedType: string | null = null
+): EntityResolution {
+	const lowered = name.trim().toLowerCase();
+	const normalized = normalizeEntityName(name);
+	const byId = new Map<string, EntityResolutionCandidate>();
+
+	const consider = (candidate: EntityResolutionCandidate) => {
+		const score =
+			expectedType && candidate.type_record && candidate.type_record !== expectedType
+				? candidate.score - typeMismatchPenalty
+				: candidate.score;
+		const scored = { ...candidate, score: Math.round(score * 1000) / 1000 };
+		const existing = byId.get(scored.id);
+		if (!existing || scored.score > existing.score) {
+			byId.set(scored.id, scored);
+		}
+	};
+
+	for (const row of nameCandidates) {
+		const names = [row.name_brand, row.name_legal].filter((value): value is string => !!value);
+		const base = {
+			id: row.id,
+			slug: row.slug,
+			name: row.name_brand || row.name_legal || 'Unknown',
+			type_record: row.type_record
+		};
+
+		if (names.some((value) => value.trim().toLowerCase() === lowered)) {
+			consider({ ...base, score: matchScores.exact, match_type: 'exact' });
+		} else if (normalized && names.some((value) => normalizeEntityName(value) === normalized)) {
+			consider({ ...base, score: matchScores.normalized, match_type: 'normalized' });
+		} else if (row.name_similarity >= minFuzzySimilarity) {
+			consider({
+				...base,
+				score: Math.min(row.name_similarity, matchScores.fuzzyCap),
+				match_type: 'fuzzy'
+			});
+		}
+	}
+
+	for (const entity of domainEntities) {
+		if (!entity.id) continue;
+		consider({
+			id: entity.id,
+			slug: entity.slug ?? null,
+			name: entity.name_brand || entity.name_legal || 'Unknown',
+			type_record: entity.type_record ?? null,
+			score: matchScores.domain,
+			match_type: 'domain'
+		});
+	}
+
+	const candidates = [...byId.values()]
+		.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+		.slice(0, maxCandidates);
+	const [top, runnerUp] = candidates;
+
+	if (!top || top.score < minMatchScore) {
+		return {
+			status: 'unmatched',
+			score: top?.score ?? null,
+			match_type: null,
+			needs_review: false,
+			candidates
+		};
+	}
+
+	if (runnerUp && top.score - runnerUp.score < ambiguityMargin) {
+		return {
+			status: 'ambiguous',
+			score: top.score,
+			match_type: top.match_type,
+			needs_review: true,
+			candidates
+		};
+	}
+
+	return {
+		status: 'matched',
+		score: top.score,
+		match_type: top.match_type,
+		needs_review: top.match_type === 'fuzzy',
+		candidates
+	};
+}
+
+/**
+ * Find entities owning a URL on the registrable domain of each given URL
+ *
+ * @returns Map of registrable domain to the entities found for it
+ */
+async function findDomainEntities(urls: string[]): Promise<Map<string, Entity[]>> {
+	const canonicalByDomain = new Map(
+		urls
+			.map((url) => canonicalizeUrl(url))
+			.filter((canonical) => canonical !== null)
+			.map((canonical) => [canonical.domain, canonical])
+	);
+
+	const entityIdsByDomain = new Map<string, string[]>();
+	for (const [domain, canonical] of canonicalByDomain) {
+		const rows = await db.url.findByCanonicalUrl(canonical, 'domain');
+		entityIdsByDomain.set(domain, [
+			...new Set(rows.map((row) => row.entity_id).filter((id): id is string => !!id))
+		]);
+	}
+
+	const entities = await db.entity.getByIds([...entityIdsByDomain.values()].flat());
+	const entitiesById = new Map(entities.map((entity) => [entity.id, entity]));
+
+	return new Map(
+		[...entityIdsByDomain].map(([domain, ids]) => [
+			domain,
+			ids.map((id) => entitiesById.get(id)).filter((entity): entity is Entity => !!entity)
+		])
+	);
+}
+
+/**
+ * Resolve a set of analysis entities in one name query plus one URL query per domain
+ */
+async function resolveTargets(targets: ResolutionTarget[]): Promise<EntityResolution[]> {
+	const names = [...new Set(targets.map((target) => target.name).filter((name) => !!name))];
+	const nameIndex = new Map(names.map((name, index) => [name, index]));
+
+	const nameCandidates = await db.entityResolution.findNameCandidates(
+		names.map((name) => ({ raw: name, normalized: normalizeEntityName(name) }))
+	);
+	const domainEntities = await findDomainEntities(
+		targets.flatMap((target) => target.urls.map((url) => url.url))
+	);
+
+	return targets.map((target) => {
+		const index = nameIndex.get(target.name);
+		const domains = new Set(
+			target.urls.map((url) => canonicalizeUrl(url.url)?.domain).filter((domain) => !!domain)
+		);
+		return scoreResolutionCandidates(
+			target.name,
+			nameCandidates.filter((candidate) => candidate.input_index === index),
+			[...domains].flatMap((domain) => domainEntities.get(domain as string) ?? []),
+			target.expectedType
+		);
+	});
+}
+
+/**
+ * Attach res_entity matches to the products and competitors of an analysis
+ *
+ * Products are expected to be 'Product' records. Competitors may be either a
+ * product or a company, since the LLM often names the competing company; their
+ * company URLs are used for domain matching. Entities that already have an id
+ * keep it. Every product and competitor gets a `resolution` object, and the
+ * counts are added to `_meta.resolution`.
+ *
+ * Resolution is best effort: on a database error the analysis is returned
+ * unchanged.
+ *
+ * @param analysis Repaired analysis data
+ * @returns Analysis with id/slug set on matched entities
+ */
+export async function resolveAnalysisEntities(analysis: AnalysisData): Promise<AnalysisData> {
+	const products = analysis.entity.products ?? [];
+	const targets: ResolutionTarget[] = products.flatMap((product) => [
+		{ name: product.name_brand, urls: [], expectedType: 'Product' },
+		...(product.competitors ?? []).map((competitor) => ({
+			name: competitor.name_brand,
+			urls: competitor.company?.urls ?? [],
+			expectedType: null
+		}))
+	]);
+	if (targets.every((target) => !target.name?.trim())) {
+		return analysis;
+	}
+
+	let resolutions: EntityResolution[];
+	try {
+		resolutions = await resolveTargets(
+			targets.map((target) => ({ ...target, name: target.name?.trim() ?? '' }))
+		);
+	} catch (error) {
+		console.error('[EntityResolution] Failed to resolve analysis entities:', error);
+		return analysis;
+	}
+
+	let next = 0;
+	const apply = <T extends { id: string | null; slug?: string }>(item: T) => {
+		const resolution = resolutions[next++];
+		const match = resolution.status === 'matched' ? resolution.candidates[0] : null;
+		return {
+			...item,
+			id: item.id ?? match?.id ?? null,
+			slug: item.slug ?? match?.slug ?? undefined,
+			resolution
+		};
+	};
+
+	const resolvedProducts = products.map((product) => {
+		const resolved = apply(product);
+		return {
+			...resolved,
+			competitors: product.competitors?.map(apply)
+		};
+	});
+
+	return {
+		...analysis,
+		entity: { ...analysis.entity, products: resolvedProducts },
+		_meta: {
+			...analysis._meta,
+			resolution: {
+				matched: resolutions.filter((resolution) => resolution.status === 'matched').length,
+				ambiguous: resolutions.filter((resolution) => resolution.status === 'ambiguous').length,
+				unmatched: resolutions.filter((resolution) => resolution.status === 'unmatched').length
+			}
+		}
+	};
+}
@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'vitest';
+import type { EntityDetail } from '$lib/schemas/research';
+import { aggregateFinancialMetrics, parsePeriod } from './financialMetrics';
+
+function detail(overrides: Partial<EntityDetail>): EntityDetail {
+	return {
+		type_research_detail: 'employee_count_exact',
+		data_confidence: 'high',
+		source_type: 'company_filing',
+		...overrides
+	};
+}
+
+describe('parsePeriod', () => {
+	test('reads the period identifier after the source type prefix', () => {
+		expect(parsePeriod('sec_filing: annual-2023')).toEqual({
+			periodType: 'annual',
+			period: 'annual-2023'
+		});
+		expect(parsePeriod('analyst_estimate: quarterly-2024-Q1').periodType).toBe('quarterly');
+		expect(parsePeriod('press release')).toEqual({ periodType: 'custom', period: null });
+	});
+});
+
+describe('aggregateFinancialMetrics', () => {
+	test('returns no metrics for entities without numeric details', () => {
+		expect(aggregateFinancialMetrics([detail({ text_value: 'about 500' })])).toEqual({
+			asOfDate: null,
+			metrics: []
+		});
+	});
+
+	test('computes latest value, YoY growth and per-period series', () => {
+		const { metrics, asOfDate } = aggregateFinancialMetrics([
+			detail({
+				discrete_value: 1000,
+				source: 'sec_filing: annual-2022',
+				as_of_date: '2022-12-31T00:00:00.000Z'
+			}),
+			detail({
+				discrete_value: 1250,
+				source: 'sec_filing: annual-2023',
+				as_of_date: '2023-12-31T00:00:00.000Z',
+				data_confidence: 'verified'
+			}),
+			detail({
+				discrete_value: 1300,
+				source: 'news_article: quarterly-2024-Q1',
+				as_of_date: '2024-03-31T00:00:00.000Z',
+				data_confidence: 'medium',
+				source_type: 'news_article'
+			})
+		]);
+
+		expect(asOfDate).toBe('2024-03-31T00:00:00.000Z');
+		expect(metrics).toHaveLength(1);
+		expect(metrics[0].label).toBe('Employee Count (Exact)');
+		expect(metrics[0].latest).toMatchObject({
+			value: 1300,
+			periodType: 'quarterly',
+			data_confidence: 'medium',
+			source_type: 'news_article'
+		});
+		// No quarterly figure a year earlier to compare against
+		expect(metrics[0].yoyGrowth).toBeNull();
+		expect(metrics[0].series.annual?.map((figure) => figure.value)).toEqual([1000, 1250]);
+	});
+
+	test('keeps the most trustworthy figure when a period is reported twice', () => {
+		const { metrics } = aggregateFinancialMetrics([
+			detail({ discrete_value: 90, source: 'news_article: annual-2023', data_confidence: 'low' }),
+			detail({
+				discrete_value: 100,
+				source: 'sec_filing: annual-2023',
+				data_confidence: 'verified'
+			}),
+			detail({ discrete_value: 80, source: 'sec_filing: annual-2022', data_confidence: 'verified' })
+		]);
+
+		expect(metrics[0].series.annual?.map((figure) => figure.value)).toEqual([80, 100]);
+		expect(metrics[0].latest.value).toBe(100);
+		expect(metrics[0].yoyGrowth).toBe(25);
+	});
+});
@@ -0,0 +1,317 @@
+/**
+ * Financial Metrics
+ *
+ * Aggregates res_entity_detail rows into the FinancialMetrics shape rendered on the
+ * company page: the latest value per detail type, year-over-year growth and a
+ * per-period series for each period type.
+ *
+ * The reporting period is read from the source column, formatted as
+ * "source_type: period-identifier" (e.g. "sec_filing: annual-2023"). Details
+ * without a period identifier are grouped under the 'custom' period type.
+ *
+ * Every figure carries its data_confidence and source_type so the UI never shows a
+ * number without its provenance. Nothing here fabricates values: metrics without
+ * discrete values are simply absent.
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_entity_detail
+ * @link ../company/[id]/financials/+server.ts Financials endpoint
+ * @link ../../../../../companies/[slug]/components/Financials/Financials.svelte Financials tab
+ * @link $lib/schemas/research/detail_enums.schema.ts - Detail types, confidence and period types
+ */
+
+import {
+	dataConfidence,
+	periodTypes,
+	researchDetailTypes,
+	type DataConfidence,
+	type EntityDetail,
+	type PeriodType,
+	type SourceType,
+	type TypeResearchDetail
+} from '$lib/schemas/research';
+
+/**
+ * Unit a detail type is expressed in
+ * percent values are stored on a 0-100 scale
+ */
+export type FinancialMetricUnit = 'percent' | 'usd' | 'count' | 'months';
+
+/**
+ * Single value of a metric for one reporting period
+ */
+export interface FinancialFigure {
+	value: number;
+	// Period identifier from the source column (e.g. "quarterly-2024-Q1")
+	period: string | null;
+	periodType: PeriodType;
+	asOfDate: string | null;
+	data_confidence: DataConfidence;
+	source_type: SourceType;
+	source: string | null;
+	sourceUrl: string | null;
+}
+
+/**
+ * All values of one detail type
+ */
+export interface FinancialMetricSeries {
+	type: TypeResearchDetail;
+	label: string;
+	unit: FinancialMetricUnit;
+	latest: FinancialFigure;
+	// Percent change against the same period one year earlier; null when not comparable
+	yoyGrowth: number | null;
+	// Figures per period type, oldest first
+	series: Partial<Record<PeriodType, FinancialFigure[]>>;
+}
+
+/**
+ * Aggregated financial metrics for one entity
+ */
+export interface FinancialMetrics {
+	// Most recent as_of_date across all metrics
+	asOfDate: string | null;
+	metrics: FinancialMetricSeries[];
+}
+
+// Acceptable distance, in days, between a figure and its prior-year comparison
+const yoyWindowDays = { min: 335, max: 395 };
+const dayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the unit a detail type is expressed in
+ *
+ * @param type Research detail type
+ * @returns Unit for formatting
+ */
+export function getFinancialMetricUnit(type: TypeResearchDetail): FinancialMetricUnit {
+	switch (type) {
+		case 'market_share_min':
+		case 'market_share_max':
+		case 'market_share_exact':
+		case 'market_share_estimate':
+		case 'churn_rate_estimate':
+		case 'market_growth_rate':
+			return 'percent';
+		case 'market_size_usd':
+		case 'arpu_estimate':
+		case 'cac_estimate':
+		case 'ltv_estimate':
+			return 'usd';
+		case 'runway_months_estimate':
+			return 'months';
+		default:
+			return 'count';
+	}
+}
+
+/**
+ * Human-readable label for a detail type
+ * e.g. "employee_count_estimate" → "Employee Count (Estimate)", "arpu_estimate" → "ARPU (Estimate)"
+ *
+ * @param type Research detail type
+ * @returns Display label
+ */
+export function getFinancialMetricLabel(type: TypeResearchDetail): string {
+	const qualifiers = ['min', 'max', 'exact', 'estimate', 'usd'];
+	const acronyms = ['arpu', 'cac', 'ltv', 'usd'];
+	const format = (word: string) =>
+		acronyms.includes(word) ? word.toUpperCase() : word.charAt(0).toUpperCase() + word.slice(1);
+
+	const words = type.split('_');
+	const last = words[words.length - 1];
+	if (words.length > 1 && qualifiers.includes(last)) {
+		return `${words.slice(0, -1).map(format).join(' ')} (${format(last)})`;
+	}
+	return words.map(format).join(' ');
+}
+
+/**
+ * Parse the reporting period from a detail's source column
+ *
+ * @param source Source column value, e.g. "analyst_estimate: quarterly-2024-Q1"
+ * @returns Period type and identifier; 'custom' with no identifier when absent
+ */
+export function parsePeriod(source: string | null | undefined): {
+	periodType: PeriodType;
+	period: string | null;
+} {
+	const separator = source ? source.indexOf(':') : -1;
+	const period = source && separator >= 0 ? source.slice(separator + 1).trim() : '';
+	if (!period) {
+		return { periodType: 'custom', period: null };
+	}
+
+	const prefix = period.split('-')[0].toLowerCase();
+	const periodType = (periodTypes as readonly string[]).includes(prefix)
+		? (prefix as PeriodType)
+		: 'custom';
+	return { periodType, period };
+}
+
+/**
+ * Normalize an as_of_date value (Date from the driver or ISO string) to ISO
+ */
+function toIsoDate(value: unknown): string | null {
+	if (!value) return null;
+	const date = value instanceof Date ? value : new Date(String(value));
+	return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function timeOf(figure: FinancialFigure): number {
+	return figure.asOfDate ? new Date(figure.asOfDate).getTime() : Number.NEGATIVE_INFINITY;
+}
+
+// Order by as_of_date, then by period identifier for undated figures (annual-2022 < annual-2023)
+function compareChronologically(a: FinancialFigure, b: FinancialFigure): number {
+	const byTime = timeOf(a) - timeOf(b);
+	if (byTime !== 0 && !Number.isNaN(byTime)) return byTime;
+	return (a.period ?? '').localeCompare(b.period ?? '');
+}
+
+// Higher is more trustworthy; dataConfidence is ordered from verified to speculative
+function confidenceRank(confidence: DataConfidence): number {
+	return dataConfidence.length - dataConfidence.indexOf(confidence);
+}
+
+/**
+ * Convert a detail row to a figure, skipping rows without a numeric value
+ */
+function toFigure(detail: EntityDetail): FinancialFigure | null {
+	// Postgres numeric columns arrive as strings
+	const value = Number(detail.discrete_value);
+	if (detail.discrete_value === undefined || detail.discrete_value === null || !isFinite(value)) {
+		return null;
+	}
+
+	return {
+		value,
+		...parsePeriod(detail.source),
+		asOfDate: toIsoDate(detail.as_of_date),
+		data_confidence: detail.data_confidence,
+		source_type: detail.source_type,
+		source: detail.source ?? null,
+		sourceUrl: detail.source_url ?? null
+	};
+}
+
+/**
+ * Find the figure one year before the given figure
+ *
+ * Matches the period identifier with its year decremented first (annual-2023 →
+ * annual-2022, quarterly-2024-Q1 → quarterly-2023-Q1), then falls back to the
+ * closest as_of_date roughly a year earlier.
+ */
+function findPriorYear(
+	figure: FinancialFigure,
+	candidates: FinancialFigure[]
+): FinancialFigure | null {
+	if (figure.period) {
+		const priorPeriod = figure.period.replace(/\d{4}/, (year) => String(Number(year) - 1));
+		if (priorPeriod !== figure.period) {
+			const match = candidates.find((candidate) => candidate.period === priorPeriod);
+			if (match) return match;
+		}
+	}
+
+	if (!figure.asOfDate) return null;
+
+	const time = timeOf(figure);
+	let best: FinancialFigure | null = null;
+	let bestDistance = Number.POSITIVE_INFINITY;
+	for (const candidate of candidates) {
+		const days = (time - timeOf(candidate)) / dayMs;
+		if (days < yoyWindowDays.min || days > yoyWindowDays.max) continue;
+		const distance = Math.abs(days - 365);
+		if (distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
+
+/**
+ * Percent change between two values, rounded to two decimals
+ */
+function percentChange(current: number, previous: number): number | null {
+	if (previous === 0) return null;
+	return Math.round(((current - previous) / Math.abs(previous)) * 10000) / 100;
+}
+
+/**
+ * Aggregate one detail type into a series
+ */
+function aggregateType(
+	type: TypeResearchDetail,
+	figures: FinancialFigure[]
+): FinancialMetricSeries {
+	// Keep one figure per period: the most trustworthy, then the most recent
+	const byPeriod = new Map<string, FinancialFigure>();
+	for (const figure of figures) {
+		const key = `${figure.periodType}|${figure.period ?? figure.asOfDate ?? ''}`;
+		const existing = byPeriod.get(key);
+		if (
+			!existing ||
+			confidenceRank(figure.data_confidence) > confidenceRank(existing.data_confidence) ||
+			(figure.data_confidence === existing.data_confidence && timeOf(figure) > timeOf(existing))
+		) {
+			byPeriod.set(key, figure);
+		}
+	}
+
+	const unique = [...byPeriod.values()].sort(compareChronologically);
+
+	const series: Partial<Record<PeriodType, FinancialFigure[]>> = {};
+	for (const figure of unique) {
+		(series[figure.periodType] ??= []).push(figure);
+	}
+
+	const latest = unique[unique.length - 1];
+	const prior = findPriorYear(
+		latest,
+		(series[latest.periodType] ?? []).filter((figure) => figure !== latest)
+	);
+
+	return {
+		type,
+		label: getFinancialMetricLabel(type),
+		unit: getFinancialMetricUnit(type),
+		latest,
+		yoyGrowth: prior ? percentChange(latest.value, prior.value) : null,
+		series
+	};
+}
+
+/**
+ * Aggregate an entity's detail rows into financial metrics
+ *
+ * @param details Detail rows for a single entity
+ * @returns Metrics for every detail type with at least one numeric value, in enum order
+ */
+export function aggregateFinancialMetrics(details: EntityDetail[]): FinancialMetrics {
+	const figuresByType = new Map<TypeResearchDetail, FinancialFigure[]>();
+	for (const detail of details) {
+		const figure = toFigure(detail);
+		if (!figure) continue;
+		const figures = figuresByType.get(detail.type_research_detail) ?? [];
+		figures.push(figure);
+		figuresByType.set(detail.type_research_detail, figures);
+	}
+
+	const metrics = researchDetailTypes
+		.filter((type) => figuresByType.has(type))
+		.map((type) => aggregateType(type, figuresByType.get(type) ?? []));
+
+	const latestDates = metrics
+		.map((metric) => metric.latest.asOfDate)
+		.filter((date): date is string => date !== null)
+		.sort();
+
+	return {
+		asOfDate: latestDates[latestDates.length - 1] ?? null,
+		metrics
+	};
+}
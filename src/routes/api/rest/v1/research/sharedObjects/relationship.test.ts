@@ -0,0 +1,73 @@
+import { describe, test, expect, vi } from 'vitest';
+import type { EntityRelationshipRow } from '$lib/server/db/queries/relationship';
+import { buildRelationshipGraph } from './relationship';
+
+const rows: EntityRelationshipRow[] = [];
+
+vi.mock('$lib/server/db', () => ({
+	default: {
+		relationship: {
+			getByEntityIds: async (entityIds: readonly string[]) =>
+				rows.filter((row) => entityIds.includes(row.entity_id))
+		}
+	}
+}));
+
+/**
+ * Relationship row from an entity to a counterpart
+ */
+function relationship(
+	id: number,
+	entityId: string,
+	counterpartId: string,
+	direction: EntityRelationshipRow['direction'] = 'outgoing'
+): EntityRelationshipRow {
+	return {
+		id,
+		relationship_type: 'Competitor',
+		is_current: true,
+		source_id: null,
+		entity_id: entityId,
+		direction,
+		counterpart_id: counterpartId,
+		counterpart_name_brand: counterpartId.toUpperCase(),
+		counterpart_name_legal: null,
+		counterpart_slug: counterpartId,
+		counterpart_file_logo_square: null,
+		counterpart_type_record: 'Company'
+	};
+}
+
+const root = {
+	id: 'root',
+	name: 'Root',
+	slug: 'root',
+	logoUrl: null,
+	type_record: 'Company',
+	depth: 0
+};
+
+describe('buildRelationshipGraph', () => {
+	test('drops edges to entities beyond the node cap', async () => {
+		rows.splice(
+			0,
+			rows.length,
+			relationship(1, 'root', 'a'),
+			relationship(2, 'root', 'b', 'incoming'),
+			relationship(3, 'root', 'c'),
+			relationship(4, 'root', 'd'),
+			relationship(5, 'root', 'a', 'incoming'),
+			relationship(6, 'a', 'b')
+		);
+
+		const graph = await buildRelationshipGraph(root, { depth: 2, maxNodes: 3 });
+		const nodeIds = new Set(graph.nodes.map((node) => node.id));
+
+		expect(graph.truncated).toBe(true);
+		expect([...nodeIds]).toEqual(['root', 'a', 'b']);
+		expect(graph.edges.map((edge) => edge.id)).toEqual([1, 2, 5]);
+		for (const edge of graph.edges) {
+			expect(nodeIds.has(edge.source) && nodeIds.has(edge.target)).toBe(true);
+		}
+	});
+});
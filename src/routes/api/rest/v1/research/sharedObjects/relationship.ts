@@ -0,0 +1,184 @@
+/**
+ * Entity Relationships
+ *
+ * Shapes relationship rows from res_entity_relationship into the related-entity
+ * objects returned by research API endpoints.
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_entity_relationship, res_entity
+ * @link ../company/[id]/relationships/+server.ts Relationships endpoint
+ * @link ../company/objects/companyResponse.ts Acquirers and subsidiaries in the company response
+ * @link ../company/[id]/network/+server.ts Relationship graph endpoint
+ * @link $lib/schemas/research/relationship.schema.ts - Source of truth schema
+ */
+
+import db from '$lib/server/db';
+import {
+	getRelationshipRole,
+	type EntityRelationshipRow,
+	type RelationshipDirection,
+	type RelationshipRole
+} from '$lib/server/db/queries/relationship';
+import type { RelationshipType } from '$lib/schemas/research';
+
+/**
+ * Related entity as returned by the API
+ */
+export interface RelatedEntity {
+	relationship_id: number;
+	relationship_type: RelationshipType;
+	direction: RelationshipDirection;
+	// Role the counterpart plays for the subject entity (e.g. "acquirer")
+	role: RelationshipRole;
+	is_current: boolean | null;
+	source_id: string | null;
+	entity: {
+		id: string;
+		name: string;
+		slug: string | null;
+		logoUrl: string | null;
+		type_record: string | null;
+	};
+}
+
+/**
+ * Convert a relationship row to the API shape
+ *
+ * @param row Relationship row with counterpart columns
+ * @returns Related entity with direction and counterpart role
+ */
+export function toRelatedEntity(row: EntityRelationshipRow): RelatedEntity {
+	return {
+		relationship_id: row.id,
+		relationship_type: row.relationship_type,
+		direction: row.direction,
+		role: getRelationshipRole(row.relationship_type, row.direction),
+		is_current: row.is_current,
+		source_id: row.source_id,
+		entity: {
+			id: row.counterpart_id,
+			name: row.counterpart_name_brand || (row.counterpart_name_legal ?? 'Unknown'),
+			slug: row.counterpart_slug,
+			logoUrl: row.counterpart_file_logo_square,
+			type_record: row.counterpart_type_record
+		}
+	};
+}
+
+/**
+ * Split an entity's relationships into corporate-structure groups
+ *
+ * Acquirers are companies that acquired the subject; subsidiaries are its
+ * divisions and the companies it acquired.
+ *
+ * @param rows Relationship rows for a single subject entity
+ * @returns Acquirers and subsidiaries
+ */
+export function getCorporateStructure(rows: EntityRelationshipRow[]): {
+	acquirers: RelatedEntity[];
+	subsidiaries: RelatedEntity[];
+} {
+	const related = rows.map(toRelatedEntity);
+	return {
+		acquirers: related.filter((item) => item.role === 'acquirer'),
+		subsidiaries: related.filter((item) => item.role === 'division' || item.role === 'acquiree')
+	};
+}
+
+/**
+ * Node in a relationship graph
+ */
+export interface RelationshipGraphNode {
+	id: string;
+	name: string;
+	slug: string | null;
+	logoUrl: string | null;
+	type_record: string | null;
+	// Hops from the root entity
+	depth: number;
+}
+
+/**
+ * Edge in a relationship graph, always pointing from entity1 to entity2
+ */
+export interface RelationshipGraphEdge {
+	id: number;
+	source: string;
+	target: string;
+	relationship_type: RelationshipType;
+}
+
+/**
+ * Options for walking the relationship graph
+ */
+export interface RelationshipGraphOptions {
+	depth: number;
+	relationshipTypes?: RelationshipType[] | null;
+	// Stop expanding once this many nodes have been collected
+	maxNodes: number;
+}
+
+/**
+ * Walk res_entity_relationship breadth-first from a root entity
+ *
+ * Each level is fetched with one set-based query. Entities already visited are
+ * never expanded again, so cycles (A competes with B competes with A) terminate.
+ *
+ * @param root Root entity
+ * @param options Maximum depth, relationship types and node cap
+ * @returns Nodes, edges between them and whether the walk stopped at the node cap
+ */
+export async function buildRelationshipGraph(
+	root: RelationshipGraphNode,
+	options: RelationshipGraphOptions
+): Promise<{
+	nodes: RelationshipGraphNode[];
+	edges: RelationshipGraphEdge[];
+	truncated: boolean;
+}> {
+	const nodes = new Map<string, RelationshipGraphNode>([[root.id, { ...root, depth: 0 }]]);
+	const edges = new Map<number, RelationshipGraphEdge>();
+	let frontier = [root.id];
+	let truncated = false;
+
+	for (let depth = 1; depth <= options.depth && frontier.length > 0 && !truncated; depth++) {
+		const rows = await db.relationship.getByEntityIds(frontier, {
+			relationshipTypes: options.relationshipTypes
+		});
+		const nextFrontier: string[] = [];
+
+		for (const row of rows) {
+			if (!nodes.has(row.counterpart_id)) {
+				if (nodes.size >= options.maxNodes) {
+					truncated = true;
+				} else {
+					nodes.set(row.counterpart_id, {
+						id: row.counterpart_id,
+						name: row.counterpart_name_brand || (row.counterpart_name_legal ?? 'Unknown'),
+						slug: row.counterpart_slug,
+						logoUrl: row.counterpart_file_logo_square,
+						type_record: row.counterpart_type_record,
+						depth
+					});
+					nextFrontier.push(row.counterpart_id);
+				}
+			}
+
+			// Only link entities in the graph, so a truncated walk has no dangling edges
+			if (!edges.has(row.id) && nodes.has(row.entity_id) && nodes.has(row.counterpart_id)) {
+				const outgoing = row.direction === 'outgoing';
+				edges.set(row.id, {
+					id: row.id,
+					source: outgoing ? row.entity_id : row.counterpart_id,
+					target: outgoing ? row.counterpart_id : row.entity_id,
+					relationship_type: row.relationship_type
+				});
+			}
+		}
+
+		frontier = nextFrontier;
+	}
+
+	return { nodes: [...nodes.values()], edges: [...edges.values()], truncated };
+}
@@ -28,3 +28,13 @@ export async function getEntityTextData(entityId: string): Promise<EntityText[]>
 	// Use our textQueries to fetch data consistently with proper typing
 	return db.text.getEntityTextData(entityId);
 }
+
+/**
+ * Retrieves text data for many entities with one query
+ *
+ * @param entityIds UUIDs of the entities to retrieve text for
+ * @returns Text records for all entities; group by entity_id
+ */
+export async function getEntitiesTextData(entityIds: string[]): Promise<EntityText[]> {
+	return db.text.getEntityTextDataByEntityIds(entityIds);
+}
@@ -34,6 +34,18 @@ export async function getEntityTypeData(entityId: string): Promise<EntityTypeTag
 	return db.typeRef.getEntityTypeData(entityId);
 }
 
+/**
+ * Get entity type data for many entities with one query
+ *
+ * @param entityIds - The IDs of the entities to fetch types for
+ * @returns Type tag rows tagged with entity_id
+ */
+export async function getEntitiesTypeData(
+	entityIds: string[]
+): Promise<(EntityTypeTag & { entity_id: string })[]> {
+	return db.typeRef.getEntityTypeDataByEntityIds(entityIds);
+}
+
 /**
  * Transform entity type data into a categorized structure
  *
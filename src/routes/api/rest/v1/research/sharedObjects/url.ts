@@ -56,3 +56,21 @@ export async function getCompanyRelatedUrls(entityId: string): Promise<RelatedUr
 		source: null // but required in the response interface
 	}));
 }
+
+/**
+ * Get related URLs for many entities with one query
+ *
+ * Set-based counterpart of getCompanyRelatedUrls used by batch endpoints.
+ *
+ * @param entityIds - The IDs of the entities to fetch URLs for
+ * @returns Related URL data for all entities; group by entity_id
+ */
+export async function getCompaniesRelatedUrls(entityIds: string[]): Promise<RelatedUrl[]> {
+	const rawUrls = await db.url.getRelatedUrlsByEntityIds(entityIds);
+
+	return rawUrls.map((url: EntityWebUrl) => ({
+		...url,
+		title: null,
+		source: null
+	}));
+}
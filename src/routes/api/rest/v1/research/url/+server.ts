@@ -1,14 +1,58 @@
 import db from '$lib/server/db';
 import type { RequestEvent } from '@sveltejs/kit';
 import { apiHandler, errorResponse, successResponse } from '$lib/server/api/utils';
-import type { EntityWebUrl } from '$lib/schemas/research';
-import { sql } from '$lib/database/sql.server';
+import type { Entity } from '$lib/schemas/research';
+import type { CanonicalEntityWebUrl } from '$lib/server/db/queries/url';
+import {
+	canonicalizeUrl,
+	urlMatchModes,
+	type CanonicalUrl,
+	type UrlMatchMode
+} from '$lib/utils/urlCanonical.server';
+
+/**
+ * How closely a stored URL matches the requested one
+ * exact: same host and path; host: same host; domain: same registrable domain
+ */
+type MatchQuality = UrlMatchMode;
+
+// Relative confidence of each match quality, exposed as matchScore
+const matchScores: Record<MatchQuality, number> = {
+	exact: 1,
+	host: 0.8,
+	domain: 0.5
+};
+
+/**
+ * Classify how a stored URL matches the canonical input
+ */
+function getMatchQuality(row: CanonicalEntityWebUrl, canonical: CanonicalUrl): MatchQuality {
+	const unicodeUrl = `${canonical.unicodeHost}${canonical.path}`;
+	if (row.canonical_url === canonical.url || row.canonical_url === unicodeUrl) return 'exact';
+	if (row.canonical_host === canonical.host || row.canonical_host === canonical.unicodeHost) {
+		return 'host';
+	}
+	return 'domain';
+}
 
 /**
  * API endpoint to fetch url data and related companies from the research database
  *
+ * Both the requested URL and stored URLs are canonicalized before comparison, so
+ * `https://www.stripe.com/`, `stripe.com` and `HTTP://Stripe.com?ref=x` are equivalent.
+ * Each URL row and related company carries a matchQuality and matchScore; results are
+ * ordered best match first.
+ *
+ * @database PostgreSQL
+ * @schema research
+ * @tables res_web_url_new (main), res_entity
+ * @link src/lib/utils/urlCanonical.server.ts - URL canonicalization rules
+ * @link src/lib/server/db/queries/url.ts - findByCanonicalUrl query
+ *
  * @route GET /api/rest/v1/research/url
- * @query url - URL to look up
+ * @query url - URL or bare domain to look up
+ * @query mode - exact (same host and path, default), host (same host, any path) or
+ *               domain (any host under the same registrable domain)
  * @query pretty - Set to "false" to disable pretty-formatted JSON (enabled by default)
  * @returns URL data and related companies JSON object
  *
@@ -16,6 +60,9 @@ import { sql } from '$lib/database/sql.server';
  * // Fetch by URL
  * GET /api/rest/v1/research/url?url=https://example.com
  *
+ * // Resolve any page on a company's site, including subdomains
+ * GET /api/rest/v1/research/url?url=https://dashboard.stripe.com/login&mode=domain
+ *
  * // Debug mode
  * GET /api/rest/v1/research/url?url=https://example.com&debug=true
  *
@@ -36,11 +83,35 @@ export const GET = apiHandler(async (event: RequestEvent) => {
 		);
 	}
 
-	// Fetch the URL data using direct SQL for flexibility
-	const urlResult = (await sql`
-		SELECT * FROM research.res_web_url_new
-		WHERE url = ${urlParam}
-	`) as EntityWebUrl[];
+	const mode = (url.searchParams.get('mode') || 'exact') as UrlMatchMode;
+	if (!urlMatchModes.includes(mode)) {
+		return errorResponse(
+			`Invalid mode. Must be one of: ${urlMatchModes.join(', ')}`,
+			400,
+			undefined,
+			'/api/rest/v1/research/url?url=https://example.com&mode=host',
+			event
+		);
+	}
+
+	const canonical = canonicalizeUrl(urlParam);
+	if (!canonical) {
+		return errorResponse(
+			'Invalid URL. Provide an http(s) URL or a bare domain.',
+			400,
+			undefined,
+			'/api/rest/v1/research/url?url=example.com',
+			event
+		);
+	}
+
+	// Fetch matching URLs and rank them by match quality
+	const urlResult = (await db.url.findByCanonicalUrl(canonical, mode))
+		.map((row) => {
+			const matchQuality = getMatchQuality(row, canonical);
+			return { ...row, matchQuality, matchScore: matchScores[matchQuality] };
+		})
+		.sort((a, b) => b.matchScore - a.matchScore);
 
 	// If no URL found, return early
 	if (!urlResult || urlResult.length === 0) {
@@ -53,30 +124,35 @@ export const GET = apiHandler(async (event: RequestEvent) => {
 		);
 	}
 
-	// Get all company IDs related to this URL
-	const companyIds = urlResult
-		.filter((url: EntityWebUrl) => url.entity_id !== null)
-		.map((url: EntityWebUrl) => url.entity_id);
-
-	// If there are any company IDs, fetch the company data
-	const companies = [];
-	if (companyIds.length > 0) {
-		// Fetch companies with those IDs
-		// Note: This is a simplified approach; in a real app with many IDs,
-		// you might want to use an "IN" clause with pagination
-		for (const companyId of companyIds) {
-			// Get company entity data by ID using our entity queries
-			const companyResult = await db.entity.getById(companyId as string);
-
-			if (companyResult) {
-				companies.push(companyResult);
-			}
+	// Get all company IDs related to this URL, keeping the best match quality per company
+	const companyMatches = new Map<string, MatchQuality>();
+	for (const row of urlResult) {
+		if (row.entity_id && !companyMatches.has(row.entity_id)) {
+			companyMatches.set(row.entity_id, row.matchQuality);
 		}
 	}
+	const companyIds = [...companyMatches.keys()];
+
+	// Fetch all related companies in a single batched query
+	const companyRows = await event.locals.loaders.entity.loadMany(companyIds);
+	const companies = companyRows
+		.filter((company): company is Entity => company !== null)
+		.map((company) => {
+			const matchQuality = companyMatches.get(company.id as string) as MatchQuality;
+			return { ...company, matchQuality, matchScore: matchScores[matchQuality] };
+		});
 
 	// Return both URL and company data
 	return successResponse(
 		{
+			query: {
+				url: urlParam,
+				canonicalUrl: canonical.url,
+				host: canonical.host,
+				domain: canonical.domain,
+				mode
+			},
+			matchQuality: urlResult[0].matchQuality,
 			url: urlResult,
 			relatedCompanies: companies
 		},
@@ -9,13 +9,12 @@
  */
 import type { LoadEvent } from '@sveltejs/kit';
 import { error } from '@sveltejs/kit';
-import type { EnhancedCompanyData } from './types';
+import type { EnhancedCompanyData, FinancialMetrics } from './types';
 import {
 	mockMarketPositionData,
 	mockClassificationData,
 	mockLeadershipData,
 	mockGlobalPresenceData,
-	mockFinancialMetricsData,
 	mockProductsData,
 	mockSwotAnalysisData,
 	mockPortersFiveForces,
@@ -46,6 +45,8 @@ export const load = async ({ params, fetch, setHeaders, url }: LoadEvent) => {
 			throw error(404, 'Company not found');
 		}
 
+		const financialMetrics = await loadFinancialMetrics(fetch, companyData.id);
+
 		// DEBUG: Log the raw API response to check for logoUrl
 		console.log(
 			'DEBUG: Raw API company data',
@@ -64,6 +65,7 @@ export const load = async ({ params, fetch, setHeaders, url }: LoadEvent) => {
 		);
 
 		// Enhance with mock data for UI components not yet in API
+		// (financial metrics come from res_entity_detail, never from mock data)
 		const enhancedData: EnhancedCompanyData = {
 			...companyData,
 			// Map API fields to expected fields if needed
@@ -81,7 +83,7 @@ export const load = async ({ params, fetch, setHeaders, url }: LoadEvent) => {
 			globalPresence: mockGlobalPresenceData(companyData),
 
 			// Additional tab data
-			financialMetrics: mockFinancialMetricsData(companyData),
+			financialMetrics,
 			products: mockProductsData(companyData),
 			analysis: {
 				swot: mockSwotAnalysisData(companyData),
@@ -123,3 +125,29 @@ export const load = async ({ params, fetch, setHeaders, url }: LoadEvent) => {
 		throw error(404, 'Company not found');
 	}
 };
+
+/**
+ * Fetch aggregated financial metrics for the company
+ *
+ * A failure here should not take down the whole page, so it degrades to an empty
+ * metrics list and the Financials tab renders its "no data" state.
+ */
+async function loadFinancialMetrics(
+	fetch: LoadEvent['fetch'],
+	companyId: string
+): Promise<FinancialMetrics> {
+	try {
+		const response = await fetch(`/api/rest/v1/research/company/${companyId}/financials`);
+		if (!response.ok) {
+			throw new Error(`Financials request failed with status ${response.status}`);
+		}
+		const json = await response.json();
+		return {
+			asOfDate: json.data.asOfDate,
+			metrics: json.data.metrics
+		};
+	} catch (err) {
+		console.error('Error loading financial metrics:', err);
+		return { asOfDate: null, metrics: [] };
+	}
+}
@@ -19,8 +19,6 @@ export function mockMarketPositionData(_company: CompanyData) {
 	// const seed = company.name || company.nameLegal || '';
 
 	return {
-		marketCap: '$144.2B',
-		marketCapValue: 144200000000,
 		valueToSales: 8.0,
 		valueToSalesVsSector: '+33%',
 		growthRate: 26,
@@ -130,44 +128,6 @@ export function mockGlobalPresenceData(_company: CompanyData) {
 	};
 }
 
-/**
- * Generates mock financial metrics data
- */
-export function mockFinancialMetricsData(_company: CompanyData) {
-	return {
-		revenue: {
-			current: '$34.3B',
-			value: 34300000000,
-			growth: '+17.8%',
-			history: [28.2, 30.5, 32.1, 34.3] // In billions
-		},
-		profitMargin: {
-			current: '12%',
-			value: 12,
-			growth: '+2.5%',
-			history: [8.5, 9.2, 10.8, 12.0] // Percentages
-		},
-		operatingIncome: {
-			current: '$5.1B',
-			value: 5100000000,
-			growth: '+22.3%',
-			history: [3.2, 3.8, 4.2, 5.1] // In billions
-		},
-		cashFlow: {
-			current: '$8.2B',
-			value: 8200000000,
-			growth: '+15.7%',
-			history: [6.1, 6.8, 7.5, 8.2] // In billions
-		},
-		geographicRevenue: {
-			northAmerica: 58,
-			europe: 22,
-			asiaPacific: 15,
-			latinAmerica: 5
-		}
-	};
-}
-
 /**
  * Generates mock products data
  */
@@ -2,6 +2,8 @@
  * TypeScript type definitions for the company detail page
  */
 
+import type { FinancialMetrics } from '../../api/rest/v1/research/sharedObjects/financialMetrics';
+
 /**
  * Base company data from the API
  */
@@ -57,8 +59,6 @@ export interface RelatedUrl {
  * Market position data
  */
 export interface MarketPosition {
-	marketCap: string;
-	marketCapValue: number;
 	valueToSales: number;
 	valueToSalesVsSector: string;
 	growthRate: number;
@@ -123,30 +123,14 @@ export interface Office {
 }
 
 /**
- * Financial metrics data
+ * Financial metrics data, aggregated server-side from res_entity_detail
  */
-export interface FinancialMetrics {
-	marketCap?: number;
-	revenue?: number;
-	profitMargin?: number;
-	yoyGrowth?: number;
-	revenueByRegion?: {
-		region: string;
-		percentage: number;
-	}[];
-	keyRatios?: {
-		name: string;
-		value: number;
-	}[];
-	financialStatements?: {
-		years: string[];
-		revenue: number[];
-		grossProfit: number[];
-		operatingIncome: number[];
-		netIncome: number[];
-	};
-}
-
+export type {
+	FinancialFigure,
+	FinancialMetricSeries,
+	FinancialMetrics,
+	FinancialMetricUnit
+} from '../../api/rest/v1/research/sharedObjects/financialMetrics';
 /**
  * Products data
  */
@@ -166,6 +150,13 @@ export interface Competitor {
 	name: string;
 	marketShare: number;
 	primaryCompetition: string;
+	// Existing res_entity the competitor was resolved to, if any
+	slug?: string | null;
+	matchScore?: number | null;
+	needsReview?: boolean;
+	// Models of a consensus analysis that proposed the competitor, and how many were asked
+	proposedBy?: string[];
+	modelCount?: number;
 }
 
 /**
@@ -8,6 +8,7 @@ declare global {
 			user: import('$lib/server/auth').SessionValidationResult['user'];
 			session: import('$lib/server/auth').SessionValidationResult['session'];
 			colorScheme: ColorScheme;
+			loaders: import('$lib/server/db/loader').RequestLoaders;
 		}
 	}
 